@@ -0,0 +1,350 @@
+/**
+ * Account history
+ *
+ * Open orders, fills, funding payments and PnL for the logged-in wallet,
+ * filtered by coin and time range. Backs both the account resources and
+ * their matching tools.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { Hyperliquid } from "hyperliquid";
+
+/**
+ * Type definitions for account queries
+ */
+export type AccountView = "orders" | "fills" | "funding" | "pnl";
+
+export interface AccountFilter {
+  coin?: string;
+  since: number;
+  until: number;
+  limit: number;
+}
+
+interface PnlBucket {
+  closedPnl: number;
+  fees: number;
+  funding: number;
+  net: number;
+}
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 2000;
+const FILLS_PAGE_SIZE = 2000;
+const FUNDING_PAGE_SIZE = 500;
+const MAX_PAGES = 10;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DURATION_UNITS: { [unit: string]: number } = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: MS_PER_DAY,
+  w: 7 * MS_PER_DAY
+};
+
+/**
+ * Parse a time argument: epoch milliseconds, a date string such as
+ * 2024-05-01 or 2024-05-01T12:00:00Z, a duration before now such as 24h
+ * or 7d, or now, today or yesterday (UTC midnight)
+ */
+export function parseTimeArg(value: unknown, field: string, now: number = Date.now()): number {
+  const text = String(value).trim();
+  const keyword = text.toLowerCase();
+
+  if (keyword === "now") {
+    return now;
+  }
+  if (keyword === "today" || keyword === "yesterday") {
+    const startOfDay = new Date(now);
+    startOfDay.setUTCHours(0, 0, 0, 0);
+    return startOfDay.getTime() - (keyword === "yesterday" ? MS_PER_DAY : 0);
+  }
+
+  const duration = /^(\d+(?:\.\d+)?)\s*([mhdw])$/i.exec(text);
+  if (duration) {
+    return now - parseFloat(duration[1]) * DURATION_UNITS[duration[2].toLowerCase()];
+  }
+
+  const numeric = Number(text);
+  if (text !== "" && Number.isFinite(numeric)) {
+    return numeric;
+  }
+
+  const parsed = Date.parse(text);
+  if (Number.isNaN(parsed)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `${field} must be epoch milliseconds, a date (e.g., 2024-05-01), a duration before now (e.g., 24h, 7d), now, today or yesterday`
+    );
+  }
+  return parsed;
+}
+
+/**
+ * Validate the coin, since, until and limit arguments shared by the account
+ * queries
+ */
+export function parseAccountFilter(
+  args: { [key: string]: unknown },
+  defaultLookbackMs: number = MS_PER_DAY,
+  now: number = Date.now()
+): AccountFilter {
+  const until = args.until !== undefined ? parseTimeArg(args.until, "until", now) : now;
+  const since = args.since !== undefined ? parseTimeArg(args.since, "since", now) : until - defaultLookbackMs;
+  const limit = args.limit !== undefined ? Number(args.limit) : DEFAULT_LIMIT;
+
+  if (since > until) {
+    throw new McpError(ErrorCode.InvalidParams, "since must be before until");
+  }
+  if (!Number.isInteger(limit) || limit <= 0 || limit > MAX_LIMIT) {
+    throw new McpError(ErrorCode.InvalidParams, `limit must be an integer between 1 and ${MAX_LIMIT}`);
+  }
+
+  return {
+    coin: args.coin !== undefined && args.coin !== "" ? String(args.coin) : undefined,
+    since,
+    until,
+    limit
+  };
+}
+
+/**
+ * Fetch every entry in a time range from an endpoint that caps each response
+ * Pages forward from the last entry's time until a short page comes back
+ */
+export async function fetchPaged(
+  fetchPage: (since: number, until: number) => Promise<any[]>,
+  since: number,
+  until: number,
+  pageSize: number
+): Promise<any[]> {
+  const entries: any[] = [];
+  const seen = new Set<string>();
+  let start = since;
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const batch = await fetchPage(start, until);
+    for (const entry of batch) {
+      const key = `${entry.hash}:${entry.tid ?? entry.delta?.coin ?? ""}:${entry.time}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        entries.push(entry);
+      }
+    }
+
+    if (batch.length < pageSize) {
+      break;
+    }
+    const lastTime = Math.max(...batch.map((entry) => entry.time));
+    if (lastTime <= start) {
+      break;
+    }
+    start = lastTime;
+  }
+
+  return entries.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Normalize a side from either the API's B/A or the SDK's buy/sell
+ */
+function toSide(side: string): "buy" | "sell" {
+  return side === "B" || side === "buy" ? "buy" : "sell";
+}
+
+/**
+ * UTC date of a timestamp, as YYYY-MM-DD
+ */
+function utcDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Open orders, including trigger details
+ */
+export async function getOpenOrders(client: Hyperliquid, user: string, filter: AccountFilter): Promise<object> {
+  const orders: any[] = await client.info.getFrontendOpenOrders(user);
+
+  const matches = orders
+    .filter((order) => !filter.coin || order.coin === filter.coin)
+    .map((order) => ({
+      coin: order.coin,
+      oid: order.oid,
+      cloid: order.cloid ?? undefined,
+      side: toSide(order.side),
+      orderType: order.orderType,
+      tif: order.tif ?? undefined,
+      price: Number(order.limitPx),
+      size: Number(order.sz),
+      originalSize: Number(order.origSz),
+      reduceOnly: order.reduceOnly,
+      trigger: order.isTrigger
+        ? {
+          triggerPrice: Number(order.triggerPx),
+          condition: order.triggerCondition,
+          isPositionTpsl: order.isPositionTpsl ?? false
+        }
+        : undefined,
+      timestamp: new Date(order.timestamp).toISOString()
+    }));
+
+  return {
+    count: matches.length,
+    orders: matches.slice(0, filter.limit)
+  };
+}
+
+/**
+ * All fills in a time range, oldest first
+ */
+async function fetchFills(client: Hyperliquid, user: string, filter: AccountFilter): Promise<any[]> {
+  const fills = await fetchPaged(
+    (since, until) => client.info.getUserFillsByTime(user, since, until),
+    filter.since,
+    filter.until,
+    FILLS_PAGE_SIZE
+  );
+  return fills.filter((fill) => !filter.coin || fill.coin === filter.coin);
+}
+
+/**
+ * All funding payments in a time range, oldest first
+ */
+async function fetchFunding(client: Hyperliquid, user: string, filter: AccountFilter): Promise<any[]> {
+  const entries = await fetchPaged(
+    (since, until) => client.info.perpetuals.getUserFunding(user, since, until),
+    filter.since,
+    filter.until,
+    FUNDING_PAGE_SIZE
+  );
+  return entries.filter((entry) => !filter.coin || entry.delta.coin === filter.coin);
+}
+
+/**
+ * Fills in a time range with volume, fee and realized PnL totals
+ * Returns the oldest fills first; when more than limit match, nextSince
+ * continues from where this page stopped
+ */
+export async function getFills(client: Hyperliquid, user: string, filter: AccountFilter): Promise<object> {
+  const fills = await fetchFills(client, user, filter);
+
+  let volume = 0;
+  let fees = 0;
+  let closedPnl = 0;
+  for (const fill of fills) {
+    volume += Number(fill.px) * Number(fill.sz);
+    fees += Number(fill.fee);
+    closedPnl += Number(fill.closedPnl);
+  }
+
+  const page = fills.slice(0, filter.limit);
+  return {
+    since: new Date(filter.since).toISOString(),
+    until: new Date(filter.until).toISOString(),
+    count: fills.length,
+    summary: { volume, fees, closedPnl, net: closedPnl - fees },
+    fills: page.map((fill) => ({
+      time: new Date(fill.time).toISOString(),
+      coin: fill.coin,
+      side: toSide(fill.side),
+      price: Number(fill.px),
+      size: Number(fill.sz),
+      direction: fill.dir,
+      closedPnl: Number(fill.closedPnl),
+      fee: Number(fill.fee),
+      feeToken: fill.feeToken,
+      crossed: fill.crossed,
+      oid: fill.oid,
+      tid: fill.tid
+    })),
+    nextSince: fills.length > page.length ? page[page.length - 1].time + 1 : undefined
+  };
+}
+
+/**
+ * Funding payments in a time range
+ * Positive amounts were received, negative amounts were paid
+ */
+export async function getFunding(client: Hyperliquid, user: string, filter: AccountFilter): Promise<object> {
+  const entries = await fetchFunding(client, user, filter);
+
+  const byCoin: { [coin: string]: number } = {};
+  for (const entry of entries) {
+    byCoin[entry.delta.coin] = (byCoin[entry.delta.coin] ?? 0) + Number(entry.delta.usdc);
+  }
+
+  const page = entries.slice(0, filter.limit);
+  return {
+    since: new Date(filter.since).toISOString(),
+    until: new Date(filter.until).toISOString(),
+    count: entries.length,
+    total: Object.values(byCoin).reduce((total, amount) => total + amount, 0),
+    byCoin,
+    payments: page.map((entry) => ({
+      time: new Date(entry.time).toISOString(),
+      coin: entry.delta.coin,
+      amount: Number(entry.delta.usdc),
+      positionSize: Number(entry.delta.szi),
+      fundingRate: Number(entry.delta.fundingRate)
+    })),
+    nextSince: entries.length > page.length ? page[page.length - 1].time + 1 : undefined
+  };
+}
+
+/**
+ * Realized PnL (closed PnL, fees and funding) per coin and per UTC day over
+ * a time range, plus unrealized PnL of open positions
+ */
+export async function getPnl(client: Hyperliquid, user: string, filter: AccountFilter): Promise<object> {
+  const [fills, funding, perpState] = await Promise.all([
+    fetchFills(client, user, filter),
+    fetchFunding(client, user, filter),
+    client.info.perpetuals.getClearinghouseState(user)
+  ]);
+
+  const byCoin: { [coin: string]: PnlBucket } = {};
+  const byDay: { [date: string]: PnlBucket } = {};
+  const add = (coin: string, time: number, field: keyof PnlBucket, amount: number) => {
+    for (const bucket of [
+      byCoin[coin] ??= { closedPnl: 0, fees: 0, funding: 0, net: 0 },
+      byDay[utcDate(time)] ??= { closedPnl: 0, fees: 0, funding: 0, net: 0 }
+    ]) {
+      bucket[field] += amount;
+      bucket.net += field === "fees" ? -amount : amount;
+    }
+  };
+
+  for (const fill of fills) {
+    add(fill.coin, fill.time, "closedPnl", Number(fill.closedPnl));
+    add(fill.coin, fill.time, "fees", Number(fill.fee));
+  }
+  for (const entry of funding) {
+    add(entry.delta.coin, entry.time, "funding", Number(entry.delta.usdc));
+  }
+
+  const unrealized: { [coin: string]: number } = {};
+  for (const { position } of perpState.assetPositions) {
+    if (!filter.coin || position.coin === filter.coin) {
+      unrealized[position.coin] = Number(position.unrealizedPnl);
+    }
+  }
+
+  const realizedTotal = Object.values(byCoin).reduce((total, bucket) => total + bucket.net, 0);
+  const unrealizedTotal = Object.values(unrealized).reduce((total, amount) => total + amount, 0);
+
+  return {
+    since: new Date(filter.since).toISOString(),
+    until: new Date(filter.until).toISOString(),
+    realized: {
+      total: realizedTotal,
+      byCoin,
+      byDay: Object.entries(byDay)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, bucket]) => ({ date, ...bucket }))
+    },
+    unrealized: {
+      total: unrealizedTotal,
+      byCoin: unrealized
+    },
+    total: realizedTotal + unrealizedTotal
+  };
+}
@@ -0,0 +1,317 @@
+/**
+ * Agent wallets
+ *
+ * Hyperliquid lets a master account approve agent (API) wallets that can
+ * trade for it but cannot move its funds. The server generates the agent key
+ * itself, so the master private key never passes through a tool: the master
+ * approves the agent either by signing the payload the server hands out in
+ * their own wallet, or locally with the approve-agent command, which asks for
+ * the key on the terminal.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { BASE_URLS, Hyperliquid } from "hyperliquid";
+import { ethers } from "ethers";
+
+/**
+ * Type definitions for agent approvals
+ */
+export interface AgentWallet {
+  address: string;
+  privateKey: string;
+}
+
+export interface AgentInfo {
+  name: string;
+  address: string;
+  validUntil: string;
+}
+
+export interface ApproveAgentAction {
+  type: "approveAgent";
+  hyperliquidChain: "Mainnet" | "Testnet";
+  signatureChainId: string;
+  agentAddress: string;
+  agentName: string;
+  nonce: number;
+}
+
+export const DEFAULT_AGENT_NAME = "mcp";
+export const AGENT_COMMANDS = ["approve-agent", "revoke-agent"];
+
+const AGENT_NAME_PATTERN = /^[A-Za-z0-9 _-]{1,16}$/;
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+const APPROVAL_TTL_MS = 24 * 60 * 60 * 1000;
+const PRIMARY_TYPE = "HyperliquidTransaction:ApproveAgent";
+const APPROVE_AGENT_FIELDS = [
+  { name: "hyperliquidChain", type: "string" },
+  { name: "agentAddress", type: "address" },
+  { name: "agentName", type: "string" },
+  { name: "nonce", type: "uint64" }
+];
+
+/**
+ * Validate an agent name; Hyperliquid keys named agents by it
+ */
+export function parseAgentName(value: unknown): string {
+  const name = value === undefined || value === null || value === "" ? DEFAULT_AGENT_NAME : String(value);
+  if (!AGENT_NAME_PATTERN.test(name)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "Agent names may only contain letters, digits, spaces, - and _ (at most 16 characters)"
+    );
+  }
+  return name;
+}
+
+/**
+ * Generate a new agent key
+ */
+export function generateAgentWallet(): AgentWallet {
+  const wallet = ethers.Wallet.createRandom();
+  return { address: wallet.address, privateKey: wallet.privateKey };
+}
+
+/**
+ * Build the action that approves an agent for the master account
+ * Approving the zero address under an agent's name revokes that agent
+ */
+export function buildApproveAgent(agentAddress: string | null, agentName: string, mainnet: boolean, nonce: number = Date.now()): ApproveAgentAction {
+  return {
+    type: "approveAgent",
+    hyperliquidChain: mainnet ? "Mainnet" : "Testnet",
+    signatureChainId: mainnet ? "0xa4b1" : "0x66eee",
+    agentAddress: agentAddress ?? ZERO_ADDRESS,
+    agentName,
+    nonce
+  };
+}
+
+/**
+ * EIP-712 domain and types of an approval
+ */
+function typedDataParts(action: ApproveAgentAction) {
+  return {
+    domain: {
+      name: "HyperliquidSignTransaction",
+      version: "1",
+      chainId: Number(action.signatureChainId),
+      verifyingContract: ZERO_ADDRESS
+    },
+    types: { [PRIMARY_TYPE]: APPROVE_AGENT_FIELDS },
+    message: {
+      hyperliquidChain: action.hyperliquidChain,
+      agentAddress: action.agentAddress,
+      agentName: action.agentName,
+      nonce: action.nonce
+    }
+  };
+}
+
+/**
+ * The approval as EIP-712 typed data, ready for eth_signTypedData_v4 in the
+ * master account's wallet
+ */
+export function approvalTypedData(action: ApproveAgentAction): object {
+  const { domain, types, message } = typedDataParts(action);
+  return {
+    domain,
+    types: {
+      EIP712Domain: [
+        { name: "name", type: "string" },
+        { name: "version", type: "string" },
+        { name: "chainId", type: "uint256" },
+        { name: "verifyingContract", type: "address" }
+      ],
+      ...types
+    },
+    primaryType: PRIMARY_TYPE,
+    message
+  };
+}
+
+/**
+ * When an approval stops being accepted
+ */
+export function approvalExpiresAt(action: ApproveAgentAction): number {
+  return action.nonce + APPROVAL_TTL_MS;
+}
+
+/**
+ * Sign an approval with the master private key
+ */
+export async function signApproval(masterPrivateKey: string, action: ApproveAgentAction): Promise<string> {
+  const { domain, types, message } = typedDataParts(action);
+  return new ethers.Wallet(masterPrivateKey).signTypedData(domain, types, message);
+}
+
+/**
+ * Send a signed approval to the exchange
+ * The signature is checked against the master address first, so a payload
+ * signed by the wrong wallet fails with a clear error instead of being
+ * rejected by the exchange
+ */
+export async function submitApproval(action: ApproveAgentAction, signature: string, masterAddress: string): Promise<unknown> {
+  if (Date.now() > approvalExpiresAt(action)) {
+    throw new McpError(ErrorCode.InvalidRequest, "The approval payload has expired. Create a new one");
+  }
+
+  let signer: string;
+  let parsed: ethers.Signature;
+  try {
+    const { domain, types, message } = typedDataParts(action);
+    parsed = ethers.Signature.from(signature);
+    signer = ethers.verifyTypedData(domain, types, message, parsed);
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, "signature must be the 65-byte hex signature of the approval payload");
+  }
+  if (signer.toLowerCase() !== masterAddress.toLowerCase()) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `The approval was signed by ${signer}, not by the master account ${masterAddress}`
+    );
+  }
+
+  const baseUrl = action.hyperliquidChain === "Mainnet" ? BASE_URLS.PRODUCTION : BASE_URLS.TESTNET;
+  const response = await fetch(`${baseUrl}/exchange`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      action,
+      nonce: action.nonce,
+      signature: { r: parsed.r, s: parsed.s, v: parsed.v }
+    })
+  });
+  const result: any = await response.json().catch(() => ({ status: "err", response: `HTTP ${response.status}` }));
+  if (!response.ok || result?.status !== "ok") {
+    throw new McpError(
+      ErrorCode.InternalError,
+      `The exchange rejected the approval: ${typeof result?.response === "string" ? result.response : JSON.stringify(result)}`
+    );
+  }
+  return result;
+}
+
+/**
+ * Agents approved for a master account, with when each expires
+ */
+export async function listAgents(client: Hyperliquid, masterAddress: string): Promise<AgentInfo[]> {
+  const agents = await client.info.extraAgents(masterAddress);
+  return agents.map((agent) => ({
+    name: agent.name,
+    address: agent.address,
+    validUntil: new Date(agent.validUntil).toISOString()
+  }));
+}
+
+/**
+ * Whether the command line asks for an agent command rather than a server
+ */
+export function isAgentCommand(argv: string[]): boolean {
+  return AGENT_COMMANDS.includes(argv[0]);
+}
+
+/**
+ * Read a line from the terminal without echoing it
+ * Piped input is read as is, so the command can also be scripted
+ */
+async function promptSecret(question: string): Promise<string> {
+  const stdin = process.stdin;
+  process.stderr.write(question);
+
+  if (!stdin.isTTY) {
+    let input = "";
+    for await (const chunk of stdin) {
+      input += chunk;
+      if (input.includes("\n")) {
+        break;
+      }
+    }
+    return input.split("\n")[0].trim();
+  }
+
+  return new Promise((resolve, reject) => {
+    let input = "";
+    const finish = () => {
+      stdin.off("data", onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stderr.write("\n");
+    };
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === "\r" || char === "\n") {
+          finish();
+          resolve(input.trim());
+          return;
+        }
+        if (char === "\u0003") {
+          finish();
+          reject(new Error("Cancelled"));
+          return;
+        }
+        input = char === "\u007f" || char === "\b" ? input.slice(0, -1) : input + char;
+      }
+    };
+    stdin.setRawMode(true);
+    stdin.setEncoding("utf8");
+    stdin.on("data", onData);
+    stdin.resume();
+  });
+}
+
+/**
+ * Run approve-agent or revoke-agent from the command line
+ *   approve-agent --agent <address> [--name <name>] [--mainnet]
+ *   revoke-agent [--name <name>] [--mainnet]
+ * The master private key is asked for on the terminal, used once to sign and
+ * never stored
+ */
+export async function runAgentCommand(argv: string[]): Promise<void> {
+  const [command, ...rest] = argv;
+  const flags: { [name: string]: string | true } = {};
+  for (let index = 0; index < rest.length; index++) {
+    const match = /^--([a-z]+)(?:=(.*))?$/.exec(rest[index]);
+    if (!match) {
+      throw new Error(`Unknown argument: ${rest[index]}`);
+    }
+    const [, name, inline] = match;
+    if (name === "agent" || name === "name") {
+      const value = inline ?? rest[++index];
+      if (value === undefined) {
+        throw new Error(`--${name} needs a value`);
+      }
+      flags[name] = value;
+    } else if (name === "mainnet" || name === "testnet") {
+      flags[name] = true;
+    } else {
+      throw new Error(`Unknown option: --${name}`);
+    }
+  }
+
+  const revoking = command === "revoke-agent";
+  const agentAddress = revoking ? null : String(flags.agent ?? "");
+  if (agentAddress !== null && !ethers.isAddress(agentAddress)) {
+    throw new Error("approve-agent needs --agent set to the agent's address");
+  }
+  const agentName = parseAgentName(flags.name);
+  const mainnet = flags.mainnet === true;
+  const network = mainnet ? "mainnet" : "testnet";
+
+  const input = await promptSecret(`Master private key to ${revoking ? "revoke" : "approve"} agent "${agentName}" on ${network}: `);
+  const masterKey = input.startsWith("0x") ? input : `0x${input}`;
+  let masterAddress: string;
+  try {
+    masterAddress = new ethers.Wallet(masterKey).address;
+  } catch {
+    throw new Error("Invalid private key format");
+  }
+
+  const action = buildApproveAgent(agentAddress, agentName, mainnet);
+  const signature = await signApproval(masterKey, action);
+  await submitApproval(action, signature, masterAddress);
+
+  console.error(revoking
+    ? `Revoked agent "${agentName}" of ${masterAddress} on ${network}`
+    : `Approved agent ${agentAddress} as "${agentName}" for ${masterAddress} on ${network}`);
+}
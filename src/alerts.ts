@@ -0,0 +1,250 @@
+/**
+ * Price and account alerts
+ *
+ * Conditions on a market's price or funding, or on an account's PnL, margin
+ * usage or distance to liquidation, checked by a background watcher. A
+ * condition fires once when it becomes true; repeating alerts re-arm once it
+ * is false again, at most once per cooldown.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { Hyperliquid } from "hyperliquid";
+import { analyzeBook } from "./marketdata.js";
+import { MarketInfo } from "./markets.js";
+import { getPositionState } from "./positions.js";
+
+/**
+ * Type definitions for alerts and the events they record
+ */
+export type AlertMetric = "price" | "funding" | "pnl" | "margin_usage" | "liquidation_distance";
+export type AlertCondition = "above" | "below" | "crosses";
+export type AlertAction = "notify" | "close_position" | "cancel_all";
+
+export interface Alert {
+  id: string;
+  account: string;
+  metric: AlertMetric;
+  symbol?: string;
+  condition: AlertCondition;
+  threshold: number;
+  action: AlertAction;
+  repeat: boolean;
+  cooldownSeconds: number;
+  note?: string;
+  active: boolean;
+  createdAt: string;
+  state: {
+    lastValue?: number;
+    lastCheckedAt?: string;
+    conditionMet?: boolean;
+    triggeredAt?: string;
+    triggerCount: number;
+    lastError?: string;
+  };
+}
+
+export interface AlertEvent {
+  alertId: string;
+  time: string;
+  account: string;
+  metric: AlertMetric;
+  symbol?: string;
+  condition: AlertCondition;
+  threshold: number;
+  value: number;
+  message: string;
+  note?: string;
+  action: AlertAction;
+  actionStatus?: "ok" | "error";
+  actionResult?: unknown;
+}
+
+export const ALERT_METRICS: AlertMetric[] = ["price", "funding", "pnl", "margin_usage", "liquidation_distance"];
+export const ALERT_CONDITIONS: AlertCondition[] = ["above", "below", "crosses"];
+export const ALERT_ACTIONS: AlertAction[] = ["notify", "close_position", "cancel_all"];
+export const MAX_ALERT_EVENTS = 200;
+
+const DEFAULT_COOLDOWN_SECONDS = 300;
+const SYMBOL_METRICS: AlertMetric[] = ["price", "funding"];
+const METRIC_UNITS: { [metric in AlertMetric]: string } = {
+  price: "",
+  funding: "% per hour",
+  pnl: " USDC",
+  margin_usage: "% of account value",
+  liquidation_distance: "% from the mark price"
+};
+const METRIC_NAMES: { [metric in AlertMetric]: string } = {
+  price: "price",
+  funding: "funding",
+  pnl: "unrealized PnL",
+  margin_usage: "margin usage",
+  liquidation_distance: "distance to liquidation"
+};
+
+/**
+ * Validate create_alert arguments into a new alert
+ * The symbol is resolved by the caller, since that needs the account's client
+ */
+export function parseAlert(args: any, id: string, account: string, symbol?: string): Alert {
+  const metric = args.metric as AlertMetric;
+  const condition = args.condition as AlertCondition;
+  const action = (args.action ?? "notify") as AlertAction;
+  const threshold = Number(args.threshold);
+  const cooldownSeconds = args.cooldownSeconds !== undefined ? Number(args.cooldownSeconds) : DEFAULT_COOLDOWN_SECONDS;
+
+  if (!ALERT_METRICS.includes(metric)) {
+    throw new McpError(ErrorCode.InvalidParams, `metric must be one of: ${ALERT_METRICS.join(", ")}`);
+  }
+  if (!ALERT_CONDITIONS.includes(condition)) {
+    throw new McpError(ErrorCode.InvalidParams, `condition must be one of: ${ALERT_CONDITIONS.join(", ")}`);
+  }
+  if (!ALERT_ACTIONS.includes(action)) {
+    throw new McpError(ErrorCode.InvalidParams, `action must be one of: ${ALERT_ACTIONS.join(", ")}`);
+  }
+  if (!Number.isFinite(threshold)) {
+    throw new McpError(ErrorCode.InvalidParams, "threshold must be a number");
+  }
+  if (!Number.isFinite(cooldownSeconds) || cooldownSeconds < 0) {
+    throw new McpError(ErrorCode.InvalidParams, "cooldownSeconds must be a non-negative number");
+  }
+  if (SYMBOL_METRICS.includes(metric) && !symbol) {
+    throw new McpError(ErrorCode.InvalidParams, `symbol is required for ${metric} alerts`);
+  }
+  if (metric === "margin_usage" && symbol) {
+    throw new McpError(ErrorCode.InvalidParams, "margin_usage alerts apply to the whole account and take no symbol");
+  }
+
+  return {
+    id,
+    account,
+    metric,
+    symbol,
+    condition,
+    threshold,
+    action,
+    repeat: Boolean(args.repeat),
+    cooldownSeconds,
+    note: typeof args.note === "string" && args.note ? args.note : undefined,
+    active: true,
+    createdAt: new Date().toISOString(),
+    state: { triggerCount: 0 }
+  };
+}
+
+/**
+ * One-line description of an alert, e.g. "ETH-PERP price crosses 4000"
+ */
+export function describeAlert(alert: Alert): string {
+  const subject = alert.symbol ? `${alert.symbol} ${METRIC_NAMES[alert.metric]}` : METRIC_NAMES[alert.metric];
+  return `${subject} ${alert.condition} ${alert.threshold}${METRIC_UNITS[alert.metric]}`;
+}
+
+/**
+ * Current value of an alert's metric, or undefined when there is nothing to
+ * measure, such as the liquidation distance without an open position
+ */
+export async function readAlertValue(
+  client: Hyperliquid,
+  user: string | undefined,
+  alert: Alert,
+  market?: MarketInfo
+): Promise<number | undefined> {
+  const symbol = market?.symbol ?? alert.symbol;
+
+  switch (alert.metric) {
+    case "price": {
+      const { mid } = analyzeBook(await client.info.getL2Book(symbol!));
+      return mid;
+    }
+    case "funding": {
+      if (!market || market.type !== "perp") {
+        throw new Error(`Funding is only available for perp markets, not ${symbol}`);
+      }
+      const [, contexts]: any = await client.info.perpetuals.getMetaAndAssetCtxs(true);
+      const funding = contexts[market.assetIndex]?.funding;
+      return funding !== undefined ? Number(funding) * 100 : undefined;
+    }
+  }
+
+  if (!user) {
+    throw new Error("No wallet address available for account alerts");
+  }
+  const state = await getPositionState(client, user, symbol);
+  switch (alert.metric) {
+    case "pnl":
+      return state.positions.reduce((total, position) => total + position.unrealizedPnl, 0);
+    case "margin_usage":
+      return state.margin.accountValue > 0 ? (state.margin.totalMarginUsed / state.margin.accountValue) * 100 : undefined;
+    case "liquidation_distance": {
+      const distances = state.positions
+        .filter((position) => position.liquidationPrice !== undefined && position.size > 0)
+        .map((position) => {
+          const markPrice = position.positionValue / position.size;
+          return (Math.abs(markPrice - position.liquidationPrice!) / markPrice) * 100;
+        });
+      return distances.length ? Math.min(...distances) : undefined;
+    }
+  }
+}
+
+/**
+ * Record a new reading and decide whether the alert fires
+ * above and below fire when the condition becomes true, crosses when the
+ * value moves from one side of the threshold to the other. A repeating alert
+ * does not fire again within its cooldown. Without a reading the condition
+ * counts as not met
+ */
+export function evaluateAlert(alert: Alert, value: number | undefined, now: number = Date.now()): boolean {
+  const previous = alert.state.lastValue;
+  const threshold = alert.threshold;
+  alert.state.lastValue = value;
+  alert.state.lastCheckedAt = new Date(now).toISOString();
+  alert.state.lastError = undefined;
+
+  if (value === undefined) {
+    alert.state.conditionMet = false;
+    return false;
+  }
+
+  let fires: boolean;
+  if (alert.condition === "crosses") {
+    fires = previous !== undefined &&
+      ((previous < threshold && value >= threshold) || (previous > threshold && value <= threshold));
+  } else {
+    const met = alert.condition === "above" ? value >= threshold : value <= threshold;
+    fires = met && !alert.state.conditionMet;
+    alert.state.conditionMet = met;
+  }
+
+  const triggeredAt = alert.state.triggeredAt ? Date.parse(alert.state.triggeredAt) : undefined;
+  if (fires && triggeredAt !== undefined && now - triggeredAt < alert.cooldownSeconds * 1000) {
+    return false;
+  }
+  return fires;
+}
+
+/**
+ * Mark an alert as fired and build the event it records
+ * One-shot alerts are deactivated
+ */
+export function fireAlert(alert: Alert, value: number, now: number = Date.now()): AlertEvent {
+  alert.state.triggeredAt = new Date(now).toISOString();
+  alert.state.triggerCount++;
+  if (!alert.repeat) {
+    alert.active = false;
+  }
+
+  return {
+    alertId: alert.id,
+    time: alert.state.triggeredAt,
+    account: alert.account,
+    metric: alert.metric,
+    symbol: alert.symbol,
+    condition: alert.condition,
+    threshold: alert.threshold,
+    value,
+    message: `Alert ${alert.id}: ${describeAlert(alert)} (now ${Number(value.toPrecision(8))}${METRIC_UNITS[alert.metric]})`,
+    note: alert.note,
+    action: alert.action
+  };
+}
@@ -0,0 +1,365 @@
+/**
+ * Backtesting
+ *
+ * Replays a stored strategy over historical candles, using the paper
+ * exchange for matching and the live strategy logic for decisions, and
+ * reports the equity curve, trades and performance statistics.
+ */
+
+import fs from "fs";
+import path from "path";
+import { Hyperliquid, L2Book } from "hyperliquid";
+import { PaperExchange, createPaperState } from "./paper.js";
+import { Strategy, createStrategyState, tickStrategy } from "./strategies.js";
+
+/**
+ * Type definitions for candles and backtest results
+ */
+export interface Candle {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface BacktestTrade {
+  time: number;
+  side: "buy" | "sell";
+  price: number;
+  size: number;
+  fee: number;
+  closedPnl: number;
+  dir: string;
+}
+
+export interface BacktestResult {
+  id: string;
+  strategyId: string;
+  strategyName: string;
+  type: Strategy["type"];
+  config: Strategy["config"];
+  source: string;
+  startTime: number;
+  endTime: number;
+  candles: number;
+  initialBalance: number;
+  finalEquity: number;
+  totalReturnPct: number;
+  realizedPnl: number;
+  fees: number;
+  maxDrawdown: number;
+  maxDrawdownPct: number;
+  sharpeRatio: number;
+  winRate: number | null;
+  tradeCount: number;
+  trades: BacktestTrade[];
+  equityCurve: { time: number; equity: number }[];
+  errors: string[];
+  createdAt: number;
+}
+
+export interface BacktestOptions {
+  initialBalance: number;
+  source: string;
+}
+
+const HALF_SPREAD = 0.0001;
+const BOOK_DEPTH = "1000000000";
+const MAX_RECORDED_ERRORS = 20;
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a timestamp given as epoch milliseconds, epoch seconds or a date string
+ */
+function parseTime(value: unknown): number {
+  const numeric = Number(value);
+  if (Number.isFinite(numeric)) {
+    return numeric < 1e12 ? numeric * 1000 : numeric;
+  }
+
+  const parsed = Date.parse(String(value));
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Invalid candle time: ${value}`);
+  }
+  return parsed;
+}
+
+/**
+ * Normalize a candle object using either short (t, o, h, l, c, v) or long
+ * (time, open, high, low, close, volume) field names
+ */
+function toCandle(raw: any): Candle {
+  const candle = {
+    time: parseTime(raw.t ?? raw.time ?? raw.timestamp),
+    open: Number(raw.o ?? raw.open),
+    high: Number(raw.h ?? raw.high),
+    low: Number(raw.l ?? raw.low),
+    close: Number(raw.c ?? raw.close),
+    volume: Number(raw.v ?? raw.volume ?? 0)
+  };
+
+  if ([candle.open, candle.high, candle.low, candle.close].some((value) => !Number.isFinite(value))) {
+    throw new Error(`Invalid candle: ${JSON.stringify(raw)}`);
+  }
+  return candle;
+}
+
+/**
+ * Sort candles by time and drop duplicates
+ */
+function sortCandles(candles: Candle[]): Candle[] {
+  const byTime = new Map(candles.map((candle) => [candle.time, candle]));
+  return [...byTime.values()].sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Convert a Hyperliquid candle snapshot to candles
+ */
+export function parseCandleSnapshot(snapshot: any[]): Candle[] {
+  return sortCandles(snapshot.map(toCandle));
+}
+
+/**
+ * Load candles from a local CSV or JSON file
+ * CSV files need a header row naming the time, open, high, low and close
+ * columns; JSON files hold an array of candle objects
+ */
+export function loadCandlesFromFile(filePath: string): Candle[] {
+  const contents = fs.readFileSync(filePath, "utf8");
+
+  if (path.extname(filePath).toLowerCase() === ".json") {
+    const parsed = JSON.parse(contents);
+    if (!Array.isArray(parsed)) {
+      throw new Error("JSON candle file must contain an array");
+    }
+    return sortCandles(parsed.map(toCandle));
+  }
+
+  const [header, ...rows] = contents.split(/\r?\n/).filter((line) => line.trim() !== "");
+  if (!header) {
+    throw new Error("CSV candle file is empty");
+  }
+
+  const columns = header.split(",").map((column) => column.trim().toLowerCase());
+  return sortCandles(rows.map((row) => {
+    const values = row.split(",");
+    const raw: { [column: string]: string } = {};
+    columns.forEach((column, index) => {
+      raw[column] = values[index]?.trim();
+    });
+    return toCandle(raw);
+  }));
+}
+
+/**
+ * Book spanning a candle's range, used to fill resting orders the price
+ * traded through during the candle
+ */
+function rangeBook(candle: Candle): L2Book {
+  return {
+    levels: [
+      [{ px: String(candle.high), sz: BOOK_DEPTH, n: 1 }],
+      [{ px: String(candle.low), sz: BOOK_DEPTH, n: 1 }]
+    ]
+  } as L2Book;
+}
+
+/**
+ * Tight book around a candle's close, used for the strategy's decisions and
+ * any orders it sends
+ */
+function closeBook(candle: Candle): L2Book {
+  return {
+    levels: [
+      [{ px: String(candle.close * (1 - HALF_SPREAD)), sz: BOOK_DEPTH, n: 1 }],
+      [{ px: String(candle.close * (1 + HALF_SPREAD)), sz: BOOK_DEPTH, n: 1 }]
+    ]
+  } as L2Book;
+}
+
+/**
+ * Largest peak-to-trough drop of an equity curve, in USD and percent
+ */
+function maxDrawdown(equityCurve: { equity: number }[]): { amount: number; pct: number } {
+  let peak = -Infinity;
+  let amount = 0;
+  let pct = 0;
+
+  for (const { equity } of equityCurve) {
+    peak = Math.max(peak, equity);
+    amount = Math.max(amount, peak - equity);
+    if (peak > 0) {
+      pct = Math.max(pct, ((peak - equity) / peak) * 100);
+    }
+  }
+
+  return { amount, pct };
+}
+
+/**
+ * Annualized Sharpe ratio of per-candle returns, assuming a zero risk-free rate
+ */
+function sharpeRatio(equityCurve: { time: number; equity: number }[]): number {
+  if (equityCurve.length < 3) {
+    return 0;
+  }
+
+  const returns = [];
+  for (let i = 1; i < equityCurve.length; i++) {
+    const previous = equityCurve[i - 1].equity;
+    returns.push(previous > 0 ? equityCurve[i].equity / previous - 1 : 0);
+  }
+
+  const mean = returns.reduce((total, value) => total + value, 0) / returns.length;
+  const variance = returns.reduce((total, value) => total + (value - mean) ** 2, 0) / (returns.length - 1);
+  const stdDev = Math.sqrt(variance);
+  if (stdDev === 0) {
+    return 0;
+  }
+
+  const periodMs = (equityCurve[equityCurve.length - 1].time - equityCurve[0].time) / (equityCurve.length - 1);
+  return (mean / stdDev) * Math.sqrt(MS_PER_YEAR / periodMs);
+}
+
+/**
+ * Replay a strategy over candles
+ * The strategy ticks on its configured interval in simulated time, and
+ * resting orders fill whenever a candle trades through their price
+ */
+export async function runBacktest(
+  strategy: Strategy,
+  candles: Candle[],
+  options: BacktestOptions
+): Promise<Omit<BacktestResult, "id">> {
+  if (candles.length < 2) {
+    throw new Error("At least two candles are needed to run a backtest");
+  }
+
+  const symbol = strategy.config.symbol;
+  const spot = symbol.endsWith("-SPOT");
+  const paperState = createPaperState(spot ? 0 : options.initialBalance);
+  if (spot) {
+    paperState.spotBalances.USDC = options.initialBalance;
+  }
+
+  let book = closeBook(candles[0]);
+  let now = candles[0].time;
+  const paper = new PaperExchange(paperState, async () => book, undefined, () => now);
+
+  // A minimal client that routes everything the strategy uses to the simulator
+  const client = {
+    connect: async () => undefined,
+    exchange: paper,
+    info: {
+      getL2Book: async () => book,
+      getUserOpenOrders: () => paper.getUserOpenOrders(),
+      getUserFillsByTime: (user: string, startTime: number, endTime?: number) =>
+        paper.getUserFillsByTime(startTime, endTime)
+    }
+  } as unknown as Hyperliquid;
+
+  const replay: Strategy = {
+    ...strategy,
+    active: true,
+    state: { ...createStrategyState(), startedAt: 0 }
+  };
+  const context = {
+    getClient: () => client,
+    getWalletAddress: () => "backtest"
+  };
+
+  const intervalMs = strategy.config.intervalSeconds * 1000;
+  const equityCurve: { time: number; equity: number }[] = [];
+  const errors: string[] = [];
+  let nextTick = candles[0].time;
+
+  for (const candle of candles) {
+    now = candle.time;
+
+    // Fill resting orders the candle traded through
+    book = rangeBook(candle);
+    await paper.sync();
+
+    book = closeBook(candle);
+    if (candle.time >= nextTick) {
+      try {
+        await tickStrategy(replay, context);
+      } catch (error) {
+        if (errors.length < MAX_RECORDED_ERRORS) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          errors.push(`${new Date(candle.time).toISOString()}: ${errorMessage}`);
+        }
+      }
+      nextTick = candle.time + intervalMs;
+    }
+
+    const perpState = await paper.getClearinghouseState();
+    const token = symbol.replace(/-SPOT$/, "");
+    const spotValue = (paperState.spotBalances.USDC ?? 0) + (spot ? (paperState.spotBalances[token] ?? 0) * candle.close : 0);
+    equityCurve.push({
+      time: candle.time,
+      equity: parseFloat(perpState.marginSummary.accountValue) + spotValue
+    });
+  }
+
+  const trades: BacktestTrade[] = paperState.fills.map((fill) => ({
+    time: fill.time,
+    side: fill.side === "B" ? "buy" : "sell",
+    price: parseFloat(fill.px),
+    size: parseFloat(fill.sz),
+    fee: parseFloat(fill.fee),
+    closedPnl: parseFloat(fill.closedPnl),
+    dir: fill.dir
+  }));
+
+  const closingTrades = trades.filter((trade) => trade.closedPnl !== 0);
+  const wins = closingTrades.filter((trade) => trade.closedPnl > 0).length;
+  const drawdown = maxDrawdown(equityCurve);
+  const finalEquity = equityCurve[equityCurve.length - 1].equity;
+
+  return {
+    strategyId: strategy.id,
+    strategyName: strategy.name,
+    type: strategy.type,
+    config: strategy.config,
+    source: options.source,
+    startTime: candles[0].time,
+    endTime: candles[candles.length - 1].time,
+    candles: candles.length,
+    initialBalance: options.initialBalance,
+    finalEquity,
+    totalReturnPct: ((finalEquity - options.initialBalance) / options.initialBalance) * 100,
+    realizedPnl: trades.reduce((total, trade) => total + trade.closedPnl, 0),
+    fees: trades.reduce((total, trade) => total + trade.fee, 0),
+    maxDrawdown: drawdown.amount,
+    maxDrawdownPct: drawdown.pct,
+    sharpeRatio: sharpeRatio(equityCurve),
+    winRate: closingTrades.length > 0 ? wins / closingTrades.length : null,
+    tradeCount: trades.length,
+    trades,
+    equityCurve,
+    errors,
+    createdAt: Date.now()
+  };
+}
+
+/**
+ * Trim a backtest result for a tool response
+ * Keeps every statistic but samples the equity curve and keeps only the most
+ * recent trades; the full result stays available as a resource
+ */
+export function summarizeBacktest(result: BacktestResult, maxPoints: number = 200): object {
+  const step = Math.max(1, Math.ceil(result.equityCurve.length / maxPoints));
+  const equityCurve = result.equityCurve.filter(
+    (point, index) => index % step === 0 || index === result.equityCurve.length - 1
+  );
+
+  return {
+    ...result,
+    trades: result.trades.slice(-maxPoints),
+    equityCurve,
+    resource: `hyperliquid://backtest/${result.id}`
+  };
+}
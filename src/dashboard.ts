@@ -0,0 +1,257 @@
+/**
+ * Local web dashboard
+ *
+ * A single page served by the HTTP server that shows what the agent is doing:
+ * account equity, positions, open orders, recent fills, strategies and the
+ * tool-call history, read from the same resources MCP clients see. A strategy
+ * switch and a kill switch let a human step in without going through the
+ * agent. The page itself holds no data; everything it shows comes from a JSON
+ * API that needs the bearer token.
+ */
+
+/**
+ * Actions and state the dashboard API is backed by
+ */
+export interface DashboardApi {
+  getState(account?: string): Promise<object>;
+  setStrategyActive(strategyId: string, active: boolean): Promise<object>;
+  killSwitch(options: { closePositions: boolean }): Promise<object>;
+  resumeTrading(): Promise<object>;
+}
+
+export interface DashboardResponse {
+  status: number;
+  body: object;
+}
+
+export const DASHBOARD_PATH = "/dashboard";
+const API_PREFIX = `${DASHBOARD_PATH}/api/`;
+
+/**
+ * Whether a path belongs to the dashboard JSON API rather than the page
+ */
+export function isDashboardApiPath(pathname: string): boolean {
+  return pathname.startsWith(API_PREFIX);
+}
+
+/**
+ * Route a dashboard API request
+ * GET state?account=, POST strategies/{id} with {active}, POST kill with
+ * {closePositions} and POST resume
+ */
+export async function handleDashboardApi(
+  method: string,
+  url: URL,
+  body: any,
+  api: DashboardApi
+): Promise<DashboardResponse> {
+  const route = url.pathname.slice(API_PREFIX.length);
+
+  if (method === "GET" && route === "state") {
+    return { status: 200, body: await api.getState(url.searchParams.get("account") || undefined) };
+  }
+
+  if (method === "POST") {
+    const strategy = /^strategies\/([^/]+)$/.exec(route);
+    if (strategy) {
+      if (typeof body?.active !== "boolean") {
+        return { status: 400, body: { error: "active must be true or false" } };
+      }
+      return { status: 200, body: await api.setStrategyActive(decodeURIComponent(strategy[1]), body.active) };
+    }
+    if (route === "kill") {
+      return { status: 200, body: await api.killSwitch({ closePositions: body?.closePositions === true }) };
+    }
+    if (route === "resume") {
+      return { status: 200, body: await api.resumeTrading() };
+    }
+  }
+
+  return { status: 404, body: { error: "Not found" } };
+}
+
+/**
+ * The dashboard page
+ * The token is passed in the URL fragment (/dashboard#token=...), which
+ * browsers never send to the server, then kept in session storage
+ */
+export function dashboardPage(): string {
+  return DASHBOARD_HTML;
+}
+
+const DASHBOARD_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Hyperliquid MCP Dashboard</title>
+<style>
+  body { font: 14px/1.4 system-ui, sans-serif; margin: 0; background: #0f1419; color: #d8dee4; }
+  header { display: flex; align-items: center; gap: 16px; padding: 12px 20px; background: #161d24; border-bottom: 1px solid #26313b; }
+  header h1 { font-size: 16px; margin: 0; flex: 1; }
+  main { padding: 16px 20px; display: grid; gap: 16px; grid-template-columns: repeat(auto-fit, minmax(420px, 1fr)); }
+  section { background: #161d24; border: 1px solid #26313b; border-radius: 6px; padding: 12px 16px; overflow-x: auto; }
+  section.wide { grid-column: 1 / -1; }
+  h2 { font-size: 13px; text-transform: uppercase; letter-spacing: .05em; color: #8b98a5; margin: 0 0 8px; }
+  table { width: 100%; border-collapse: collapse; font-variant-numeric: tabular-nums; }
+  th, td { text-align: left; padding: 4px 8px 4px 0; border-bottom: 1px solid #1f2830; white-space: nowrap; }
+  th { color: #8b98a5; font-weight: normal; }
+  .pos { color: #3fb68b; } .neg { color: #ff5353; } .muted { color: #8b98a5; }
+  .stat { display: inline-block; margin-right: 24px; } .stat b { display: block; font-size: 20px; }
+  button { background: #26313b; color: inherit; border: 1px solid #3a4752; border-radius: 4px; padding: 4px 10px; cursor: pointer; }
+  button.danger { background: #7a1f1f; border-color: #a33; font-weight: bold; }
+  #banner { display: none; padding: 10px 20px; background: #7a1f1f; }
+  #error { color: #ff5353; }
+  select, input { background: #0f1419; color: inherit; border: 1px solid #3a4752; border-radius: 4px; padding: 4px; }
+</style>
+</head>
+<body>
+<header>
+  <h1>Hyperliquid MCP Dashboard</h1>
+  <span id="error"></span>
+  <label>Account <select id="account"></select></label>
+  <span class="muted" id="updated"></span>
+  <label><input type="checkbox" id="closePositions"> close positions</label>
+  <button class="danger" id="kill">Kill switch</button>
+</header>
+<div id="banner">Trading halted <span id="haltedSince"></span>. New orders are rejected and strategies stay off. <button id="resume">Resume trading</button></div>
+<main>
+  <section class="wide"><h2>Account</h2><div id="equity" class="muted">Loading...</div></section>
+  <section><h2>Positions</h2><table id="positions"></table></section>
+  <section><h2>Open orders</h2><table id="orders"></table></section>
+  <section><h2>Recent fills</h2><table id="fills"></table></section>
+  <section><h2>Strategies</h2><table id="strategies"></table></section>
+  <section class="wide"><h2>Tool calls</h2><table id="journal"></table></section>
+</main>
+<script>
+(function () {
+  var match = /token=([^&]+)/.exec(location.hash);
+  if (match) {
+    sessionStorage.setItem("hlmcpToken", decodeURIComponent(match[1]));
+    history.replaceState(null, "", location.pathname);
+  }
+  var token = sessionStorage.getItem("hlmcpToken") || "";
+  var selected = "";
+
+  function $(id) { return document.getElementById(id); }
+  function esc(value) {
+    return String(value === undefined || value === null ? "" : value).replace(/[&<>"']/g, function (c) {
+      return { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[c];
+    });
+  }
+  function num(value, digits) {
+    var n = Number(value);
+    return isFinite(n) ? n.toLocaleString(undefined, { maximumFractionDigits: digits === undefined ? 4 : digits }) : "";
+  }
+  function signed(value, digits) {
+    var n = Number(value);
+    return '<span class="' + (n > 0 ? "pos" : n < 0 ? "neg" : "") + '">' + num(n, digits) + "</span>";
+  }
+  function table(id, headers, rows, empty) {
+    $(id).innerHTML = rows.length
+      ? "<tr>" + headers.map(function (h) { return "<th>" + esc(h) + "</th>"; }).join("") + "</tr>" +
+        rows.map(function (row) { return "<tr>" + row.map(function (cell) { return "<td>" + cell + "</td>"; }).join("") + "</tr>"; }).join("")
+      : '<tr><td class="muted">' + esc(empty) + "</td></tr>";
+  }
+  function api(method, path, body) {
+    return fetch("/dashboard/api/" + path, {
+      method: method,
+      headers: { "Authorization": "Bearer " + token, "Content-Type": "application/json" },
+      body: body ? JSON.stringify(body) : undefined
+    }).then(function (res) {
+      return res.json().then(function (data) {
+        if (!res.ok) { throw new Error(res.status === 401 ? "Open the dashboard link with its #token= to sign in" : data.error); }
+        return data;
+      });
+    });
+  }
+
+  function render(state) {
+    $("banner").style.display = state.halted ? "block" : "none";
+    $("haltedSince").textContent = state.halted ? "since " + new Date(state.halted.since).toLocaleString() : "";
+
+    $("account").innerHTML = state.accounts.map(function (a) {
+      return "<option" + (state.account && a.name === state.account.name ? " selected" : "") + ' value="' + esc(a.name) + '">' +
+        esc(a.name + " (" + a.network + ")") + "</option>";
+    }).join("");
+
+    var account = state.account;
+    if (!account) {
+      $("equity").textContent = "No account is logged in";
+      ["positions", "orders", "fills"].forEach(function (id) { table(id, [], [], "No account"); });
+    } else {
+      var perps = (account.summary && account.summary.perpetuals) || {};
+      var margin = perps.marginSummary || {};
+      var spot = ((account.summary && account.summary.spot && account.summary.spot.balances) || []);
+      var spotValue = spot.reduce(function (total, b) { return total + (Number(b.usdValue) || 0); }, 0);
+      $("equity").innerHTML = account.summary && account.summary.error
+        ? '<span class="neg">' + esc(account.summary.error) + "</span>"
+        : [["Perp account value", margin.accountValue], ["Spot value", spotValue], ["Margin used", margin.totalMarginUsed],
+          ["Withdrawable", perps.withdrawable], ["Fills 24h net", account.fills && account.fills.summary && account.fills.summary.net]]
+          .map(function (s) { return '<span class="stat">' + esc(s[0]) + "<b>" + num(s[1], 2) + "</b></span>"; }).join("");
+
+      table("positions", ["Coin", "Size", "Entry", "Value", "Unrealized PnL", "Leverage", "Liq. price"],
+        (perps.assetPositions || []).map(function (p) { return p.position; }).filter(function (p) { return Number(p.szi) !== 0; }).map(function (p) {
+          return [esc(p.coin), signed(p.szi), num(p.entryPx), num(p.positionValue, 2), signed(p.unrealizedPnl, 2),
+            esc(p.leverage ? p.leverage.value + "x " + p.leverage.type : ""), num(p.liquidationPx)];
+        }), "No open positions");
+
+      table("orders", ["Coin", "Side", "Type", "Price", "Size", "Reduce only", "Placed"],
+        ((account.orders && account.orders.orders) || []).map(function (o) {
+          return [esc(o.coin), esc(o.side), esc(o.orderType), num(o.price), num(o.size), o.reduceOnly ? "yes" : "", esc(new Date(o.timestamp).toLocaleString())];
+        }), account.orders && account.orders.error ? account.orders.error : "No open orders");
+
+      table("fills", ["Time", "Coin", "Side", "Price", "Size", "Closed PnL", "Fee"],
+        ((account.fills && account.fills.fills) || []).map(function (f) {
+          return [esc(new Date(f.time).toLocaleString()), esc(f.coin), esc(f.side), num(f.price), num(f.size), signed(f.closedPnl, 2), num(f.fee, 4)];
+        }), account.fills && account.fills.error ? account.fills.error : "No fills in the last 24 hours");
+    }
+
+    table("strategies", ["Name", "Type", "Symbol", "Account", "Position", "Realized PnL", "Status", ""],
+      state.strategies.map(function (s) {
+        var status = s.running ? '<span class="pos">running</span>' : s.active ? "active" : '<span class="muted">off</span>';
+        return [esc(s.name), esc(s.type), esc(s.symbol), esc(s.account), num(s.position), signed(s.realizedPnl, 2),
+          status + (s.lastError ? ' <span class="neg" title="' + esc(s.lastError) + '">!</span>' : ""),
+          '<button data-strategy="' + esc(s.id) + '" data-active="' + (!s.active) + '">' + (s.active ? "Turn off" : "Turn on") + "</button>"];
+      }), "No strategies");
+
+    table("journal", ["Time", "Tool", "Account", "Symbols", "Status", "ms", "Error"],
+      state.journal.map(function (e) {
+        return [esc(new Date(e.time).toLocaleString()), esc(e.tool) + (e.source ? ' <span class="muted">(' + esc(e.source) + ")</span>" : ""),
+          esc(e.account), esc((e.symbols || []).join(" ")), e.status === "ok" ? '<span class="pos">ok</span>' : '<span class="neg">error</span>',
+          num(e.durationMs, 0), esc(e.error ? e.error.message : "")];
+      }), "No tool calls yet");
+
+    $("updated").textContent = "Updated " + new Date(state.time).toLocaleTimeString();
+  }
+
+  function refresh() {
+    return api("GET", "state" + (selected ? "?account=" + encodeURIComponent(selected) : "")).then(function (state) {
+      $("error").textContent = "";
+      render(state);
+    }).catch(function (error) { $("error").textContent = error.message; });
+  }
+  function act(method, path, body, question) {
+    if (question && !confirm(question)) { return; }
+    api(method, path, body).then(refresh).catch(function (error) { $("error").textContent = error.message; });
+  }
+
+  $("account").addEventListener("change", function (event) { selected = event.target.value; refresh(); });
+  $("kill").addEventListener("click", function () {
+    var closePositions = $("closePositions").checked;
+    act("POST", "kill", { closePositions: closePositions },
+      "Halt trading, turn off every strategy and cancel all open orders" + (closePositions ? " and close all positions" : "") + "?");
+  });
+  $("resume").addEventListener("click", function () { act("POST", "resume", {}, "Resume trading? Strategies stay off until turned on."); });
+  $("strategies").addEventListener("click", function (event) {
+    var id = event.target.getAttribute("data-strategy");
+    if (id) { act("POST", "strategies/" + encodeURIComponent(id), { active: event.target.getAttribute("data-active") === "true" }); }
+  });
+
+  refresh();
+  setInterval(refresh, 5000);
+})();
+</script>
+</body>
+</html>
+`;
@@ -0,0 +1,717 @@
+/**
+ * Execution algorithms
+ *
+ * Works a large order as a series of child orders from inside the server:
+ * TWAP sends slices of randomized size at even intervals over a duration,
+ * iceberg keeps one visible clip resting at a limit price and replaces it as
+ * it fills, and scaled spreads resting limit orders across a price range.
+ * Each run is a job that tracks its slices and fills, and compares the
+ * average fill price with the mid price when it started (the arrival price).
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { Hyperliquid, Order, Tif } from "hyperliquid";
+import { MarketInfo, checkMinNotional, roundMarketPrice } from "./markets.js";
+import { aggressivePrice, orderResults, roundPrice, sendOrders, toOrderIntent } from "./orders.js";
+import { OrderIntent } from "./risk.js";
+
+/**
+ * Type definitions for execution jobs
+ */
+export type ExecutionAlgo = "twap" | "iceberg" | "scaled";
+export type ExecutionStatus = "running" | "completed" | "canceled" | "failed" | "interrupted";
+export type SliceStatus = "pending" | "resting" | "filled" | "partial" | "canceled" | "error";
+
+export const EXECUTION_ALGOS: ExecutionAlgo[] = ["twap", "iceberg", "scaled"];
+
+export interface ExecutionParams {
+  algo: ExecutionAlgo;
+  symbol: string;
+  side: "buy" | "sell";
+  size: number;
+  reduceOnly: boolean;
+  intervalSeconds: number;
+  // TWAP
+  durationSeconds?: number;
+  slices?: number;
+  randomize?: number;
+  slippage?: number;
+  limitPrice?: number;
+  // Iceberg
+  price?: number;
+  visibleSize?: number;
+  // Scaled
+  startPrice?: number;
+  endPrice?: number;
+  orders?: number;
+  skew?: number;
+}
+
+export interface ExecutionSlice {
+  index: number;
+  size: number;
+  price?: number; // Limit price of iceberg and scaled slices; TWAP slices are priced off the mid when sent
+  scheduledAt?: number;
+  status: SliceStatus;
+  oid?: number;
+  sentSize?: number; // TWAP and iceberg slices also carry what earlier slices left unfilled
+  sentAt?: number;
+  filledSize: number;
+  avgPrice?: number;
+  error?: string;
+}
+
+export interface ExecutionJob {
+  id: string;
+  account: string;
+  params: ExecutionParams;
+  status: ExecutionStatus;
+  arrivalPrice: number;
+  createdAt: number;
+  finishedAt?: number;
+  lastTick?: number;
+  lastError?: string;
+  slices: ExecutionSlice[];
+}
+
+/**
+ * Progress of a job, as returned by get_execution and its resource
+ */
+export interface ExecutionReport {
+  id: string;
+  account: string;
+  algo: ExecutionAlgo;
+  symbol: string;
+  side: "buy" | "sell";
+  size: number;
+  status: ExecutionStatus;
+  createdAt: string;
+  finishedAt?: string;
+  filledSize: number;
+  remainingSize: number;
+  filledPercent: number;
+  arrivalPrice: number;
+  avgPrice?: number;
+  slippageBps?: number;
+  remainingSlices: number;
+  nextSliceAt?: string;
+  lastError?: string;
+  params: ExecutionParams;
+  slices: ExecutionSlice[];
+}
+
+/**
+ * Accessors the runtime uses to reach the current client and account
+ */
+export interface ExecutionContext {
+  market?: MarketInfo; // Unknown for offline paper accounts
+  getClient(): Hyperliquid | null;
+  getWalletAddress(): string | undefined;
+  onStateChange?(job: ExecutionJob): void;
+  beforeOrder?(order: OrderIntent): Promise<void>;
+}
+
+const DEFAULT_INTERVAL_SECONDS = 5;
+const DEFAULT_RANDOMIZE = 0.2;
+const DEFAULT_SLIPPAGE = 0.01;
+const DEFAULT_SCALED_ORDERS = 5;
+const SECONDS_PER_TWAP_SLICE = 60;
+const MAX_SLICES = 200;
+const MAX_SCALED_ORDERS = 20;
+const UNROUNDED_DECIMALS = 8;
+
+/**
+ * Timers for running jobs, keyed by job ID
+ */
+const timers: { [id: string]: NodeJS.Timeout } = {};
+
+/**
+ * Read a numeric argument, throwing an InvalidParams error if it is missing,
+ * not a number or out of range
+ */
+function readNumber(
+  args: any,
+  field: string,
+  algo: ExecutionAlgo,
+  options: { min?: number; max?: number; integer?: boolean; positive?: boolean; defaultValue?: number } = {}
+): number {
+  const raw = args[field];
+
+  if (raw === undefined || raw === null) {
+    if (options.defaultValue !== undefined) {
+      return options.defaultValue;
+    }
+    throw new McpError(ErrorCode.InvalidParams, `${field} is required for ${algo} executions`);
+  }
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || (options.positive && value <= 0)) {
+    throw new McpError(ErrorCode.InvalidParams, `${field} must be a positive number`);
+  }
+  if (options.integer && !Number.isInteger(value)) {
+    throw new McpError(ErrorCode.InvalidParams, `${field} must be a whole number`);
+  }
+  if (options.min !== undefined && value < options.min) {
+    throw new McpError(ErrorCode.InvalidParams, `${field} must be at least ${options.min}`);
+  }
+  if (options.max !== undefined && value > options.max) {
+    throw new McpError(ErrorCode.InvalidParams, `${field} must be at most ${options.max}`);
+  }
+  return value;
+}
+
+/**
+ * Validate start_execution arguments for an algorithm
+ * Returns normalized parameters with defaults applied
+ */
+export function parseExecutionParams(args: any): ExecutionParams {
+  const algo = args.algo as ExecutionAlgo;
+  if (!EXECUTION_ALGOS.includes(algo)) {
+    throw new McpError(ErrorCode.InvalidParams, `algo must be one of: ${EXECUTION_ALGOS.join(", ")}`);
+  }
+  if (typeof args.symbol !== "string" || !args.symbol) {
+    throw new McpError(ErrorCode.InvalidParams, "symbol is required");
+  }
+  if (args.side !== "buy" && args.side !== "sell") {
+    throw new McpError(ErrorCode.InvalidParams, "side must be buy or sell");
+  }
+
+  const params: ExecutionParams = {
+    algo,
+    symbol: args.symbol,
+    side: args.side,
+    size: readNumber(args, "size", algo, { positive: true }),
+    reduceOnly: Boolean(args.reduceOnly),
+    intervalSeconds: readNumber(args, "intervalSeconds", algo, { min: 1, defaultValue: DEFAULT_INTERVAL_SECONDS })
+  };
+
+  switch (algo) {
+    case "twap": {
+      const durationSeconds = readNumber(args, "durationSeconds", algo, { positive: true });
+      const slices = readNumber(args, "slices", algo, {
+        min: 2,
+        max: MAX_SLICES,
+        integer: true,
+        defaultValue: Math.min(MAX_SLICES, Math.max(2, Math.round(durationSeconds / SECONDS_PER_TWAP_SLICE)))
+      });
+      if (durationSeconds / (slices - 1) < 1) {
+        throw new McpError(ErrorCode.InvalidParams, "slices must be at least one second apart: use fewer slices or a longer durationSeconds");
+      }
+      return {
+        ...params,
+        durationSeconds,
+        slices,
+        randomize: readNumber(args, "randomize", algo, { min: 0, max: 0.9, defaultValue: DEFAULT_RANDOMIZE }),
+        slippage: readNumber(args, "slippage", algo, { positive: true, max: 0.5, defaultValue: DEFAULT_SLIPPAGE }),
+        limitPrice: args.limitPrice === undefined || args.limitPrice === null
+          ? undefined
+          : readNumber(args, "limitPrice", algo, { positive: true })
+      };
+    }
+
+    case "iceberg": {
+      const visibleSize = readNumber(args, "visibleSize", algo, { positive: true });
+      if (visibleSize >= params.size) {
+        throw new McpError(ErrorCode.InvalidParams, "visibleSize must be smaller than size");
+      }
+      if (Math.ceil(params.size / visibleSize) > MAX_SLICES) {
+        throw new McpError(ErrorCode.InvalidParams, `visibleSize is too small: an iceberg can have at most ${MAX_SLICES} clips`);
+      }
+      return {
+        ...params,
+        price: readNumber(args, "price", algo, { positive: true }),
+        visibleSize
+      };
+    }
+
+    case "scaled": {
+      const scaled: ExecutionParams = {
+        ...params,
+        startPrice: readNumber(args, "startPrice", algo, { positive: true }),
+        endPrice: readNumber(args, "endPrice", algo, { positive: true }),
+        orders: readNumber(args, "orders", algo, { min: 2, max: MAX_SCALED_ORDERS, integer: true, defaultValue: DEFAULT_SCALED_ORDERS }),
+        skew: readNumber(args, "skew", algo, { positive: true, defaultValue: 1 })
+      };
+      if (scaled.startPrice === scaled.endPrice) {
+        throw new McpError(ErrorCode.InvalidParams, "startPrice and endPrice must differ");
+      }
+      return scaled;
+    }
+  }
+}
+
+/**
+ * Round a size down to what the market accepts
+ * Without market metadata only floating-point noise is removed
+ */
+function roundSliceSize(size: number, market?: MarketInfo): number {
+  const decimals = market?.szDecimals ?? UNROUNDED_DECIMALS;
+  const factor = 10 ** decimals;
+  return Number((Math.floor(size * factor + 1e-9) / factor).toFixed(decimals));
+}
+
+/**
+ * Round a price to what the market accepts
+ */
+function roundSlicePrice(price: number, market?: MarketInfo): number {
+  return market ? roundMarketPrice(market, price) : roundPrice(price);
+}
+
+/**
+ * Split a size in proportion to weights
+ * Every part but the last is rounded down, and the last takes the rest, so
+ * the parts always add up to the size
+ */
+function splitSize(size: number, weights: number[], market?: MarketInfo): number[] {
+  const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+  const parts = weights.slice(0, -1).map((weight) => roundSliceSize((size * weight) / totalWeight, market));
+  const rest = Number((size - parts.reduce((total, part) => total + part, 0)).toFixed(market?.szDecimals ?? UNROUNDED_DECIMALS));
+  parts.push(rest);
+
+  if (parts.some((part) => part <= 0)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `size ${size} is too small to split into ${weights.length} slices${market ? ` of at least ${10 ** -market.szDecimals}` : ""}`
+    );
+  }
+  return parts;
+}
+
+/**
+ * Plan the slices of a new job
+ * The arrival price is the mid when the job starts; it prices the minimum
+ * order value check for TWAP slices, which are priced when they are sent
+ */
+export function planExecution(
+  id: string,
+  account: string,
+  params: ExecutionParams,
+  arrivalPrice: number,
+  market?: MarketInfo,
+  now: number = Date.now()
+): ExecutionJob {
+  let sizes: number[];
+  let prices: (number | undefined)[];
+  let times: (number | undefined)[] = [];
+
+  switch (params.algo) {
+    case "twap": {
+      const count = params.slices!;
+      const weights = Array.from({ length: count }, () => 1 + params.randomize! * (2 * Math.random() - 1));
+      sizes = splitSize(params.size, weights, market);
+      prices = sizes.map(() => undefined);
+      times = sizes.map((_, index) => now + Math.round((index * params.durationSeconds! * 1000) / (count - 1)));
+      break;
+    }
+
+    case "iceberg": {
+      const count = Math.ceil(params.size / params.visibleSize! - 1e-9);
+      sizes = splitSize(params.size, Array.from({ length: count }, (_, index) =>
+        index < count - 1 ? params.visibleSize! : params.size - params.visibleSize! * (count - 1)), market);
+      prices = sizes.map(() => roundSlicePrice(params.price!, market));
+      break;
+    }
+
+    case "scaled": {
+      const count = params.orders!;
+      const step = (params.endPrice! - params.startPrice!) / (count - 1);
+      // Sizes grow linearly from the first order to the last, which is skew times the first
+      sizes = splitSize(params.size, Array.from({ length: count }, (_, index) => 1 + ((params.skew! - 1) * index) / (count - 1)), market);
+      prices = sizes.map((_, index) => roundSlicePrice(params.startPrice! + index * step, market));
+      break;
+    }
+  }
+
+  if (market) {
+    sizes.forEach((size, index) => {
+      try {
+        checkMinNotional(market, size, prices[index] ?? arrivalPrice, params.reduceOnly);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(ErrorCode.InvalidParams, `Slice ${index + 1} of ${sizes.length}: ${errorMessage}. Use fewer slices or a larger size`);
+      }
+    });
+  }
+
+  return {
+    id,
+    account,
+    params,
+    status: "running",
+    arrivalPrice,
+    createdAt: now,
+    slices: sizes.map((size, index) => ({
+      index,
+      size,
+      price: prices[index],
+      scheduledAt: times[index],
+      status: "pending",
+      filledSize: 0
+    }))
+  };
+}
+
+/**
+ * Whether the runtime currently has a loop running for a job
+ */
+export function isExecutionRunning(id: string): boolean {
+  return timers[id] !== undefined;
+}
+
+/**
+ * Start working a planned job
+ */
+export function startExecution(job: ExecutionJob, context: ExecutionContext): void {
+  if (isExecutionRunning(job.id)) {
+    return;
+  }
+  scheduleTick(job, context, 0);
+}
+
+/**
+ * Stop a job, optionally cancelling its resting orders
+ * Fills up to the cancel are recorded, and slices not yet sent are dropped
+ */
+export async function cancelExecution(job: ExecutionJob, context: ExecutionContext, cancelOrders: boolean): Promise<void> {
+  if (timers[job.id]) {
+    clearTimeout(timers[job.id]);
+    delete timers[job.id];
+  }
+
+  job.status = "canceled";
+  job.finishedAt = job.finishedAt ?? Date.now();
+  job.slices.filter((slice) => slice.status === "pending").forEach((slice) => {
+    slice.status = "canceled";
+  });
+
+  const resting = job.slices.filter((slice) => slice.status === "resting");
+  if (!cancelOrders || resting.length === 0) {
+    return;
+  }
+
+  const client = context.getClient();
+  const walletAddress = context.getWalletAddress();
+  if (!client || !walletAddress) {
+    throw new Error("No credentials provided. Please authenticate first.");
+  }
+
+  await client.connect();
+  await client.exchange.cancelOrder(resting.map((slice) => ({ coin: job.params.symbol, o: slice.oid! })));
+  await syncSlices(client, walletAddress, job);
+}
+
+/**
+ * Queue the next tick for a job
+ * Ticks are chained with setTimeout so they never overlap
+ */
+function scheduleTick(job: ExecutionJob, context: ExecutionContext, delayMs: number): void {
+  timers[job.id] = setTimeout(async () => {
+    try {
+      await tickExecution(job, context);
+      job.lastError = job.status === "failed" ? job.lastError : undefined;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      job.lastError = errorMessage;
+      console.error(`Execution ${job.id} tick failed:`, errorMessage);
+    }
+
+    job.lastTick = Date.now();
+    if (job.status !== "running") {
+      delete timers[job.id];
+    }
+    context.onStateChange?.(job);
+
+    // The job may have been cancelled while the tick was running
+    if (job.status === "running" && timers[job.id]) {
+      scheduleTick(job, context, nextTickDelay(job));
+    }
+  }, delayMs);
+}
+
+/**
+ * Time until a job next needs attention: the next TWAP slice, or the next
+ * check of resting orders
+ */
+function nextTickDelay(job: ExecutionJob): number {
+  if (job.params.algo === "twap") {
+    const next = job.slices.find((slice) => slice.status === "pending");
+    if (next?.scheduledAt !== undefined) {
+      return Math.max(0, next.scheduledAt - Date.now());
+    }
+  }
+  return job.params.intervalSeconds * 1000;
+}
+
+/**
+ * Run a single iteration of a job
+ */
+async function tickExecution(job: ExecutionJob, context: ExecutionContext): Promise<void> {
+  const client = context.getClient();
+  if (!client) {
+    throw new Error("No credentials provided. Please authenticate first.");
+  }
+
+  const walletAddress = context.getWalletAddress();
+  if (!walletAddress) {
+    throw new Error("Wallet address is required to track execution orders");
+  }
+
+  await client.connect();
+  await syncSlices(client, walletAddress, job);
+
+  switch (job.params.algo) {
+    case "twap":
+      await tickTwap(client, context, job);
+      break;
+    case "iceberg":
+      await tickIceberg(client, context, job);
+      break;
+    case "scaled":
+      await tickScaled(client, context, job);
+      break;
+  }
+
+  if (job.status === "running" && !job.slices.some((slice) => slice.status === "pending" || slice.status === "resting")) {
+    const filled = job.slices.some((slice) => slice.filledSize > 0);
+    const rejected = job.slices.filter((slice) => slice.status === "error");
+    job.status = filled || rejected.length === 0 ? "completed" : "failed";
+    job.finishedAt = Date.now();
+    if (job.status === "failed") {
+      job.lastError = `Nothing filled: ${rejected[rejected.length - 1].error}`;
+    }
+  }
+}
+
+/**
+ * Update resting slices from the exchange
+ * Records their fills and marks the ones no longer resting as filled,
+ * partially filled or cancelled
+ */
+async function syncSlices(client: Hyperliquid, walletAddress: string, job: ExecutionJob): Promise<void> {
+  const resting = job.slices.filter((slice) => slice.status === "resting");
+  if (resting.length === 0) {
+    return;
+  }
+
+  // Open orders first, so an order that left the book by filling has its fills in the second request
+  const openOrders: any[] = await client.info.getUserOpenOrders(walletAddress);
+  const restingOids = new Set(openOrders.map((order) => order.oid));
+  const fills: any[] = await client.info.getUserFillsByTime(walletAddress, job.createdAt, Date.now());
+
+  for (const slice of resting) {
+    const sliceFills = fills.filter((fill) => fill.oid === slice.oid);
+    const filledSize = sliceFills.reduce((total, fill) => total + parseFloat(fill.sz), 0);
+    if (filledSize > 0) {
+      slice.filledSize = Number(filledSize.toFixed(UNROUNDED_DECIMALS));
+      slice.avgPrice = sliceFills.reduce((total, fill) => total + parseFloat(fill.px) * parseFloat(fill.sz), 0) / filledSize;
+    }
+
+    if (!restingOids.has(slice.oid)) {
+      const sentSize = slice.sentSize ?? slice.size;
+      slice.status = slice.filledSize >= sentSize * 0.999 ? "filled" : slice.filledSize > 0 ? "partial" : "canceled";
+    }
+  }
+}
+
+/**
+ * Size still to be sent once the given slice goes out: what the job has not
+ * filled, less the slices planned after it
+ */
+function sizeToSend(job: ExecutionJob, slice: ExecutionSlice, market?: MarketInfo): number {
+  const filled = job.slices.reduce((total, candidate) => total + candidate.filledSize, 0);
+  const later = job.slices
+    .filter((candidate) => candidate.index > slice.index && candidate.status === "pending")
+    .reduce((total, candidate) => total + candidate.size, 0);
+  return roundSliceSize(job.params.size - filled - later, market);
+}
+
+/**
+ * TWAP: send the next slice once it is due as an IOC limit crossing the mid
+ * by the slippage, capped at limitPrice. What a slice leaves unfilled is
+ * added to the next one
+ */
+async function tickTwap(client: Hyperliquid, context: ExecutionContext, job: ExecutionJob): Promise<void> {
+  const slice = job.slices.find((candidate) => candidate.status === "pending");
+  if (!slice || (slice.scheduledAt ?? 0) > Date.now()) {
+    return;
+  }
+
+  const size = sizeToSend(job, slice, context.market);
+  if (size <= 0) {
+    slice.status = "canceled";
+    return;
+  }
+
+  const { side, slippage, limitPrice } = job.params;
+  let price = aggressivePrice(side, await getMidPrice(client, job.params.symbol), slippage!);
+  if (limitPrice !== undefined) {
+    price = side === "buy" ? Math.min(price, limitPrice) : Math.max(price, limitPrice);
+  }
+
+  await sendSlices(client, context, job, [{ slice, size, price: roundSlicePrice(price, context.market) }], "Ioc");
+}
+
+/**
+ * Iceberg: keep one clip resting at the limit price and send the next once
+ * it has filled. A clip cancelled outside the job stops it
+ */
+async function tickIceberg(client: Hyperliquid, context: ExecutionContext, job: ExecutionJob): Promise<void> {
+  if (job.slices.some((slice) => slice.status === "resting")) {
+    return;
+  }
+
+  const last = [...job.slices].reverse().find((slice) => slice.status !== "pending");
+  if (last?.status === "canceled" || last?.status === "partial") {
+    job.status = "failed";
+    job.finishedAt = Date.now();
+    job.lastError = `Order ${last.oid} was cancelled outside the execution`;
+    job.slices.filter((slice) => slice.status === "pending").forEach((slice) => {
+      slice.status = "canceled";
+    });
+    return;
+  }
+
+  const slice = job.slices.find((candidate) => candidate.status === "pending");
+  if (!slice) {
+    return;
+  }
+
+  const size = sizeToSend(job, slice, context.market);
+  if (size <= 0) {
+    slice.status = "canceled";
+    return;
+  }
+  await sendSlices(client, context, job, [{ slice, size, price: slice.price! }], "Gtc");
+}
+
+/**
+ * Scaled: place every order of the ladder at once, then wait for them to fill
+ */
+async function tickScaled(client: Hyperliquid, context: ExecutionContext, job: ExecutionJob): Promise<void> {
+  const pending = job.slices.filter((slice) => slice.status === "pending");
+  if (pending.length > 0) {
+    await sendSlices(client, context, job, pending.map((slice) => ({ slice, size: slice.size, price: slice.price! })), "Gtc");
+  }
+}
+
+/**
+ * Send slices in one action and record what became of each
+ * A risk policy violation or a failed request stops the job; an order the
+ * exchange rejects only fails its slice
+ */
+async function sendSlices(
+  client: Hyperliquid,
+  context: ExecutionContext,
+  job: ExecutionJob,
+  entries: { slice: ExecutionSlice; size: number; price: number }[],
+  tif: Tif
+): Promise<void> {
+  const orders: Order[] = entries.map(({ size, price }) => ({
+    coin: job.params.symbol,
+    is_buy: job.params.side === "buy",
+    sz: size,
+    limit_px: price,
+    order_type: { limit: { tif } },
+    reduce_only: job.params.reduceOnly
+  }));
+
+  let result: any;
+  try {
+    // Child orders are held to the same risk policy as manual ones
+    for (const order of orders) {
+      await context.beforeOrder?.(toOrderIntent(order));
+    }
+    result = await sendOrders(client, orders);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    entries.forEach(({ slice }) => {
+      slice.status = "error";
+      slice.error = errorMessage;
+    });
+    job.status = "failed";
+    job.finishedAt = Date.now();
+    job.lastError = errorMessage;
+    return;
+  }
+
+  const now = Date.now();
+  orderResults(orders, result).forEach((outcome, index) => {
+    const { slice, size, price } = entries[index];
+    slice.sentSize = size;
+    slice.sentAt = now;
+    slice.price = price;
+    slice.oid = outcome.oid;
+
+    if (outcome.status === "resting") {
+      slice.status = "resting";
+    } else if (outcome.status === "filled") {
+      slice.filledSize = outcome.filledSize ?? size;
+      slice.avgPrice = outcome.avgPrice;
+      slice.status = slice.filledSize >= size * 0.999 ? "filled" : "partial";
+    } else {
+      slice.status = "error";
+      slice.error = outcome.error;
+    }
+  });
+
+  // The job may have been cancelled while the orders were in flight
+  const orphans = entries.filter(({ slice }) => slice.status === "resting");
+  if (job.status !== "running" && orphans.length > 0) {
+    await client.exchange.cancelOrder(orphans.map(({ slice }) => ({ coin: job.params.symbol, o: slice.oid! })));
+    orphans.forEach(({ slice }) => {
+      slice.status = "canceled";
+    });
+  }
+}
+
+/**
+ * Get the mid price of a symbol from the top of its L2 book
+ */
+async function getMidPrice(client: Hyperliquid, symbol: string): Promise<number> {
+  const book = await client.info.getL2Book(symbol);
+  const [bids, asks] = book.levels;
+
+  if (!bids.length || !asks.length) {
+    throw new Error(`Order book for ${symbol} is empty`);
+  }
+
+  return (parseFloat(bids[0].px) + parseFloat(asks[0].px)) / 2;
+}
+
+/**
+ * Progress of a job for get_execution and its resource
+ * slippageBps is positive when the fills were worse than the arrival price:
+ * bought above it or sold below it
+ */
+export function executionReport(job: ExecutionJob): ExecutionReport {
+  const filledSize = Number(job.slices.reduce((total, slice) => total + slice.filledSize, 0).toFixed(UNROUNDED_DECIMALS));
+  const avgPrice = filledSize > 0
+    ? job.slices.reduce((total, slice) => total + slice.filledSize * (slice.avgPrice ?? 0), 0) / filledSize
+    : undefined;
+  const direction = job.params.side === "buy" ? 1 : -1;
+  const remaining = job.slices.filter((slice) => slice.status === "pending" || slice.status === "resting");
+  const next = job.status === "running" ? job.slices.find((slice) => slice.status === "pending" && slice.scheduledAt !== undefined) : undefined;
+
+  return {
+    id: job.id,
+    account: job.account,
+    algo: job.params.algo,
+    symbol: job.params.symbol,
+    side: job.params.side,
+    size: job.params.size,
+    status: job.status,
+    createdAt: new Date(job.createdAt).toISOString(),
+    finishedAt: job.finishedAt !== undefined ? new Date(job.finishedAt).toISOString() : undefined,
+    filledSize,
+    remainingSize: Number(Math.max(0, job.params.size - filledSize).toFixed(UNROUNDED_DECIMALS)),
+    filledPercent: (filledSize / job.params.size) * 100,
+    arrivalPrice: job.arrivalPrice,
+    avgPrice,
+    slippageBps: avgPrice !== undefined ? (direction * (avgPrice - job.arrivalPrice) / job.arrivalPrice) * 10000 : undefined,
+    remainingSlices: remaining.length,
+    nextSliceAt: next ? new Date(next.scheduledAt!).toISOString() : undefined,
+    lastError: job.lastError,
+    params: job.params,
+    slices: job.slices
+  };
+}
@@ -0,0 +1,241 @@
+/**
+ * Live exchange feeds
+ *
+ * A single WebSocket connection to Hyperliquid carrying the subscriptions
+ * behind subscribed MCP resources. Dropped connections are retried with
+ * exponential backoff and every subscription is restored; events sent while
+ * the connection was down are lost, so the owner is told to resync.
+ */
+
+import WebSocket from "ws";
+import { WSS_URLS } from "hyperliquid";
+
+/**
+ * Type definitions for feed subscriptions
+ * Coins use exchange names (BTC, @107) and users are lowercase addresses
+ */
+export type FeedSubscription =
+  | { type: "allMids" }
+  | { type: "l2Book"; coin: string }
+  | { type: "userEvents"; user: string }
+  | { type: "orderUpdates"; user: string };
+
+export interface FeedHandlers {
+  onMessage(channel: string, data: any): void;
+  onResync(): void;
+}
+
+/**
+ * Observer of every message sent and received on any feed connection
+ */
+export interface FeedTap {
+  onSend(url: string, message: any): void;
+  onReceive(url: string, message: any): void;
+}
+
+const INITIAL_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30 * 1000;
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const STALE_AFTER_MS = 2 * HEARTBEAT_INTERVAL_MS;
+
+let feedUrls = { mainnet: WSS_URLS.PRODUCTION, testnet: WSS_URLS.TESTNET };
+let feedTap: FeedTap | null = null;
+
+/**
+ * WebSocket endpoint for a network
+ */
+export function feedUrl(testnet: boolean): string {
+  return testnet ? feedUrls.testnet : feedUrls.mainnet;
+}
+
+/**
+ * Connect new feeds to other endpoints, such as a local stand-in
+ */
+export function setFeedUrls(urls: { mainnet: string; testnet: string }): void {
+  feedUrls = urls;
+}
+
+/**
+ * Observe the traffic of every feed connection, or stop with null
+ */
+export function tapFeeds(tap: FeedTap | null): void {
+  feedTap = tap;
+}
+
+/**
+ * Identity of a subscription, e.g. l2Book:BTC
+ */
+function feedKey(subscription: FeedSubscription): string {
+  return Object.values(subscription).join(":");
+}
+
+/**
+ * WebSocket connection that holds a set of subscriptions open
+ * It connects when the first subscription is added and closes once none are
+ * left
+ */
+export class FeedConnection {
+  private socket: WebSocket | null = null;
+  private subscriptions = new Map<string, FeedSubscription>();
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private attempts = 0;
+  private wasConnected = false;
+  private lastMessageAt = 0;
+
+  constructor(readonly url: string, private handlers: FeedHandlers) {}
+
+  /**
+   * Whether the connection is open, so feed-backed data is current
+   */
+  get connected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Replace the open subscriptions, subscribing and unsubscribing only the
+   * difference
+   */
+  setSubscriptions(subscriptions: FeedSubscription[]): void {
+    const next = new Map(subscriptions.map((subscription) => [feedKey(subscription), subscription]));
+
+    if (this.connected) {
+      this.subscriptions.forEach((subscription, key) => {
+        if (!next.has(key)) {
+          this.send("unsubscribe", subscription);
+        }
+      });
+      next.forEach((subscription, key) => {
+        if (!this.subscriptions.has(key)) {
+          this.send("subscribe", subscription);
+        }
+      });
+    }
+    this.subscriptions = next;
+
+    if (!next.size) {
+      this.disconnect();
+    } else if (!this.socket && !this.reconnectTimer) {
+      this.connect();
+    }
+  }
+
+  /**
+   * Drop every subscription and close the connection
+   */
+  close(): void {
+    this.setSubscriptions([]);
+  }
+
+  private connect(): void {
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.on("open", () => {
+      const resync = this.wasConnected || this.attempts > 0;
+      this.attempts = 0;
+      this.wasConnected = true;
+      this.lastMessageAt = Date.now();
+      this.subscriptions.forEach((subscription) => this.send("subscribe", subscription));
+      this.startHeartbeat(socket);
+
+      if (resync) {
+        this.handlers.onResync();
+      }
+    });
+
+    socket.on("message", (raw) => {
+      this.lastMessageAt = Date.now();
+
+      let message: any;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        return;
+      }
+      feedTap?.onReceive(this.url, message);
+
+      if (message.channel === "error") {
+        console.error("Feed error:", message.data);
+      } else if (message.channel !== "pong" && message.channel !== "subscriptionResponse") {
+        this.handlers.onMessage(message.channel, message.data);
+      }
+    });
+
+    socket.on("error", (error) => {
+      console.error(`Feed connection error: ${error.message}`);
+    });
+
+    socket.on("close", () => {
+      if (this.socket === socket) {
+        this.socket = null;
+        this.stopHeartbeat();
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  /**
+   * Retry after 1s, 2s, 4s, ... up to 30s between attempts
+   */
+  private scheduleReconnect(): void {
+    const delay = Math.min(INITIAL_BACKOFF_MS * Math.pow(2, this.attempts), MAX_BACKOFF_MS);
+    this.attempts++;
+    console.error(`Feed connection lost, reconnecting in ${delay / 1000}s`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+    this.reconnectTimer.unref();
+  }
+
+  /**
+   * Ping so the exchange keeps the connection open, and drop connections
+   * that have gone silent so they reconnect
+   */
+  private startHeartbeat(socket: WebSocket): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      if (Date.now() - this.lastMessageAt > STALE_AFTER_MS) {
+        socket.terminate();
+      } else {
+        this.send("ping");
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+    this.heartbeatTimer.unref();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private send(method: string, subscription?: FeedSubscription): void {
+    if (this.connected) {
+      const message = subscription ? { method, subscription } : { method };
+      feedTap?.onSend(this.url, message);
+      this.socket!.send(JSON.stringify(message));
+    }
+  }
+
+  private disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.stopHeartbeat();
+    this.attempts = 0;
+    this.wasConnected = false;
+
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      socket.removeAllListeners();
+      socket.on("error", () => undefined);
+      socket.terminate();
+    }
+  }
+}
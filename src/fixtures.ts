@@ -0,0 +1,344 @@
+/**
+ * Recorded exchange traffic
+ *
+ * With HYPERLIQUID_MCP_RECORD set to a file, every info and exchange HTTP
+ * request the SDK makes and every feed message is saved there with its
+ * response. With HYPERLIQUID_MCP_REPLAY set to such a file, a local stand-in
+ * server answers from it instead of Hyperliquid, so tools and resources can
+ * be tested end to end without network access.
+ *
+ * Requests are matched on their endpoint and body, except that exchange
+ * actions are matched without their nonce and signature. A request recorded
+ * several times is answered with each response in turn, the last one
+ * repeating. Feed messages are replayed after their subscription is made.
+ */
+
+import fs from "fs";
+import http from "http";
+import path from "path";
+import { AddressInfo } from "net";
+import { WebSocketServer } from "ws";
+import { BASE_URLS, Hyperliquid } from "hyperliquid";
+import { setFeedUrls, tapFeeds } from "./feeds.js";
+import { sdkHttpApis } from "./requests.js";
+
+/**
+ * Type definitions for fixture files
+ */
+export type FixtureNetwork = "mainnet" | "testnet";
+
+export interface HttpFixture {
+  network: FixtureNetwork;
+  endpoint: string;
+  request: any;
+  status: number;
+  response: any;
+}
+
+export interface FeedFixture {
+  network: FixtureNetwork;
+  subscription: any;
+  message: { channel: string; data: any };
+}
+
+export interface FixtureFile {
+  version: 1;
+  recordedAt: string;
+  http: HttpFixture[];
+  feeds: FeedFixture[];
+}
+
+const RECORD_VARIABLE = "HYPERLIQUID_MCP_RECORD";
+const REPLAY_VARIABLE = "HYPERLIQUID_MCP_REPLAY";
+const WRITE_DELAY_MS = 250;
+
+// Feed channels and the subscription type their messages belong to
+const CHANNEL_SUBSCRIPTIONS: { [channel: string]: string } = {
+  allMids: "allMids",
+  l2Book: "l2Book",
+  user: "userEvents",
+  userEvents: "userEvents",
+  orderUpdates: "orderUpdates"
+};
+
+let recorder: Recorder | null = null;
+let standInUrl: string | null = null;
+
+/**
+ * JSON with object keys sorted, so equal requests give equal keys whatever
+ * order their fields were written in
+ */
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonical).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value).sort()
+      .filter((key) => (value as any)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonical((value as any)[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * The part of a request body that identifies it: exchange actions are
+ * signed with a new nonce every time, so only the action and vault count
+ */
+function requestIdentity(endpoint: string, body: any): any {
+  return endpoint === "/exchange" ? { action: body?.action, vaultAddress: body?.vaultAddress ?? undefined } : body;
+}
+
+/**
+ * Key a recorded response is found by
+ */
+function httpKey(network: string, endpoint: string, request: any): string {
+  return `${network} ${endpoint} ${canonical(request)}`;
+}
+
+/**
+ * Network of an SDK client or feed URL
+ */
+function networkOf(url: string): FixtureNetwork {
+  return url.includes("testnet") ? "testnet" : "mainnet";
+}
+
+/**
+ * Collects traffic into a fixture file
+ * A response identical to the last one recorded for the same request is
+ * left out, since replay repeats the last response anyway
+ */
+class Recorder {
+  private fixture: FixtureFile = { version: 1, recordedAt: new Date().toISOString(), http: [], feeds: [] };
+  private lastResponses = new Map<string, string>();
+  private subscriptions = new Map<string, any[]>();
+  private writeTimer: NodeJS.Timeout | null = null;
+
+  constructor(readonly filePath: string) {
+    process.on("exit", () => this.flush());
+  }
+
+  /**
+   * Record a REST request and its response
+   */
+  recordHttp(network: FixtureNetwork, endpoint: string, body: any, status: number, response: any): void {
+    const request = requestIdentity(endpoint, body);
+    const key = httpKey(network, endpoint, request);
+    const serialized = `${status} ${canonical(response)}`;
+    if (this.lastResponses.get(key) === serialized) {
+      return;
+    }
+    this.lastResponses.set(key, serialized);
+    this.fixture.http.push({ network, endpoint, request, status, response });
+    this.scheduleWrite();
+  }
+
+  /**
+   * Track which subscriptions a feed connection holds, to file its
+   * messages under them
+   */
+  onSend(url: string, message: any): void {
+    const subscriptions = this.subscriptions.get(url) ?? [];
+    if (message.method === "subscribe") {
+      subscriptions.push(message.subscription);
+    } else if (message.method === "unsubscribe") {
+      const key = canonical(message.subscription);
+      const index = subscriptions.findIndex((subscription) => canonical(subscription) === key);
+      if (index >= 0) {
+        subscriptions.splice(index, 1);
+      }
+    }
+    this.subscriptions.set(url, subscriptions);
+  }
+
+  /**
+   * Record a feed message under the subscription it belongs to
+   */
+  onReceive(url: string, message: any): void {
+    const type = CHANNEL_SUBSCRIPTIONS[message.channel];
+    const subscription = type && (this.subscriptions.get(url) ?? []).find((candidate) =>
+      candidate.type === type && (type !== "l2Book" || candidate.coin === message.data?.coin));
+    if (subscription) {
+      this.fixture.feeds.push({ network: networkOf(url), subscription, message: { channel: message.channel, data: message.data } });
+      this.scheduleWrite();
+    }
+  }
+
+  /**
+   * Write the fixture file now
+   */
+  flush(): void {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = null;
+    }
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(this.fixture, null, 2));
+  }
+
+  /**
+   * Write the file shortly, once per burst of traffic
+   */
+  private scheduleWrite(): void {
+    if (!this.writeTimer) {
+      this.writeTimer = setTimeout(() => this.flush(), WRITE_DELAY_MS);
+      this.writeTimer.unref();
+    }
+  }
+}
+
+/**
+ * Read and check a fixture file
+ */
+export function loadFixtures(filePath: string): FixtureFile {
+  const fixture = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  if (fixture?.version !== 1 || !Array.isArray(fixture.http)) {
+    throw new Error(`${filePath} is not a version 1 fixture file`);
+  }
+  return { ...fixture, feeds: fixture.feeds ?? [] };
+}
+
+/**
+ * Start a local server answering REST requests and feed subscriptions from
+ * fixtures, under /mainnet and /testnet
+ * Requests without a fixture get a 404 naming the request, so a missing
+ * recording is easy to spot
+ */
+export async function startStandIn(fixture: FixtureFile, host: string = "127.0.0.1"): Promise<http.Server> {
+  const responses = new Map<string, HttpFixture[]>();
+  fixture.http.forEach((entry) => {
+    const key = httpKey(entry.network, entry.endpoint, entry.request);
+    responses.set(key, [...(responses.get(key) ?? []), entry]);
+  });
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+    });
+    req.on("end", () => {
+      const [, network, ...rest] = (req.url ?? "").split("/");
+      const endpoint = `/${rest.join("/")}`;
+      let parsed: any;
+      try {
+        parsed = JSON.parse(body || "null");
+      } catch {
+        parsed = body;
+      }
+
+      const key = httpKey(network, endpoint, requestIdentity(endpoint, parsed));
+      const queue = responses.get(key);
+      const entry = queue && (queue.length > 1 ? queue.shift() : queue[0]);
+      res.setHeader("Content-Type", "application/json");
+      if (!entry) {
+        console.error(`No fixture for ${network} ${endpoint} ${canonical(requestIdentity(endpoint, parsed))}`);
+        res.statusCode = 404;
+        res.end(JSON.stringify({ code: "NO_FIXTURE", message: `No recorded response for ${endpoint} ${canonical(parsed)}` }));
+        return;
+      }
+      res.statusCode = entry.status;
+      res.end(JSON.stringify(entry.response));
+    });
+  });
+
+  const sockets = new WebSocketServer({ server });
+  sockets.on("connection", (socket, req) => {
+    const network = networkOf(req.url ?? "");
+    socket.on("message", (raw) => {
+      let message: any;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        return;
+      }
+      if (message.method === "ping") {
+        socket.send(JSON.stringify({ channel: "pong" }));
+      } else if (message.method === "subscribe") {
+        const key = canonical(message.subscription);
+        socket.send(JSON.stringify({ channel: "subscriptionResponse", data: message }));
+        fixture.feeds
+          .filter((entry) => entry.network === network && canonical(entry.subscription) === key)
+          .forEach((entry) => socket.send(JSON.stringify(entry.message)));
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(0, host, () => resolve());
+  });
+  return server;
+}
+
+/**
+ * Start recording or replaying if the environment asks for it
+ * Returns a line describing the mode for the startup log, or undefined
+ */
+export async function startFixtureMode(env: NodeJS.ProcessEnv = process.env): Promise<string | undefined> {
+  const recordPath = env[RECORD_VARIABLE];
+  const replayPath = env[REPLAY_VARIABLE];
+  if (recordPath && replayPath) {
+    throw new Error(`Set either ${RECORD_VARIABLE} or ${REPLAY_VARIABLE}, not both`);
+  }
+
+  if (recordPath) {
+    const active = new Recorder(path.resolve(recordPath));
+    recorder = active;
+    tapFeeds(active);
+    return `Recording exchange traffic to ${active.filePath}`;
+  }
+
+  if (replayPath) {
+    const server = await startStandIn(loadFixtures(path.resolve(replayPath)));
+    const { port } = server.address() as AddressInfo;
+    server.unref();
+    standInUrl = `http://127.0.0.1:${port}`;
+    setFeedUrls({ mainnet: `ws://127.0.0.1:${port}/mainnet/ws`, testnet: `ws://127.0.0.1:${port}/testnet/ws` });
+    return `Replaying exchange traffic from ${path.resolve(replayPath)} via ${standInUrl}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Point a new client at the stand-in, or record its traffic, according to
+ * the fixture mode
+ */
+export function attachFixtureMode(client: Hyperliquid): void {
+  if (!recorder && !standInUrl) {
+    return;
+  }
+  const network: FixtureNetwork = client.getBaseUrl() === BASE_URLS.TESTNET ? "testnet" : "mainnet";
+
+  for (const api of sdkHttpApis(client)) {
+    if (standInUrl) {
+      api.client.defaults.baseURL = `${standInUrl}/${network}`;
+      continue;
+    }
+
+    const active = recorder!;
+    const record = (response: any) => {
+      const config = response.config ?? {};
+      let body: any;
+      try {
+        body = typeof config.data === "string" ? JSON.parse(config.data) : config.data;
+      } catch {
+        body = config.data;
+      }
+      active.recordHttp(network, config.url ?? "", body, response.status, response.data);
+    };
+    api.client.interceptors.response.use(
+      (response: any) => {
+        record(response);
+        return response;
+      },
+      (error: any) => {
+        // Requests that got no response are not recorded
+        if (error?.response) {
+          record(error.response);
+        }
+        return Promise.reject(error);
+      }
+    );
+  }
+}
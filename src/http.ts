@@ -0,0 +1,237 @@
+/**
+ * HTTP transport
+ *
+ * Serves MCP over HTTP with server-sent events, so one long-running server
+ * can be shared by a web app and several agents. Each SSE connection is a
+ * separate MCP session. The same server hosts the local dashboard, which can
+ * also be run on its own next to the stdio transport. Every request except
+ * the health check and the dashboard page must carry the bearer token.
+ */
+
+import crypto from "crypto";
+import http from "http";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { DASHBOARD_PATH, DashboardApi, dashboardPage, handleDashboardApi, isDashboardApiPath } from "./dashboard.js";
+
+/**
+ * Type definitions for transport options
+ */
+export interface TransportOptions {
+  mode: "stdio" | "http";
+  host: string;
+  port: number;
+  token?: string;
+  dashboard: boolean;
+}
+
+const DEFAULT_HOST = "127.0.0.1";
+const DEFAULT_PORT = 3001;
+const MIN_TOKEN_LENGTH = 16;
+const SSE_PATH = "/sse";
+const MESSAGES_PATH = "/messages";
+const HEALTH_PATH = "/health";
+const MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * Read the transport options from command-line flags (--http, --stdio,
+ * --dashboard, --host, --port), falling back to HYPERLIQUID_MCP_TRANSPORT,
+ * HYPERLIQUID_MCP_DASHBOARD, HYPERLIQUID_MCP_HOST and HYPERLIQUID_MCP_PORT
+ * The token is only read from HYPERLIQUID_MCP_TOKEN, so it never shows up in
+ * process listings. HTTP mode always serves the dashboard and needs a token;
+ * a dashboard next to stdio makes up a random one if none is set
+ */
+export function parseTransportOptions(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): TransportOptions {
+  const flags: { [name: string]: string | true } = {};
+  for (let index = 0; index < argv.length; index++) {
+    const match = /^--([a-z]+)(?:=(.*))?$/.exec(argv[index]);
+    if (!match) {
+      throw new Error(`Unknown argument: ${argv[index]}`);
+    }
+    const [, name, inline] = match;
+    if (name === "host" || name === "port") {
+      const value = inline ?? argv[++index];
+      if (value === undefined) {
+        throw new Error(`--${name} needs a value`);
+      }
+      flags[name] = value;
+    } else if (name === "http" || name === "stdio" || name === "dashboard") {
+      flags[name] = true;
+    } else {
+      throw new Error(`Unknown option: --${name}`);
+    }
+  }
+
+  const mode = flags.http ? "http" : flags.stdio ? "stdio" : (env.HYPERLIQUID_MCP_TRANSPORT || "stdio").toLowerCase();
+  if (mode !== "stdio" && mode !== "http") {
+    throw new Error("HYPERLIQUID_MCP_TRANSPORT must be stdio or http");
+  }
+
+  const port = Number(flags.port ?? env.HYPERLIQUID_MCP_PORT ?? DEFAULT_PORT);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error("The port must be a whole number between 0 and 65535");
+  }
+
+  const dashboard = mode === "http" || flags.dashboard === true ||
+    ["1", "true", "yes"].includes((env.HYPERLIQUID_MCP_DASHBOARD || "").toLowerCase());
+
+  let token = env.HYPERLIQUID_MCP_TOKEN || undefined;
+  if (mode === "http" && (!token || token.length < MIN_TOKEN_LENGTH)) {
+    throw new Error(`HTTP mode needs HYPERLIQUID_MCP_TOKEN set to a bearer token of at least ${MIN_TOKEN_LENGTH} characters`);
+  }
+  if (dashboard && token && token.length < MIN_TOKEN_LENGTH) {
+    throw new Error(`HYPERLIQUID_MCP_TOKEN must be at least ${MIN_TOKEN_LENGTH} characters`);
+  }
+  if (dashboard && !token) {
+    token = crypto.randomBytes(24).toString("hex");
+  }
+
+  return {
+    mode,
+    host: String(flags.host ?? env.HYPERLIQUID_MCP_HOST ?? DEFAULT_HOST),
+    port,
+    token,
+    dashboard
+  };
+}
+
+/**
+ * Whether a request carries the bearer token
+ * Both sides are hashed first so the comparison takes the same time
+ * whatever the token's length
+ */
+function isAuthorized(req: http.IncomingMessage, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? "");
+  if (!match) {
+    return false;
+  }
+  const digest = (value: string) => crypto.createHash("sha256").update(value).digest();
+  return crypto.timingSafeEqual(digest(match[1].trim()), digest(token));
+}
+
+/**
+ * Send a JSON response
+ */
+function sendJson(res: http.ServerResponse, status: number, body: object, headers: http.OutgoingHttpHeaders = {}): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Read a JSON request body, treating an empty body as an empty object
+ */
+async function readJsonBody(req: http.IncomingMessage): Promise<any> {
+  let body = "";
+  for await (const chunk of req) {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) {
+      throw new SyntaxError("Request body is too large");
+    }
+  }
+  return body.trim() ? JSON.parse(body) : {};
+}
+
+/**
+ * Address of the dashboard, optionally with the token in the URL fragment so
+ * it can be opened straight from the log
+ */
+export function dashboardUrl(options: TransportOptions, port: number, withToken: boolean): string {
+  const url = `http://${options.host}:${port}${DASHBOARD_PATH}`;
+  return withToken ? `${url}#token=${encodeURIComponent(options.token ?? "")}` : url;
+}
+
+/**
+ * Start the HTTP server
+ * GET /sse opens a session, POST /messages?sessionId=... carries its client
+ * messages, GET /dashboard serves the dashboard page backed by
+ * /dashboard/api/..., and GET /health reports status without authentication.
+ * Without createServer only the dashboard and health check are served
+ */
+export function startHttpServer(
+  options: TransportOptions,
+  handlers: { createServer?: () => Server; dashboard?: DashboardApi }
+): Promise<http.Server> {
+  const { createServer, dashboard } = handlers;
+  const sessions = new Map<string, SSEServerTransport>();
+  const startedAt = Date.now();
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    try {
+      if (req.method === "GET" && url.pathname === HEALTH_PATH) {
+        sendJson(res, 200, {
+          status: "ok",
+          sessions: sessions.size,
+          uptimeSeconds: Math.floor((Date.now() - startedAt) / 1000)
+        });
+        return;
+      }
+
+      if (dashboard && req.method === "GET" && (url.pathname === DASHBOARD_PATH || url.pathname === `${DASHBOARD_PATH}/`)) {
+        res.writeHead(200, {
+          "Content-Type": "text/html; charset=utf-8",
+          "Cache-Control": "no-store",
+          "Content-Security-Policy": "default-src 'self'; style-src 'unsafe-inline'; script-src 'unsafe-inline'"
+        });
+        res.end(dashboardPage());
+        return;
+      }
+
+      if (!isAuthorized(req, options.token!)) {
+        sendJson(res, 401, { error: "Missing or invalid bearer token" }, { "WWW-Authenticate": "Bearer" });
+        return;
+      }
+
+      if (dashboard && isDashboardApiPath(url.pathname)) {
+        let body: any;
+        try {
+          body = req.method === "POST" ? await readJsonBody(req) : undefined;
+        } catch (error) {
+          sendJson(res, 400, { error: error instanceof Error ? error.message : "Invalid request body" });
+          return;
+        }
+        const response = await handleDashboardApi(req.method ?? "GET", url, body, dashboard);
+        sendJson(res, response.status, response.body, { "Cache-Control": "no-store" });
+        return;
+      }
+
+      if (createServer && req.method === "GET" && url.pathname === SSE_PATH) {
+        const transport = new SSEServerTransport(MESSAGES_PATH, res);
+        sessions.set(transport.sessionId, transport);
+        res.on("close", () => sessions.delete(transport.sessionId));
+
+        await createServer().connect(transport);
+        return;
+      }
+
+      if (createServer && req.method === "POST" && url.pathname === MESSAGES_PATH) {
+        const transport = sessions.get(url.searchParams.get("sessionId") ?? "");
+        if (!transport) {
+          sendJson(res, 404, { error: "Unknown or closed session" });
+          return;
+        }
+        await transport.handlePostMessage(req, res);
+        return;
+      }
+
+      sendJson(res, 404, { error: "Not found" });
+    } catch (error) {
+      console.error("HTTP request failed:", error);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: "Internal server error" });
+      }
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve(httpServer);
+    });
+  });
+}
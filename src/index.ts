@@ -14,725 +14,5424 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
+  CallToolRequest,
   CallToolRequestSchema,
+  GetPromptRequest,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
   ListResourcesRequestSchema,
   ListToolsRequestSchema,
+  LoggingLevel,
+  LoggingLevelSchema,
+  ReadResourceRequest,
   ReadResourceRequestSchema,
+  SetLevelRequestSchema,
+  SubscribeRequest,
+  SubscribeRequestSchema,
+  UnsubscribeRequest,
+  UnsubscribeRequestSchema,
   ErrorCode,
   McpError
 } from "@modelcontextprotocol/sdk/types.js";
-import { Hyperliquid } from "hyperliquid";
+import { Hyperliquid, Order } from "hyperliquid";
 import { ethers } from "ethers";
+import {
+  Strategy,
+  STRATEGY_TYPES,
+  StrategyContext,
+  createStrategyState,
+  startStrategy,
+  stopStrategy,
+  isStrategyRunning,
+  validateStrategyConfig
+} from "./strategies.js";
+import {
+  ACCOUNT_NAME_PATTERN,
+  DEFAULT_ACCOUNT,
+  StoredCredentials,
+  TradingHalt,
+  clearKeystore,
+  deleteAccount,
+  getEnvPassphrase,
+  hasKeystore,
+  loadAccounts,
+  loadKeystore,
+  loadStrategies,
+  saveAccount,
+  saveActiveAccount,
+  saveKeystore,
+  savePaperState,
+  saveStrategies,
+  loadPaperState,
+  loadBacktests,
+  saveBacktests,
+  loadRiskPolicy,
+  saveRiskPolicy,
+  appendJournalEntry,
+  loadJournal,
+  writeExportFile,
+  loadTradingHalt,
+  saveTradingHalt,
+  loadAlerts,
+  saveAlerts,
+  loadExecutions,
+  saveExecutions
+} from "./storage.js";
+import {
+  PaperExchange,
+  PaperState,
+  attachPaperExchange,
+  createPaperState,
+  loadBookSnapshots
+} from "./paper.js";
+import {
+  BacktestResult,
+  Candle,
+  loadCandlesFromFile,
+  parseCandleSnapshot,
+  runBacktest,
+  summarizeBacktest
+} from "./backtest.js";
+import {
+  ORDER_KINDS,
+  OrderSpec,
+  TIME_IN_FORCE,
+  buildOrderRequests,
+  cancelStatus,
+  orderResults,
+  parseCancels,
+  parseCloid,
+  parseOrderSpec,
+  sendOrders,
+  toOrderIntent
+} from "./orders.js";
+import {
+  AccountView,
+  getFills,
+  getFunding,
+  getOpenOrders,
+  getPnl,
+  parseAccountFilter,
+  parseTimeArg
+} from "./account.js";
+import {
+  MARKET_SORTS,
+  MarketFilter,
+  MarketInfo,
+  MarketType,
+  filterMarkets,
+  listMarkets,
+  resolveMarket,
+  resolveSpotMarket
+} from "./markets.js";
+import {
+  DEFAULT_RISK_POLICY,
+  OrderIntent,
+  PendingOrders,
+  RiskAccountState,
+  RiskPolicy,
+  addPendingOrder,
+  checkOrderRisk,
+  consumeConfirmToken,
+  issueConfirmToken,
+  needsConfirmation,
+  ordersInLastMinute,
+  recordOrder,
+  requiredAccountState,
+  updateRiskPolicy
+} from "./risk.js";
+import { FeedConnection, FeedSubscription, feedUrl } from "./feeds.js";
+import { dashboardUrl, parseTransportOptions, startHttpServer } from "./http.js";
+import { DashboardApi } from "./dashboard.js";
+import {
+  AgentWallet,
+  ApproveAgentAction,
+  approvalExpiresAt,
+  approvalTypedData,
+  buildApproveAgent,
+  generateAgentWallet,
+  isAgentCommand,
+  listAgents,
+  parseAgentName,
+  runAgentCommand,
+  submitApproval
+} from "./agents.js";
+import {
+  CANDLE_INTERVALS,
+  analyzeBook,
+  getAssetContext,
+  getCandles,
+  getFundingHistory,
+  getPredictedFunding,
+  intervalMs,
+  parseDepthBps
+} from "./marketdata.js";
+import {
+  LEVERAGE_MODES,
+  PositionState,
+  closeOrderSpec,
+  getPositionState,
+  parseClosePercent,
+  parseLeverage,
+  parseMarginAmount
+} from "./positions.js";
+import {
+  JOURNAL_FORMATS,
+  JournalFormat,
+  createJournalEntry,
+  filterJournal,
+  formatJournal,
+  parseExportFileName,
+  parseJournalFilter
+} from "./journal.js";
+import { ToolDefinition, toolErrorResult, validateToolArguments } from "./schema.js";
+import { getRiskReport, spotPriceMap } from "./portfolio.js";
+import { attachScheduler, listSchedulers } from "./requests.js";
+import { attachFixtureMode, startFixtureMode } from "./fixtures.js";
+import { PromptDataSource, listPromptTemplates, renderPrompt } from "./prompts.js";
+import { getFeeRates, previewOrder } from "./preview.js";
+import {
+  SpotToken,
+  TRANSFER_DIRECTIONS,
+  checkDestination,
+  checkTransferResult,
+  parseTransferAmount,
+  parseTransferDirection,
+  resolveSpotToken,
+  roundTokenAmount,
+  spotTokenWire
+} from "./transfers.js";
+import {
+  ALERT_ACTIONS,
+  ALERT_CONDITIONS,
+  ALERT_METRICS,
+  Alert,
+  AlertEvent,
+  MAX_ALERT_EVENTS,
+  describeAlert,
+  evaluateAlert,
+  fireAlert,
+  parseAlert,
+  readAlertValue
+} from "./alerts.js";
+import {
+  EXECUTION_ALGOS,
+  ExecutionContext,
+  ExecutionJob,
+  cancelExecution,
+  executionReport,
+  parseExecutionParams,
+  planExecution,
+  startExecution
+} from "./execution.js";
 
 /**
- * Type definitions for user credentials and strategies
+ * Type definitions for user credentials
  */
 interface UserCredentials {
   privateKey?: string;
   walletAddress?: string;
   testnet: boolean;
   vaultAddress?: string;
+  paper?: boolean;
+  paperSnapshots?: string;
+  agentAddress?: string;
+  agentName?: string;
 }
 
-interface Strategy {
-  id: string;
+/**
+ * A named login with its own client and, in paper mode, its own simulated
+ * balance and positions
+ */
+interface Account {
   name: string;
-  description: string;
-  config: any;
-  active: boolean;
+  credentials: UserCredentials;
+  client: Hyperliquid | null;
+  paperState: PaperState | null;
 }
 
 /**
- * In-memory storage for user credentials and strategies
- * In a production environment, this would be stored in a secure database
+ * A tool as registered: the definition listed to clients, and the handler
+ * that runs a call once its arguments have been validated against it
  */
-const userCredentials: UserCredentials = {
-  testnet: true // Default to testnet for safety
+interface Tool extends ToolDefinition {
+  handler: (args: { [key: string]: unknown }) => Promise<ToolResult>;
+}
+
+type ToolResult = {
+  content: { type: string; text: string }[];
 };
 
+/**
+ * Accounts and strategies
+ * Both are persisted to the local data directory (see storage.ts) and
+ * restored on startup. Tools use the active account unless they name another
+ */
+// No prototype, so names such as "constructor" are not found as accounts
+const accounts: { [name: string]: Account } = Object.create(null);
+let activeAccountName = DEFAULT_ACCOUNT;
+
 const strategies: { [id: string]: Strategy } = {};
-let hyperliquidClient: Hyperliquid | null = null;
+const backtests: { [id: string]: BacktestResult } = {};
+const executions: { [id: string]: ExecutionJob } = {};
+let riskPolicy: RiskPolicy = { ...DEFAULT_RISK_POLICY };
+let tradingHalt: TradingHalt | null = null;
 
 /**
- * Create an MCP server with capabilities for resources and tools
+ * Alerts and the events they fired, newest last
+ * Persisted like strategies and checked by the alert watcher
  */
-const server = new Server(
-  {
-    name: "hyperliquid-server",
-    version: "0.1.0",
-  },
-  {
-    capabilities: {
-      resources: {},
-      tools: {},
+const alerts: { [id: string]: Alert } = {};
+let alertEvents: AlertEvent[] = [];
+let alertTimer: NodeJS.Timeout | null = null;
+const ALERT_CHECK_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Every connected client session with the lowest level of log messages it
+ * wants, for notifications that go to all of them
+ */
+const sessions = new Map<Server, LoggingLevel>();
+const LOG_LEVELS = LoggingLevelSchema.options;
+
+/**
+ * Agent approvals and revocations waiting for the master account's
+ * signature, by account name. A generated agent key stays in memory until
+ * its approval goes through
+ */
+const pendingAgents = new Map<string, { agent: AgentWallet; action: ApproveAgentAction }>();
+const pendingRevocations = new Map<string, ApproveAgentAction>();
+
+const DEFAULT_PAPER_BALANCE = 10000;
+const PAPER_WALLET_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+/**
+ * Create an MCP server with capabilities for resources, tools and prompts
+ * Each client session gets its own server; accounts, strategies and feeds
+ * are shared between them
+ */
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "hyperliquid-server",
+      version: "0.1.0",
     },
-  }
-);
+    {
+      capabilities: {
+        resources: {
+          subscribe: true
+        },
+        tools: {},
+        prompts: {},
+        logging: {},
+      },
+    }
+  );
+  
+  server.setRequestHandler(ListResourcesRequestSchema, handleListResources);
+  server.setRequestHandler(ReadResourceRequestSchema, handleReadResource);
+  server.setRequestHandler(SubscribeRequestSchema, (request) => handleSubscribe(server, request));
+  server.setRequestHandler(UnsubscribeRequestSchema, (request) => handleUnsubscribe(server, request));
+  server.setRequestHandler(ListToolsRequestSchema, handleListTools);
+  server.setRequestHandler(CallToolRequestSchema, (request) => handleCallTool(request));
+  server.setRequestHandler(ListPromptsRequestSchema, handleListPrompts);
+  server.setRequestHandler(GetPromptRequestSchema, handleGetPrompt);
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    sessions.set(server, request.params.level);
+    return {};
+  });
+  server.onclose = () => dropSession(server);
+  sessions.set(server, "info");
+  
+  return server;
+}
+
+/**
+ * Create an account from saved or newly given credentials, without a client
+ * until one is needed
+ */
+function createAccount(name: string, credentials: StoredCredentials | UserCredentials): Account {
+  return {
+    name,
+    credentials: {
+      privateKey: "privateKey" in credentials ? credentials.privateKey : undefined,
+      walletAddress: credentials.walletAddress,
+      testnet: credentials.testnet ?? true, // Default to testnet for safety
+      vaultAddress: credentials.vaultAddress,
+      paper: credentials.paper,
+      paperSnapshots: credentials.paperSnapshots,
+      agentAddress: credentials.agentAddress,
+      agentName: credentials.agentName
+    },
+    client: null,
+    paperState: null
+  };
+}
 
 /**
- * Initialize the Hyperliquid client with user credentials
+ * Initialize the Hyperliquid client for an account
  */
-function initializeClient(): Hyperliquid | null {
+function initializeClient(account: Account): Hyperliquid | null {
+  const credentials = account.credentials;
+  
   try {
-    if (!userCredentials.privateKey && !userCredentials.walletAddress) {
+    if (!hasCredentials(account)) {
       return null;
     }
 
     const client = new Hyperliquid({
-      privateKey: userCredentials.privateKey,
-      testnet: userCredentials.testnet,
-      walletAddress: userCredentials.walletAddress,
-      vaultAddress: userCredentials.vaultAddress,
-      enableWs: true
+      privateKey: credentials.privateKey,
+      testnet: credentials.testnet,
+      walletAddress: credentials.walletAddress,
+      vaultAddress: credentials.vaultAddress,
+      // Live data comes from the resource feeds (see feeds.ts), not the SDK's WebSocket client
+      enableWs: false
     });
+    attachScheduler(client);
+    attachFixtureMode(client);
+
+    // In paper mode exchange calls and account queries go to the simulator,
+    // while market data still comes from the network or recorded snapshots
+    if (credentials.paper) {
+      // Recorded snapshots also answer book queries, so paper mode works offline
+      if (credentials.paperSnapshots) {
+        client.info.getL2Book = loadBookSnapshots(credentials.paperSnapshots);
+      }
+      const getBook = (coin: string) => client.info.getL2Book(coin);
+
+      account.paperState = account.paperState ?? loadPaperState(account.name) ?? createPaperState(DEFAULT_PAPER_BALANCE);
+      attachPaperExchange(
+        client,
+        new PaperExchange(account.paperState, getBook, (state) => persistPaperState(account, state))
+      );
+    }
 
     return client;
   } catch (error) {
-    console.error("Failed to initialize Hyperliquid client:", error);
+    console.error(`Failed to initialize Hyperliquid client for account ${account.name}:`, error);
     return null;
   }
 }
 
 /**
- * Handler for listing available resources
- * Exposes account information and strategies as resources
+ * Save an account's paper trading state to disk, logging instead of failing
+ * if the write fails
  */
-server.setRequestHandler(ListResourcesRequestSchema, async () => {
-  const resources = [];
+function persistPaperState(account: Account, state: PaperState): void {
+  try {
+    savePaperState(account.name, state);
+  } catch (error) {
+    console.error("Failed to save paper account:", error);
+  }
+  accountResourcesChanged(ACCOUNT_RESOURCE_VIEWS, account);
+}
 
-  // Only add account resource if credentials are set
-  if (userCredentials.privateKey || userCredentials.walletAddress) {
-    resources.push({
-      uri: "hyperliquid://account",
-      mimeType: "application/json",
-      name: "Hyperliquid Account",
-      description: "Current account information from Hyperliquid"
-    });
+/**
+ * Whether an account has any login (including paper mode)
+ */
+function hasCredentials(account: Account): boolean {
+  const credentials = account.credentials;
+  return Boolean(credentials.privateKey || credentials.walletAddress || credentials.paper);
+}
+
+/**
+ * Whether an account can place and cancel orders
+ */
+function canTrade(account: Account): boolean {
+  return Boolean(account.credentials.privateKey || account.credentials.paper);
+}
+
+/**
+ * How an account signs: in the simulator, with the master private key, with
+ * an agent wallet for the master address, or not at all (read-only, when only
+ * a wallet address is configured)
+ */
+function accessMode(account: Account): "paper" | "private key" | "agent" | "read-only" | "none" {
+  const credentials = account.credentials;
+  if (credentials.paper) {
+    return "paper";
   }
+  if (credentials.privateKey) {
+    return credentials.agentAddress ? "agent" : "private key";
+  }
+  return credentials.walletAddress ? "read-only" : "none";
+}
 
-  // Add strategies as resources
-  Object.entries(strategies).forEach(([id, strategy]) => {
-    resources.push({
-      uri: `hyperliquid://strategy/${id}`,
-      mimeType: "application/json",
-      name: strategy.name,
-      description: `Trading strategy: ${strategy.description}`
-    });
-  });
+/**
+ * Whether an account's orders go to Hyperliquid mainnet with real funds
+ */
+function isMainnet(account: Account): boolean {
+  return !account.credentials.testnet && !account.credentials.paper;
+}
 
-  return { resources };
-});
+/**
+ * Human-readable name of the network an account trades on
+ */
+function getNetworkName(account: Account): string {
+  const network = account.credentials.testnet ? "testnet" : "mainnet";
+  return account.credentials.paper ? `paper (${network} market data)` : network;
+}
 
 /**
- * Handler for reading resources
- * Returns account information or strategy details
+ * Get the address whose orders and fills belong to an account
+ * Falls back to the address derived from the private key
  */
-server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-  const uri = request.params.uri;
+function getWalletAddress(account: Account): string | undefined {
+  const credentials = account.credentials;
   
-  // Handle account resource
-  if (uri === "hyperliquid://account") {
-    if (!hyperliquidClient) {
-      hyperliquidClient = initializeClient();
+  if (credentials.vaultAddress) {
+    return credentials.vaultAddress;
+  }
+  if (credentials.walletAddress) {
+    return credentials.walletAddress;
+  }
+  if (credentials.privateKey) {
+    const formattedPrivateKey = credentials.privateKey.startsWith('0x')
+      ? credentials.privateKey
+      : `0x${credentials.privateKey}`;
+    return new ethers.Wallet(formattedPrivateKey).address;
+  }
+  if (credentials.paper) {
+    return PAPER_WALLET_ADDRESS;
+  }
+  return undefined;
+}
+
+/**
+ * Get the wallet address an account queries, throwing if it has none
+ */
+function requireWalletAddress(account: Account): string {
+  const walletAddress = getWalletAddress(account);
+  if (!walletAddress) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      "No wallet address available. Authenticate with a wallet address or private key."
+    );
+  }
+  return walletAddress;
+}
+
+/**
+ * Get the master address whose agent wallets an account manages
+ */
+function requireMasterAddress(account: Account): string {
+  const credentials = account.credentials;
+  if (credentials.paper) {
+    throw new McpError(ErrorCode.InvalidRequest, "Agent wallets do not apply to paper accounts");
+  }
+  if (credentials.walletAddress) {
+    return credentials.walletAddress;
+  }
+  if (credentials.privateKey && !credentials.agentAddress) {
+    const formattedPrivateKey = credentials.privateKey.startsWith('0x')
+      ? credentials.privateKey
+      : `0x${credentials.privateKey}`;
+    return new ethers.Wallet(formattedPrivateKey).address;
+  }
+  throw new McpError(
+    ErrorCode.InvalidRequest,
+    "No master wallet address available. Authenticate with the master walletAddress first"
+  );
+}
+
+/**
+ * Replace an account's login with new credentials and a fresh client
+ */
+function replaceLogin(account: Account, credentials: UserCredentials): Account {
+  const updated = createAccount(account.name, credentials);
+  updated.client = initializeClient(updated);
+  if (!updated.client) {
+    throw new McpError(
+      ErrorCode.InternalError,
+      "Failed to initialize Hyperliquid client"
+    );
+  }
+  
+  if (account.client) {
+    try {
+      account.client.disconnect();
+    } catch (error) {
+      console.error("Failed to disconnect Hyperliquid client:", error);
     }
-    
-    if (!hyperliquidClient) {
+  }
+  accounts[account.name] = updated;
+  loginChanged();
+  return updated;
+}
+
+/**
+ * Respond with an approval the master account still has to sign, and the
+ * command that signs it locally instead
+ */
+function approvalResponse(account: Account, masterAddress: string, action: ApproveAgentAction, command: string, nextStep: string) {
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify({
+        status: "signature_required",
+        account: account.name,
+        network: getNetworkName(account),
+        masterAddress,
+        agentAddress: action.agentAddress,
+        agentName: action.agentName,
+        expiresAt: new Date(approvalExpiresAt(action)).toISOString(),
+        message: "Sign typedData with the master wallet (eth_signTypedData_v4) and " + nextStep + " with the signature, " +
+          "or run the command in a terminal, where it asks for the master private key, and " + nextStep + " without one",
+        command,
+        typedData: approvalTypedData(action)
+      }, null, 2)
+    }]
+  };
+}
+
+/**
+ * Validate an account name argument
+ * Names become file names in the data directory
+ */
+function parseAccountName(value: unknown): string {
+  const name = String(value);
+  if (!ACCOUNT_NAME_PATTERN.test(name)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "Account names may only contain letters, digits, - and _ (at most 32 characters)"
+    );
+  }
+  return name;
+}
+
+/**
+ * Get a logged-in account by name, or the active account when no name is
+ * given
+ */
+function getAccount(name?: unknown): Account {
+  if (name === undefined || name === "") {
+    const active = accounts[activeAccountName];
+    if (!active) {
       throw new McpError(
         ErrorCode.InvalidRequest,
         "No credentials provided. Please authenticate first."
       );
     }
+    return active;
+  }
+  
+  const account = accounts[String(name)];
+  if (!account) {
+    const known = Object.keys(accounts);
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown account: ${name}` + (known.length ? ` (logged-in accounts: ${known.join(", ")})` : "")
+    );
+  }
+  return account;
+}
 
-    try {
-      await hyperliquidClient.connect();
-      
-      // Get account information
-      let accountInfo: any = {};
-      
-      if (userCredentials.walletAddress) {
-        // Get clearinghouse state for perpetuals
-        const perpState = await hyperliquidClient.info.perpetuals.getClearinghouseState(
-          userCredentials.walletAddress
-        );
-        
-        // Get spot clearinghouse state if available
-        let spotState = null;
-        try {
-          spotState = await hyperliquidClient.info.spot.getSpotClearinghouseState(
-            userCredentials.walletAddress
-          );
-          
-          // Get spot meta and asset contexts to get price information
-          if (spotState && spotState.balances && spotState.balances.length > 0) {
-            const [spotMeta, spotAssetCtxs] = await hyperliquidClient.info.spot.getSpotMetaAndAssetCtxs();
-            
-            // Create a map of coin to price
-            const priceMap: { [key: string]: number } = {};
-            spotAssetCtxs.forEach((assetCtx: any) => {
-              priceMap[assetCtx.coin] = parseFloat(assetCtx.markPx);
-            });
-            
-            // Ensure USDC has a price of 1
-            if (!priceMap["USDC-SPOT"] || priceMap["USDC-SPOT"] === 0) {
-              priceMap["USDC-SPOT"] = 1.0;
-            }
-            
-            console.error("MCP Server - Price Map:", priceMap);
-            
-            // Add price and USD value to each balance
-            spotState.balances = spotState.balances.map((balance: any) => {
-              const tokenAmount = parseFloat(balance.total);
-              const price = priceMap[balance.coin] || 0;
-              const usdValue = tokenAmount * price;
-              
-              console.error(`MCP Server - Balance for ${balance.coin}: Amount=${tokenAmount}, Price=${price}, USD Value=${usdValue}`);
-              
-              return {
-                ...balance,
-                price: price.toString(),
-                usdValue: usdValue.toString()
-              };
-            });
-          }
-        } catch (error) {
-          // Spot might not be available, ignore error
-          console.error("Error fetching spot data:", error);
-        }
-        
-        accountInfo = {
-          perpetuals: perpState,
-          spot: spotState,
-          network: userCredentials.testnet ? "testnet" : "mainnet"
-        };
+/**
+ * Get an account's client, creating it if needed
+ */
+function requireClient(account: Account): Hyperliquid {
+  account.client = account.client ?? initializeClient(account);
+  
+  if (!account.client) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      hasCredentials(account)
+        ? `Failed to initialize Hyperliquid client for account ${account.name}`
+        : "No credentials provided. Please authenticate first."
+    );
+  }
+  
+  return account.client;
+}
+
+/**
+ * Context handed to the strategy runtime so a running strategy always uses
+ * the current client of its account
+ */
+function strategyContext(strategy: Strategy): StrategyContext {
+  const accountName = strategy.account ?? DEFAULT_ACCOUNT;
+  
+  return {
+    getClient: () => {
+      const account = accounts[accountName];
+      if (!account) {
+        return null;
+      }
+      account.client = account.client ?? initializeClient(account);
+      return account.client;
+    },
+    getWalletAddress: () => {
+      const account = accounts[accountName];
+      return account ? getWalletAddress(account) : undefined;
+    },
+    onStateChange: (strategy) => {
+      persistStrategies();
+      notifyResourceUpdated(`hyperliquid://strategy/${strategy.id}`);
+    },
+    beforeOrder: async (intent) => {
+      const account = accounts[accountName];
+      if (account) {
+        await enforceRiskPolicy(account, intent);
       }
+      recordOrder();
+    },
+    getMarket: async (symbol) => {
+      const account = accounts[accountName];
+      return account ? await findMarket(account, symbol) : undefined;
+    }
+  };
+}
 
-      return {
-        contents: [{
-          uri: request.params.uri,
-          mimeType: "application/json",
-          text: JSON.stringify(accountInfo, null, 2)
-        }]
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Failed to fetch account information: ${errorMessage}`
-      );
+/**
+ * Context handed to the execution runtime, like a strategy's, with the
+ * market the job's orders are rounded for
+ */
+function executionContext(job: ExecutionJob, market?: MarketInfo): ExecutionContext {
+  return {
+    market,
+    getClient: () => {
+      const account = accounts[job.account];
+      if (!account) {
+        return null;
+      }
+      account.client = account.client ?? initializeClient(account);
+      return account.client;
+    },
+    getWalletAddress: () => {
+      const account = accounts[job.account];
+      return account ? getWalletAddress(account) : undefined;
+    },
+    onStateChange: (job) => {
+      persistExecutions();
+      notifyResourceUpdated(`hyperliquid://execution/${job.id}`);
+    },
+    beforeOrder: async (intent) => {
+      const account = accounts[job.account];
+      if (account) {
+        await enforceRiskPolicy(account, intent);
+      }
+      recordOrder();
     }
-  }
+  };
+}
+
+/**
+ * Mid price of a symbol from the top of its L2 book
+ */
+async function getMidPrice(client: Hyperliquid, symbol: string): Promise<number> {
+  const book = await client.info.getL2Book(symbol);
+  const [bids, asks] = book.levels;
   
-  // Handle strategy resources
-  if (uri.startsWith("hyperliquid://strategy/")) {
-    const strategyId = uri.replace("hyperliquid://strategy/", "");
-    const strategy = strategies[strategyId];
-    
-    if (!strategy) {
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        `Strategy ${strategyId} not found`
-      );
-    }
-    
-    return {
-      contents: [{
-        uri: request.params.uri,
-        mimeType: "application/json",
-        text: JSON.stringify(strategy, null, 2)
-      }]
-    };
+  if (!bids.length || !asks.length) {
+    throw new Error(`Order book for ${symbol} is empty`);
   }
   
-  throw new McpError(
-    ErrorCode.InvalidRequest,
-    `Resource not found: ${uri}`
-  );
-});
+  return (parseFloat(bids[0].px) + parseFloat(asks[0].px)) / 2;
+}
 
 /**
- * Handler for listing available tools
- * Exposes tools for authentication, trading, and strategy management
+ * Format an L2 book from the REST API or the feed, best levels first
  */
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+function formatBook(symbol: string, book: any, live: boolean): object {
+  const levels = (side: any[]) => side.map((level) => ({
+    price: Number(level.px),
+    size: Number(level.sz),
+    orders: level.n
+  }));
+  
   return {
-    tools: [
-      // Authentication tool
-      {
-        name: "authenticate",
-        description: "Authenticate with Hyperliquid using private key or wallet address",
-        inputSchema: {
-          type: "object",
-          properties: {
-            privateKey: {
-              type: "string",
-              description: "Private key for authentication (optional if walletAddress is provided)"
-            },
-            walletAddress: {
-              type: "string",
-              description: "Wallet address for authentication (optional if privateKey is provided)"
-            },
-            testnet: {
-              type: "boolean",
-              description: "Whether to use testnet (default: true)"
-            },
-            vaultAddress: {
-              type: "string",
-              description: "Vault address (optional)"
-            }
+    symbol,
+    bids: levels(book.levels[0]),
+    asks: levels(book.levels[1]),
+    time: new Date(book.time).toISOString(),
+    source: live ? "feed" : "rest"
+  };
+}
+
+/**
+ * Resolve a symbol to its market
+ * Offline paper accounts have no metadata, so their symbols pass through as given
+ */
+async function findMarket(account: Account, symbol: string): Promise<MarketInfo | undefined> {
+  try {
+    return await resolveMarket(requireClient(account), symbol);
+  } catch (error) {
+    if (error instanceof McpError || !account.credentials.paper) {
+      throw error;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Resolve a symbol to its market, throwing if there is no metadata for it
+ */
+async function requireMarket(account: Account, symbol: unknown): Promise<MarketInfo> {
+  if (typeof symbol !== "string" || !symbol) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "symbol is required"
+    );
+  }
+  
+  const market = await findMarket(account, symbol);
+  if (!market) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Market metadata for ${symbol} is unavailable offline`
+    );
+  }
+  return market;
+}
+
+/**
+ * Resolve an order's market and build its requests, pricing market orders
+ * off the current mid
+ */
+async function prepareOrders(account: Account, spec: OrderSpec): Promise<Order[]> {
+  const market = await findMarket(account, spec.symbol);
+  const symbol = market?.symbol ?? spec.symbol;
+  const referencePrice = spec.orderType === "market" ? await getMidPrice(requireClient(account), symbol) : undefined;
+  return buildOrderRequests(spec, market, referencePrice);
+}
+
+/**
+ * Query one of the account history views for an account's wallet
+ * The coin filter accepts any symbol alias
+ */
+async function readAccountView(account: Account, view: AccountView, args: { [key: string]: unknown }): Promise<object> {
+  const filter = parseAccountFilter(args, view === "pnl" ? 7 * 24 * 60 * 60 * 1000 : undefined);
+  const client = requireClient(account);
+  const walletAddress = requireWalletAddress(account);
+  
+  try {
+    await client.connect();
+    
+    if (filter.coin) {
+      filter.coin = (await findMarket(account, filter.coin))?.symbol ?? filter.coin;
+    }
+    
+    switch (view) {
+      case "orders":
+        return await getOpenOrders(client, walletAddress, filter);
+      case "fills":
+        return await getFills(client, walletAddress, filter);
+      case "funding":
+        return await getFunding(client, walletAddress, filter);
+      case "pnl":
+        return await getPnl(client, walletAddress, filter);
+    }
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Failed to fetch ${view}: ${errorMessage}`
+    );
+  }
+}
+
+/**
+ * Handler for the tools that return an account history view
+ */
+function accountViewTool(view: AccountView): Tool["handler"] {
+  return async (args) => {
+    const result = await readAccountView(getAccount(args.account), view, args);
+    
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify(result, null, 2)
+      }]
+    };
+  };
+}
+
+/**
+ * Open positions and margin of an account, optionally for one symbol
+ */
+async function readPositionState(account: Account, symbol?: string): Promise<PositionState> {
+  return getPositionState(requireClient(account), requireWalletAddress(account), symbol);
+}
+
+/**
+ * Tool response pairing what a position tool did with the position and
+ * margin state afterwards
+ */
+async function positionResponse(account: Account, symbol: string | undefined, outcome: object) {
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify({ ...outcome, ...await readPositionState(account, symbol) }, null, 2)
+    }]
+  };
+}
+
+/**
+ * Send reduce-only orders that close positions
+ * Closing only lowers exposure, so large mainnet closes need no confirmation
+ */
+async function sendCloseOrders(account: Account, tool: string, specs: OrderSpec[]): Promise<object[]> {
+  const orders: Order[] = [];
+  for (const spec of specs) {
+    orders.push(...await prepareOrders(account, spec));
+  }
+  
+  await screenOrders(account, tool, specs, orders, undefined, []);
+  const result = await sendOrders(requireTradingClient(account), orders);
+  return orderResults(orders, result);
+}
+
+/**
+ * Check an order against the risk policy
+ * Fetches only the account figures the policy's limits need, and throws an
+ * MCP error naming the rule that failed
+ */
+async function enforceRiskPolicy(account: Account, intent: OrderIntent, pending?: PendingOrders): Promise<void> {
+  if (tradingHalt && !intent.reduceOnly) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Trading has been halted from the dashboard since ${tradingHalt.since}. Only reduce-only orders are accepted until it is resumed there`
+    );
+  }
+  
+  const needed = requiredAccountState(riskPolicy, intent);
+  const client = requireClient(account);
+  const walletAddress = getWalletAddress(account);
+  const state: RiskAccountState = {};
+  
+  if (walletAddress && needed.positions) {
+    const perpState = await client.info.perpetuals.getClearinghouseState(walletAddress);
+    state.accountValue = parseFloat(perpState.marginSummary.accountValue);
+    state.positions = {};
+    perpState.assetPositions.forEach(({ position }) => {
+      const positionValue = parseFloat(position.positionValue);
+      state.positions![position.coin] = parseFloat(position.szi) < 0 ? -positionValue : positionValue;
+    });
+  }
+  
+  if (walletAddress && needed.dailyPnl) {
+    const startOfDay = new Date();
+    startOfDay.setUTCHours(0, 0, 0, 0);
+    const fills: any[] = await client.info.getUserFillsByTime(walletAddress, startOfDay.getTime(), Date.now());
+    state.dailyRealizedPnl = fills.reduce(
+      (total, fill) => total + parseFloat(fill.closedPnl) - parseFloat(fill.fee ?? "0"),
+      0
+    );
+  }
+  
+  checkOrderRisk(riskPolicy, intent, state, Date.now(), pending);
+}
+
+/**
+ * Run orders through the risk policy before they are sent
+ * Large mainnet orders are held back: unless a valid confirmation token for
+ * the same request is given, returns a confirmation_required response and the
+ * caller must not send anything. Otherwise counts the orders towards the rate
+ * Each order is checked on top of the ones before it in the batch
+ */
+async function screenOrders(
+  account: Account,
+  tool: string,
+  request: unknown,
+  orders: Order[],
+  confirmToken?: string,
+  confirmOrders: Order[] = orders
+): Promise<ToolResult | null> {
+  const pending: PendingOrders = { count: 0, notional: {} };
+  for (const order of orders) {
+    const intent = toOrderIntent(order);
+    await enforceRiskPolicy(account, intent, pending);
+    addPendingOrder(pending, intent);
+  }
+  
+  const intents = confirmOrders.map(toOrderIntent);
+  if (isMainnet(account) && needsConfirmation(riskPolicy, intents) &&
+      !(confirmToken && consumeConfirmToken(confirmToken, [tool, account.name, request]))) {
+    const confirmation = issueConfirmToken([tool, account.name, request]);
+    const notional = intents.reduce((total, intent) => total + intent.size * intent.price, 0);
+    
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify({
+          status: "confirmation_required",
+          message: `Order NOT placed. Mainnet orders above $${riskPolicy.mainnetConfirmNotional} need confirmation. ` +
+            `Call ${tool} again with the same arguments and this confirmToken to send it`,
+          confirmToken: confirmation.token,
+          expiresAt: new Date(confirmation.expiresAt).toISOString(),
+          notional,
+          orders: intents
+        }, null, 2)
+      }]
+    };
+  }
+  
+  orders.forEach(() => recordOrder());
+  return null;
+}
+
+/**
+ * Get the client of an account that can trade, creating it if needed
+ */
+function requireTradingClient(account: Account): Hyperliquid {
+  const client = requireClient(account);
+  
+  if (!canTrade(account)) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      accessMode(account) === "read-only"
+        ? `Account ${account.name} is read-only: it only has a wallet address. ` +
+          "Use create_agent_wallet to trade through an agent wallet without sharing the master private key"
+        : "Private key is required for trading operations"
+    );
+  }
+  
+  return client;
+}
+
+/**
+ * Get the client of an account that can move funds, creating it if needed
+ * Agent wallets can trade for their master but Hyperliquid does not let them
+ * transfer or withdraw, so this needs the master private key
+ */
+function requireFundsClient(account: Account, tool: string): Hyperliquid {
+  if (accessMode(account) === "agent") {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `${tool} needs the master private key: account ${account.name} signs with an agent wallet, which cannot move funds`
+    );
+  }
+  return requireTradingClient(account);
+}
+
+/**
+ * Resolve a symbol to its spot pair
+ * Offline paper accounts have no metadata, so the token name gets the -SPOT
+ * suffix their books are keyed by
+ */
+async function findSpotSymbol(account: Account, symbol: string): Promise<string> {
+  try {
+    return (await resolveSpotMarket(requireClient(account), symbol)).symbol;
+  } catch (error) {
+    if (error instanceof McpError || !account.credentials.paper) {
+      throw error;
+    }
+    return `${symbol.trim().toUpperCase().replace(/[-/].*$/, "")}-SPOT`;
+  }
+}
+
+/**
+ * Resolve a spot token for a transfer
+ * Offline paper accounts have no metadata, so the name passes through as given
+ */
+async function findSpotToken(account: Account, token: string): Promise<SpotToken> {
+  try {
+    return await resolveSpotToken(requireClient(account), token);
+  } catch (error) {
+    if (error instanceof McpError || !account.credentials.paper) {
+      throw error;
+    }
+    return { name: token.trim().toUpperCase().replace(/-SPOT$/, "").replace(/:.*$/, "") };
+  }
+}
+
+/**
+ * Hold back a send or withdrawal until it is confirmed
+ * Unless a valid confirmation token for the same request is given, returns a
+ * confirmation_required response and the caller must not send anything
+ */
+function confirmTransfer(
+  account: Account,
+  tool: string,
+  request: { [key: string]: unknown },
+  confirmToken: string | undefined,
+  summary: string
+): ToolResult | null {
+  if (confirmToken && consumeConfirmToken(confirmToken, [tool, account.name, request])) {
+    return null;
+  }
+  
+  const confirmation = issueConfirmToken([tool, account.name, request]);
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify({
+        status: "confirmation_required",
+        message: `NOT sent on ${getNetworkName(account)}: ${summary}. ` +
+          `Call ${tool} again with the same arguments and this confirmToken to send it`,
+        confirmToken: confirmation.token,
+        expiresAt: new Date(confirmation.expiresAt).toISOString(),
+        account: account.name,
+        ...request
+      }, null, 2)
+    }]
+  };
+}
+
+/**
+ * Save strategies to disk, logging instead of failing if the write fails
+ */
+function persistStrategies(): void {
+  try {
+    saveStrategies(strategies);
+  } catch (error) {
+    console.error("Failed to save strategies:", error);
+  }
+}
+
+/**
+ * Save execution jobs to disk, logging instead of failing if the write fails
+ */
+function persistExecutions(): void {
+  try {
+    saveExecutions(executions);
+  } catch (error) {
+    console.error("Failed to save executions:", error);
+  }
+}
+
+/**
+ * Save alerts and their events to disk, logging instead of failing if the
+ * write fails
+ */
+function persistAlerts(): void {
+  try {
+    saveAlerts({ alerts, events: alertEvents });
+  } catch (error) {
+    console.error("Failed to save alerts:", error);
+  }
+}
+
+/**
+ * Forget an account's in-memory login and stop the strategies and
+ * executions running on it
+ */
+function logout(account: Account): void {
+  Object.values(strategies).forEach((strategy) => {
+    if ((strategy.account ?? DEFAULT_ACCOUNT) === account.name && isStrategyRunning(strategy.id)) {
+      stopStrategy(strategy, strategyContext(strategy), false).catch(() => undefined);
+    }
+  });
+  persistStrategies();
+  
+  Object.values(executions).forEach((job) => {
+    if (job.account === account.name && job.status === "running") {
+      cancelExecution(job, executionContext(job), false).catch(() => undefined);
+      job.lastError = "Stopped by logout; resting orders were left on the exchange";
+    }
+  });
+  persistExecutions();
+
+  if (account.client) {
+    try {
+      account.client.disconnect();
+    } catch (error) {
+      console.error("Failed to disconnect Hyperliquid client:", error);
+    }
+  }
+
+  delete accounts[account.name];
+  loginChanged();
+}
+
+/**
+ * Restore the saved accounts and strategies from the data directory
+ * Private keys are unlocked with the passphrase from the environment, and
+ * strategies that were active resume only if their account's key was unlocked
+ */
+async function restoreState(): Promise<void> {
+  try {
+    const stored = loadAccounts();
+    const passphrase = getEnvPassphrase();
+    activeAccountName = stored.active;
+    
+    for (const [name, credentials] of Object.entries(stored.accounts)) {
+      const account = createAccount(name, credentials);
+      if (passphrase && hasKeystore(name)) {
+        try {
+          account.credentials.privateKey = await loadKeystore(name, passphrase);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          console.error(`Failed to unlock the saved private key of account ${name}:`, errorMessage);
+        }
+      }
+      accounts[name] = account;
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Failed to restore saved accounts:", errorMessage);
+  }
+
+  try {
+    Object.assign(strategies, loadStrategies());
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Failed to restore saved strategies:", errorMessage);
+  }
+
+  try {
+    riskPolicy = loadRiskPolicy() ?? riskPolicy;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Failed to restore saved risk policy:", errorMessage);
+  }
+
+  try {
+    tradingHalt = loadTradingHalt();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Failed to restore the trading halt:", errorMessage);
+  }
+
+  try {
+    Object.assign(backtests, loadBacktests());
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Failed to restore saved backtests:", errorMessage);
+  }
+
+  // Jobs are not resumed: their schedule and the market have moved on
+  try {
+    Object.assign(executions, loadExecutions());
+    Object.values(executions).filter((job) => job.status === "running").forEach((job) => {
+      job.status = "interrupted";
+      job.lastError = "Stopped by a restart; resting orders were left on the exchange";
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Failed to restore saved executions:", errorMessage);
+  }
+
+  try {
+    const stored = loadAlerts();
+    Object.assign(alerts, stored.alerts);
+    alertEvents = stored.events;
+    scheduleAlertCheck();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Failed to restore saved alerts:", errorMessage);
+  }
+
+  Object.values(strategies).forEach((strategy) => {
+    if (!strategy.active) {
+      return;
+    }
+
+    const account = accounts[strategy.account ?? DEFAULT_ACCOUNT];
+    if (tradingHalt) {
+      strategy.active = false;
+      strategy.state.lastError = "Paused on restart: trading is halted";
+    } else if (account && canTrade(account)) {
+      startStrategy(strategy, strategyContext(strategy));
+    } else {
+      strategy.active = false;
+      strategy.state.lastError = "Paused on restart: no unlocked private key";
+    }
+  });
+}
+
+/**
+ * Handler for listing available resources
+ * Exposes account information and strategies as resources
+ */
+async function handleListResources() {
+  const resources = [];
+
+  // Only add account resources if the active account has credentials
+  const active = accounts[activeAccountName];
+  if (active && hasCredentials(active)) {
+    resources.push({
+      uri: "hyperliquid://account",
+      mimeType: "application/json",
+      name: "Hyperliquid Account",
+      description: `Information for the active account (${active.name}) from Hyperliquid`
+    });
+    resources.push({
+      uri: "hyperliquid://orders",
+      mimeType: "application/json",
+      name: "Open Orders",
+      description: "Open orders with trigger details. Accepts ?coin=&limit="
+    });
+    resources.push({
+      uri: "hyperliquid://fills",
+      mimeType: "application/json",
+      name: "Fills",
+      description: "Fills from the last 24 hours. Accepts ?coin=&since=&until=&limit= for other ranges and pages"
+    });
+    resources.push({
+      uri: "hyperliquid://funding",
+      mimeType: "application/json",
+      name: "Funding Payments",
+      description: "Funding payments from the last 24 hours. Accepts ?coin=&since=&until=&limit="
+    });
+    resources.push({
+      uri: "hyperliquid://pnl",
+      mimeType: "application/json",
+      name: "PnL",
+      description: "Realized PnL per coin and per day over the last 7 days, plus unrealized PnL. Accepts ?coin=&since=&until="
+    });
+  }
+
+  // Add every logged-in account under its own name
+  Object.values(accounts).filter(hasCredentials).forEach((account) => {
+    resources.push({
+      uri: `hyperliquid://account/${account.name}`,
+      mimeType: "application/json",
+      name: `Hyperliquid Account ${account.name}`,
+      description: `Information for account ${account.name} on ${getNetworkName(account)}. ` +
+        `Its orders, fills, funding and pnl are at hyperliquid://orders/${account.name} and so on`
+    });
+  });
+
+  // Add strategies as resources
+  Object.entries(strategies).forEach(([id, strategy]) => {
+    resources.push({
+      uri: `hyperliquid://strategy/${id}`,
+      mimeType: "application/json",
+      name: strategy.name,
+      description: `Trading strategy: ${strategy.description}`
+    });
+  });
+
+  // Add execution jobs as resources
+  Object.values(executions).forEach((job) => {
+    resources.push({
+      uri: `hyperliquid://execution/${job.id}`,
+      mimeType: "application/json",
+      name: `${job.params.algo.toUpperCase()} ${job.params.side} ${job.params.size} ${job.params.symbol}`,
+      description: `Execution on account ${job.account} (${job.status}): filled quantity, average price against the arrival price, and remaining slices`
+    });
+  });
+
+  // Alerts and the events they fired
+  resources.push({
+    uri: "hyperliquid://alerts",
+    mimeType: "application/json",
+    name: "Alerts",
+    description: "Alerts with their latest readings, and the events they fired, newest first. Subscribe to be told when one fires"
+  });
+
+  // Add backtest results as resources
+  Object.values(backtests).forEach((backtest) => {
+    resources.push({
+      uri: `hyperliquid://backtest/${backtest.id}`,
+      mimeType: "application/json",
+      name: `Backtest of ${backtest.strategyName}`,
+      description: `Backtest of strategy ${backtest.strategyId} over ${backtest.candles} candles from ${backtest.source}`
+    });
+  });
+
+  return { resources };
+}
+
+/**
+ * Read a resource as JSON text
+ * Returns account information or strategy details
+ */
+async function readResource(uri: string): Promise<string> {
+  const accountResource = parseAccountResource(uri);
+  
+  // Handle account resource
+  if (accountResource?.view === "account") {
+    const account = getAccount(accountResource.account);
+    const client = requireClient(account);
+
+    try {
+      await client.connect();
+      
+      // Get account information
+      let accountInfo: any = {};
+      
+      const walletAddress = getWalletAddress(account);
+      
+      if (walletAddress) {
+        // Get clearinghouse state for perpetuals
+        const perpState = await client.info.perpetuals.getClearinghouseState(
+          walletAddress
+        );
+        
+        // Get spot clearinghouse state if available
+        let spotState = null;
+        try {
+          spotState = await client.info.spot.getSpotClearinghouseState(
+            walletAddress
+          );
+          
+          // Get spot meta and asset contexts to get price information
+          if (spotState && spotState.balances && spotState.balances.length > 0) {
+            const priceMap = await spotPriceMap(client);
+            
+            // Add price and USD value to each balance
+            spotState.balances = spotState.balances.map((balance: any) => {
+              const tokenAmount = parseFloat(balance.total);
+              const price = priceMap[balance.coin] || 0;
+              const usdValue = tokenAmount * price;
+              
+              return {
+                ...balance,
+                price: price.toString(),
+                usdValue: usdValue.toString()
+              };
+            });
+          }
+        } catch (error) {
+          // Spot might not be available, ignore error
+          console.error("Error fetching spot data:", error);
+        }
+        
+        accountInfo = {
+          account: account.name,
+          perpetuals: perpState,
+          spot: spotState,
+          network: getNetworkName(account)
+        };
+      }
+
+      return JSON.stringify(accountInfo, null, 2);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to fetch account information: ${errorMessage}`
+      );
+    }
+  }
+  
+  // Handle account history resources, which take their tool's filters as query parameters
+  if (accountResource) {
+    const params = new URLSearchParams(accountResource.query);
+    const result = await readAccountView(
+      getAccount(accountResource.account),
+      accountResource.view as AccountView,
+      Object.fromEntries(params)
+    );
+    
+    return JSON.stringify(result, null, 2);
+  }
+  
+  // Handle order book resources, served from the live feed while subscribed
+  if (uri.startsWith("hyperliquid://book/")) {
+    const symbol = decodeURIComponent(uri.replace("hyperliquid://book/", ""));
+    const account = getAccount();
+    const client = requireClient(account);
+    
+    try {
+      const market = await findMarket(account, symbol);
+      const feed = resourceFeeds.get(uri);
+      const liveBook = feed && isFeedLive(uri) ? liveBooks.get(`${feed.key} ${feed.coin}`) : undefined;
+      const book = liveBook ?? await client.info.getL2Book(market?.symbol ?? symbol);
+      
+      return JSON.stringify(formatBook(market?.symbol ?? symbol, book, Boolean(liveBook)), null, 2);
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to fetch order book: ${errorMessage}`
+      );
+    }
+  }
+  
+  // Handle strategy resources
+  if (uri.startsWith("hyperliquid://strategy/")) {
+    const strategyId = uri.replace("hyperliquid://strategy/", "");
+    const strategy = strategies[strategyId];
+    
+    if (!strategy) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Strategy ${strategyId} not found`
+      );
+    }
+    
+    // Subscribed strategies also carry the live mid price of their symbol
+    const feed = resourceFeeds.get(uri);
+    const mid = feed && isFeedLive(uri) ? liveMids.get(feed.key)?.[feed.coin!] : undefined;
+    const midPrice = mid !== undefined ? Number(mid) : undefined;
+    
+    return JSON.stringify(midPrice !== undefined ? { ...strategy, midPrice } : strategy, null, 2);
+  }
+  
+  // Handle execution resources
+  if (uri.startsWith("hyperliquid://execution/")) {
+    const executionId = uri.replace("hyperliquid://execution/", "");
+    const job = executions[executionId];
+    
+    if (!job) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Execution ${executionId} not found`
+      );
+    }
+    
+    return JSON.stringify(executionReport(job), null, 2);
+  }
+  
+  // Handle the alerts resource
+  if (uri === "hyperliquid://alerts") {
+    return JSON.stringify({
+      alerts: Object.values(alerts).map((alert) => ({ ...alert, description: describeAlert(alert) })),
+      events: [...alertEvents].reverse()
+    }, null, 2);
+  }
+  
+  // Handle backtest resources
+  if (uri.startsWith("hyperliquid://backtest/")) {
+    const backtestId = uri.replace("hyperliquid://backtest/", "");
+    const backtest = backtests[backtestId];
+    
+    if (!backtest) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Backtest ${backtestId} not found`
+      );
+    }
+    
+    return JSON.stringify(backtest, null, 2);
+  }
+  
+  throw new McpError(
+    ErrorCode.InvalidRequest,
+    `Resource not found: ${uri}`
+  );
+}
+
+/**
+ * Live feeds behind subscribed resources
+ * While its feed connection is up, a subscribed account resource is served
+ * from a snapshot that feed events invalidate, and books and mids come from
+ * the feed itself, instead of polling the REST API on every read
+ * Market feeds share one connection per network. The exchange does not say
+ * which user an account event belongs to, so each wallet gets its own
+ * Subscriptions are kept per resource with the sessions subscribed to it
+ */
+const subscribedResources = new Map<string, Set<Server>>();
+const resourceSnapshots = new Map<string, string>();
+const resourceFeeds = new Map<string, { key: string; coin?: string }>();
+const liveBooks = new Map<string, any>();
+const liveMids = new Map<string, { [coin: string]: string }>();
+let snapshotGeneration = 0;
+const pendingNotifications = new Set<string>();
+const feedConnections = new Map<string, FeedConnection>();
+let feedSync: Promise<void> = Promise.resolve();
+const NOTIFY_INTERVAL_MS = 1000;
+
+/**
+ * Account feeds behind each account resource
+ */
+const ACCOUNT_RESOURCE_FEEDS: { [view: string]: ("userEvents" | "orderUpdates")[] } = {
+  account: ["userEvents", "orderUpdates"],
+  orders: ["orderUpdates"],
+  fills: ["userEvents"],
+  funding: ["userEvents"],
+  pnl: ["userEvents"]
+};
+const ACCOUNT_RESOURCE_VIEWS = Object.keys(ACCOUNT_RESOURCE_FEEDS);
+
+/**
+ * Parse an account resource URI such as hyperliquid://fills/main?coin=BTC
+ * into its view (account, orders, fills, funding or pnl), account name and
+ * query. URIs without a name belong to the active account
+ */
+function parseAccountResource(uri: string): { view: string; account: string; query: string } | undefined {
+  const match = /^hyperliquid:\/\/(account|orders|fills|funding|pnl)(?:\/([^/?]+))?(?:\?(.*))?$/.exec(uri);
+  if (!match) {
+    return undefined;
+  }
+  return {
+    view: match[1],
+    account: match[2] ? decodeURIComponent(match[2]) : activeAccountName,
+    query: match[3] ?? ""
+  };
+}
+
+/**
+ * Symbol behind a book or strategy resource
+ */
+function resourceSymbol(uri: string): string | undefined {
+  if (uri.startsWith("hyperliquid://book/")) {
+    return decodeURIComponent(uri.replace("hyperliquid://book/", ""));
+  }
+  if (uri.startsWith("hyperliquid://strategy/")) {
+    return strategies[uri.replace("hyperliquid://strategy/", "")]?.config.symbol;
+  }
+  return undefined;
+}
+
+/**
+ * Whether a resource's feed is connected, so its live data is current
+ */
+function isFeedLive(uri: string): boolean {
+  const feed = resourceFeeds.get(uri);
+  return Boolean(feed && feedConnections.get(feed.key)?.connected);
+}
+
+/**
+ * Tell the client a subscribed resource changed
+ * Notifications are coalesced to at most one per resource per second
+ */
+function notifyResourceUpdated(uri: string): void {
+  if (!subscribedResources.has(uri) || pendingNotifications.has(uri)) {
+    return;
+  }
+  
+  pendingNotifications.add(uri);
+  setTimeout(() => {
+    pendingNotifications.delete(uri);
+    subscribedResources.get(uri)?.forEach((session) => {
+      session.sendResourceUpdated({ uri }).catch((error) => {
+        console.error(`Failed to notify update of ${uri}:`, error);
+      });
+    });
+  }, NOTIFY_INTERVAL_MS);
+}
+
+/**
+ * Drop the snapshots of subscribed account resources showing any of these
+ * views and notify their subscribers
+ * Limited to one account's resources, or to those behind one feed, if given
+ */
+function accountResourcesChanged(views: string[], account?: Account, feedKey?: string): void {
+  snapshotGeneration++;
+  for (const uri of subscribedResources.keys()) {
+    const resource = parseAccountResource(uri);
+    if (resource && views.includes(resource.view) &&
+        (!account || resource.account === account.name) &&
+        (!feedKey || resourceFeeds.get(uri)?.key === feedKey)) {
+      resourceSnapshots.delete(uri);
+      notifyResourceUpdated(uri);
+    }
+  }
+}
+
+/**
+ * Route an event from one feed connection to the resources it changes
+ */
+function handleFeedMessage(key: string, channel: string, data: any): void {
+  switch (channel) {
+    case "l2Book":
+      liveBooks.set(`${key} ${data.coin}`, data);
+      resourceFeeds.forEach((feed, uri) => {
+        if (feed.key === key && feed.coin === data.coin && uri.startsWith("hyperliquid://book/")) {
+          notifyResourceUpdated(uri);
+        }
+      });
+      break;
+    case "allMids": {
+      const previous = liveMids.get(key) ?? {};
+      resourceFeeds.forEach((feed, uri) => {
+        if (feed.key === key && uri.startsWith("hyperliquid://strategy/") && data.mids[feed.coin!] !== previous[feed.coin!]) {
+          notifyResourceUpdated(uri);
+        }
+      });
+      liveMids.set(key, data.mids);
+      break;
+    }
+    case "orderUpdates":
+      accountResourcesChanged(["account", "orders"], undefined, key);
+      break;
+    // userEvents arrive on the user channel
+    case "user":
+    case "userEvents":
+      accountResourcesChanged("funding" in data
+        ? ["account", "funding", "pnl"]
+        : ["account", "orders", "fills", "pnl"], undefined, key);
+      break;
+  }
+}
+
+/**
+ * Refetch the subscribed account resources behind a feed after it
+ * reconnects, since events sent while it was down were missed
+ * Books and mids need no refetch: the exchange resends them in full on
+ * resubscribe
+ */
+async function resyncResources(key: string): Promise<void> {
+  for (const uri of [...subscribedResources.keys()]) {
+    if (!parseAccountResource(uri) || resourceFeeds.get(uri)?.key !== key) {
+      continue;
+    }
+    
+    try {
+      const text = await readResource(uri);
+      if (text !== resourceSnapshots.get(uri)) {
+        resourceSnapshots.set(uri, text);
+        notifyResourceUpdated(uri);
+      }
+    } catch (error) {
+      resourceSnapshots.delete(uri);
+      notifyResourceUpdated(uri);
+    }
+  }
+}
+
+/**
+ * Open exactly the feeds that subscribed resources need for the logged-in
+ * accounts, one update at a time
+ * Paper accounts get no exchange events and recorded books never change,
+ * so neither opens a feed
+ */
+function syncFeeds(): Promise<void> {
+  feedSync = feedSync.then(updateFeeds).catch((error) => {
+    console.error("Failed to update feeds:", error);
+  });
+  return feedSync;
+}
+
+async function updateFeeds(): Promise<void> {
+  const wanted = new Map<string, { url: string; subscriptions: FeedSubscription[] }>();
+  const want = (key: string, url: string, subscription: FeedSubscription) => {
+    const feed = wanted.get(key) ?? { url, subscriptions: [] };
+    feed.subscriptions.push(subscription);
+    wanted.set(key, feed);
+  };
+  resourceFeeds.clear();
+  
+  for (const uri of subscribedResources.keys()) {
+    const resource = parseAccountResource(uri);
+    if (resource) {
+      const account = accounts[resource.account];
+      const user = account && !account.credentials.paper ? getWalletAddress(account)?.toLowerCase() : undefined;
+      if (account && user) {
+        const url = feedUrl(account.credentials.testnet);
+        const key = `${url} ${user}`;
+        resourceFeeds.set(uri, { key });
+        ACCOUNT_RESOURCE_FEEDS[resource.view].forEach((type) => want(key, url, { type, user }));
+      }
+      continue;
+    }
+    
+    // Books use the active account's network, strategies their own account's
+    const strategy = strategies[uri.replace("hyperliquid://strategy/", "")];
+    const account = accounts[uri.startsWith("hyperliquid://strategy/")
+      ? strategy?.account ?? DEFAULT_ACCOUNT
+      : activeAccountName];
+    const symbol = resourceSymbol(uri);
+    if (!symbol || !account || !hasCredentials(account) || account.credentials.paperSnapshots) {
+      continue;
+    }
+    
+    try {
+      const coin = (await findMarket(account, symbol))?.exchangeName ?? symbol;
+      const url = feedUrl(account.credentials.testnet);
+      resourceFeeds.set(uri, { key: url, coin });
+      want(url, url, uri.startsWith("hyperliquid://book/") ? { type: "l2Book", coin } : { type: "allMids" });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`No live feed for ${uri}:`, errorMessage);
+    }
+  }
+  
+  // Close connections no longer needed, and drop data that would go stale
+  feedConnections.forEach((connection, key) => {
+    if (!wanted.has(key)) {
+      connection.close();
+      feedConnections.delete(key);
+      liveMids.delete(key);
+    }
+  });
+  const liveBookKeys = new Set(Array.from(resourceFeeds.values(), (feed) => `${feed.key} ${feed.coin}`));
+  liveBooks.forEach((_, bookKey) => {
+    if (!liveBookKeys.has(bookKey)) {
+      liveBooks.delete(bookKey);
+    }
+  });
+  
+  wanted.forEach(({ url, subscriptions }, key) => {
+    let connection = feedConnections.get(key);
+    if (!connection) {
+      connection = new FeedConnection(url, {
+        onMessage: (channel, data) => handleFeedMessage(key, channel, data),
+        onResync: () => {
+          resyncResources(key).catch((error) => console.error("Failed to resync resources:", error));
+        }
+      });
+      feedConnections.set(key, connection);
+    }
+    connection.setSubscriptions(subscriptions);
+  });
+}
+
+/**
+ * Follow a login, logout or account switch: account resources are
+ * refetched and feeds are reopened for the accounts now logged in
+ */
+function loginChanged(): void {
+  accountResourcesChanged(ACCOUNT_RESOURCE_VIEWS);
+  syncFeeds();
+}
+
+/**
+ * Handler for reading resources
+ * Subscribed account resources are served from their snapshot while the
+ * feed is connected
+ */
+async function handleReadResource(request: ReadResourceRequest) {
+  const uri = request.params.uri;
+  
+  let text = isFeedLive(uri) ? resourceSnapshots.get(uri) : undefined;
+  if (text === undefined) {
+    const generation = snapshotGeneration;
+    text = await readResource(uri);
+    
+    // Keep the snapshot only if no event arrived while it was being fetched
+    if (subscribedResources.has(uri) && parseAccountResource(uri) && generation === snapshotGeneration) {
+      resourceSnapshots.set(uri, text);
+    }
+  }
+  
+  return {
+    contents: [{
+      uri,
+      mimeType: "application/json",
+      text
+    }]
+  };
+}
+
+/**
+ * Handler for subscribing to resource updates
+ * Reading the resource first rejects unknown URIs and seeds its snapshot
+ */
+async function handleSubscribe(session: Server, request: SubscribeRequest) {
+  const uri = request.params.uri;
+  const generation = snapshotGeneration;
+  const text = await readResource(uri);
+  
+  subscribedResources.set(uri, (subscribedResources.get(uri) ?? new Set()).add(session));
+  if (parseAccountResource(uri) && generation === snapshotGeneration) {
+    resourceSnapshots.set(uri, text);
+  }
+  await syncFeeds();
+  
+  return {};
+}
+
+/**
+ * Handler for unsubscribing from resource updates
+ */
+async function handleUnsubscribe(session: Server, request: UnsubscribeRequest) {
+  const uri = request.params.uri;
+  const sessions = subscribedResources.get(uri);
+  
+  sessions?.delete(session);
+  if (!sessions?.size) {
+    subscribedResources.delete(uri);
+    resourceSnapshots.delete(uri);
+  }
+  await syncFeeds();
+  
+  return {};
+}
+
+/**
+ * Drop a closed session's subscriptions, closing feeds nobody needs any more
+ */
+function dropSession(session: Server): void {
+  sessions.delete(session);
+  subscribedResources.forEach((sessions, uri) => {
+    sessions.delete(session);
+    if (!sessions.size) {
+      subscribedResources.delete(uri);
+      resourceSnapshots.delete(uri);
+    }
+  });
+  syncFeeds();
+}
+
+/**
+ * Queue the next alert check while any alert is active
+ * Checks are chained with setTimeout so they never overlap
+ */
+function scheduleAlertCheck(): void {
+  if (alertTimer || !Object.values(alerts).some((alert) => alert.active)) {
+    return;
+  }
+  
+  alertTimer = setTimeout(async () => {
+    try {
+      await checkAlerts();
+    } catch (error) {
+      console.error("Alert check failed:", error);
+    }
+    alertTimer = null;
+    scheduleAlertCheck();
+  }, ALERT_CHECK_INTERVAL_MS);
+}
+
+/**
+ * Check every active alert against live market and account data and fire
+ * those whose condition was met
+ * Alerts on accounts that are not logged in wait, with the reason recorded
+ */
+async function checkAlerts(): Promise<void> {
+  const active = Object.values(alerts).filter((alert) => alert.active);
+  
+  for (const alert of active) {
+    try {
+      const account = accounts[alert.account];
+      if (!account || !hasCredentials(account)) {
+        throw new Error(`Account ${alert.account} is not logged in`);
+      }
+      
+      const client = requireClient(account);
+      await client.connect();
+      const market = alert.symbol ? await findMarket(account, alert.symbol) : undefined;
+      const value = await readAlertValue(client, getWalletAddress(account), alert, market);
+      if (evaluateAlert(alert, value)) {
+        await triggerAlert(alert, fireAlert(alert, value!));
+      }
+    } catch (error) {
+      alert.state.lastError = error instanceof Error ? error.message : String(error);
+    }
+  }
+  
+  if (active.length) {
+    persistAlerts();
+  }
+}
+
+/**
+ * Run a fired alert's action, record the event and tell every client
+ * Actions run through the same tools an agent would call, so they are
+ * risk-checked and journaled with the alert as their source
+ */
+async function triggerAlert(alert: Alert, event: AlertEvent): Promise<void> {
+  if (alert.action !== "notify") {
+    const tool = alert.action === "cancel_all"
+      ? "cancel_all_orders"
+      : alert.symbol ? "close_position" : "close_all_positions";
+    const outcome: any = await runInternalTool(
+      tool,
+      alert.symbol ? { account: alert.account, symbol: alert.symbol } : { account: alert.account },
+      "alert"
+    );
+    event.actionStatus = outcome.status;
+    event.actionResult = outcome.status === "ok" ? outcome.response : outcome.error;
+  }
+  
+  alertEvents = [...alertEvents, event].slice(-MAX_ALERT_EVENTS);
+  persistAlerts();
+  notifyResourceUpdated("hyperliquid://alerts");
+  
+  sessions.forEach((level, session) => {
+    if (LOG_LEVELS.indexOf(level) > LOG_LEVELS.indexOf("alert")) {
+      return;
+    }
+    session.sendLoggingMessage({ level: "alert", logger: "hyperliquid-alerts", data: event }).catch((error) => {
+      console.error(`Failed to send alert ${alert.id}:`, error);
+    });
+  });
+}
+
+/**
+ * Input schema properties shared by the order tools
+ */
+const ORDER_PROPERTIES = {
+  symbol: {
+    type: "string",
+    description: "Symbol to trade (e.g., BTC-PERP, ETH-SPOT)"
+  },
+  side: {
+    type: "string",
+    enum: ["buy", "sell"],
+    description: "Order side (buy or sell)"
+  },
+  size: {
+    type: "number",
+    exclusiveMinimum: 0,
+    description: "Order size"
+  },
+  orderType: {
+    type: "string",
+    enum: ORDER_KINDS,
+    description: "Order type: limit, market (IOC limit at mid price plus slippage) or trigger (stop-loss/take-profit)"
+  },
+  price: {
+    type: "number",
+    minimum: 0,
+    description: "Limit price. Required for limit orders and trigger orders with isMarket: false"
+  },
+  tif: {
+    type: "string",
+    enum: TIME_IN_FORCE,
+    description: "Time in force for limit orders: Gtc (default), Ioc or Alo (post-only)"
+  },
+  triggerPrice: {
+    type: "number",
+    exclusiveMinimum: 0,
+    description: "Trigger orders: price that activates the order"
+  },
+  tpsl: {
+    type: "string",
+    enum: ["tp", "sl"],
+    description: "Trigger orders: tp for take-profit, sl for stop-loss"
+  },
+  isMarket: {
+    type: "boolean",
+    description: "Trigger orders: execute as a market order once triggered (default true)"
+  },
+  slippage: {
+    type: "number",
+    minimum: 0,
+    description: "Maximum slippage for market orders and market triggers as a fraction of the reference price (default 0.05)"
+  },
+  reduceOnly: {
+    type: "boolean",
+    description: "Whether the order is reduce-only"
+  },
+  cloid: {
+    type: "string",
+    description: "Client order ID: 0x followed by 32 hex characters"
+  }
+};
+
+/**
+ * Input schema properties shared by the cancel tools
+ */
+const CANCEL_PROPERTIES = {
+  symbol: {
+    type: "string",
+    description: "Symbol of the order to cancel"
+  },
+  orderId: {
+    type: "string",
+    description: "ID of the order to cancel"
+  },
+  cloid: {
+    type: "string",
+    description: "Client order ID of the order to cancel, used instead of orderId"
+  }
+};
+
+/**
+ * Input schema properties shared by the account history tools
+ */
+const ACCOUNT_FILTER_PROPERTIES = {
+  coin: {
+    type: "string",
+    description: "Only include this coin (e.g., BTC, ETH-PERP, PURR/USDC)"
+  },
+  since: {
+    type: ["string", "number"],
+    description: "Start of the time range: epoch milliseconds, a date (e.g., 2024-05-01), a duration before now (e.g., 24h, 7d), or today/yesterday for UTC midnight"
+  },
+  until: {
+    type: ["string", "number"],
+    description: "End of the time range, in the same formats as since (default now)"
+  },
+  limit: {
+    type: "integer",
+    minimum: 1,
+    description: "Maximum number of entries to return (default 100, max 2000)"
+  }
+};
+
+/**
+ * Input schema properties shared by the journal tools
+ */
+const JOURNAL_FILTER_PROPERTIES = {
+  since: ACCOUNT_FILTER_PROPERTIES.since,
+  until: ACCOUNT_FILTER_PROPERTIES.until,
+  tool: {
+    type: ["string", "array"],
+    items: { type: "string" },
+    description: "Only include calls to these tools (e.g., place_order or place_order,cancel_order)"
+  },
+  symbol: {
+    type: "string",
+    description: "Only include calls that refer to this symbol (e.g., BTC matches BTC, BTC-PERP and BTC/USDC)"
+  },
+  strategyId: {
+    type: "string",
+    description: "Only include calls about this strategy"
+  },
+  account: {
+    type: "string",
+    description: "Only include calls made on this account"
+  },
+  status: {
+    type: "string",
+    enum: ["ok", "error"],
+    description: "Only include calls that succeeded (ok) or failed (error)"
+  }
+};
+
+/**
+ * Input schema property confirming a send or withdrawal
+ */
+const TRANSFER_CONFIRM_PROPERTY = {
+  type: "string",
+  description: "Confirmation token returned by the first call. Repeat the same transfer with this token to send it"
+};
+
+/**
+ * Input schema property naming the account a tool acts on
+ */
+const ACCOUNT_PROPERTY = {
+  account: {
+    type: "string",
+    description: "Name of the account to use (default: the active account)"
+  }
+};
+
+/**
+ * Tool registry
+ * Each tool declares its input schema once, next to the handler that runs
+ * it: the schema is listed to clients as is and every call is validated
+ * against it before the handler runs
+ */
+const TOOLS: Tool[] = [
+  // Authentication tool
+  {
+    name: "authenticate",
+    description: "Authenticate with Hyperliquid using private key or wallet address. The login is saved as a named account, which becomes the active account",
+    inputSchema: {
+      type: "object",
+      properties: {
+        account: {
+          type: "string",
+          description: "Name to save this login under, e.g. main, sub1 or vault (default: the active account, initially \"default\"). Re-authenticating an account replaces its login"
+        },
+        privateKey: {
+          type: "string",
+          description: "Private key for authentication (optional if walletAddress is provided). An agent wallet key signs for walletAddress; prefer create_agent_wallet over passing the master key"
+        },
+        walletAddress: {
+          type: "string",
+          description: "Wallet address for authentication (optional if privateKey is provided). On its own the account is read-only"
+        },
+        testnet: {
+          type: "boolean",
+          description: "Whether to use testnet (default: true)"
+        },
+        paper: {
+          type: "boolean",
+          description: "Paper trading: orders go to a local simulated exchange instead of Hyperliquid. " +
+            "Market data comes from testnet or mainnet according to testnet (default: false)"
+        },
+        paperBalance: {
+          type: "number",
+          minimum: 0,
+          description: "Reset the paper account with this much USDC (optional, paper mode only; new accounts start with 10000)"
+        },
+        paperSnapshots: {
+          type: "string",
+          description: "Path to a JSON file of recorded L2 book snapshots keyed by symbol, used instead of live books in paper mode (optional)"
+        },
+        vaultAddress: {
+          type: "string",
+          description: "Vault or sub-account address to trade for with the private key (optional)"
+        },
+        passphrase: {
+          type: "string",
+          description: "Passphrase used to save the private key encrypted on disk, or to unlock the account's saved key when no privateKey or walletAddress is given (optional)"
+        }
+      }
+    },
+    handler: async (args) => {
+      const name = args.account !== undefined ? parseAccountName(args.account) : activeAccountName;
+      let privateKey = args.privateKey as string | undefined;
+      let walletAddress = args.walletAddress as string | undefined;
+      let testnet = args.testnet !== undefined ? Boolean(args.testnet) : true;
+      let vaultAddress = args.vaultAddress as string | undefined;
+      const paper = args.paper !== undefined ? Boolean(args.paper) : false;
+      const paperBalance = args.paperBalance !== undefined ? Number(args.paperBalance) : undefined;
+      const paperSnapshots = args.paperSnapshots as string | undefined;
+      const passphrase = (args.passphrase as string | undefined) || getEnvPassphrase();
+      const unlocking = !privateKey && !walletAddress && !!passphrase && hasKeystore(name);
+      let agentName: string | undefined;
+      
+      // Unlock the account's saved private key when only a passphrase is given
+      if (unlocking) {
+        try {
+          privateKey = await loadKeystore(name, passphrase!);
+        } catch (error) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            "Failed to unlock the saved private key. Check the passphrase"
+          );
+        }
+        
+        const stored = loadAccounts().accounts[name];
+        walletAddress = stored?.walletAddress;
+        testnet = args.testnet !== undefined ? Boolean(args.testnet) : stored?.testnet ?? true;
+        vaultAddress = vaultAddress ?? stored?.vaultAddress;
+        agentName = stored?.agentName;
+      }
+      
+      // Validate inputs
+      if (!privateKey && !walletAddress && !paper) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "Either privateKey or walletAddress must be provided"
+        );
+      }
+      
+      if (paperBalance !== undefined && (!paper || !Number.isFinite(paperBalance) || paperBalance < 0)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "paperBalance must be a non-negative number and requires paper: true"
+        );
+      }
+      
+      if (paperSnapshots) {
+        try {
+          loadBookSnapshots(paperSnapshots);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Failed to load paper book snapshots: ${errorMessage}`
+          );
+        }
+      }
+      
+      // Validate private key format if provided; a key for another address
+      // than walletAddress is an agent wallet signing for it
+      let agentAddress: string | undefined;
+      if (privateKey) {
+        let signer: string;
+        try {
+          const formattedPrivateKey = privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`;
+          signer = new ethers.Wallet(formattedPrivateKey).address;
+        } catch (error) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            "Invalid private key format"
+          );
+        }
+        if (walletAddress && signer.toLowerCase() !== walletAddress.toLowerCase()) {
+          agentAddress = signer;
+        }
+      }
+      
+      // Store credentials; a paper account keeps its balance unless reset
+      const previous = accounts[name];
+      const account = createAccount(name, {
+        privateKey,
+        walletAddress,
+        testnet,
+        vaultAddress,
+        paper: paper || undefined,
+        paperSnapshots: paper ? paperSnapshots : undefined,
+        agentAddress: paper ? undefined : agentAddress,
+        agentName: paper || !agentAddress ? undefined : agentName
+      });
+      account.paperState = previous?.paperState ?? null;
+      
+      if (paperBalance !== undefined) {
+        account.paperState = createPaperState(paperBalance);
+        persistPaperState(account, account.paperState);
+      }
+      
+      // Initialize client
+      account.client = initializeClient(account);
+      
+      if (!account.client) {
+        throw new McpError(
+          ErrorCode.InternalError,
+          "Failed to initialize Hyperliquid client"
+        );
+      }
+      
+      if (previous?.client) {
+        try {
+          previous.client.disconnect();
+        } catch (error) {
+          console.error("Failed to disconnect Hyperliquid client:", error);
+        }
+      }
+      accounts[name] = account;
+      activeAccountName = name;
+      loginChanged();
+      
+      // Persist the login; the private key is only saved when encrypted
+      let storageNote = "";
+      try {
+        saveAccount(name, account.credentials);
+        saveActiveAccount(name);
+        
+        if (!unlocking) {
+          if (privateKey && passphrase) {
+            await saveKeystore(name, privateKey, passphrase);
+            storageNote = ". Private key saved encrypted";
+          } else if (privateKey || walletAddress) {
+            clearKeystore(name);
+            if (privateKey) {
+              storageNote = ". Private key kept in memory only; pass a passphrase to save it encrypted";
+            }
+          }
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        storageNote = `. Failed to save credentials: ${errorMessage}`;
+      }
+      
+      const modeNote = accessMode(account) === "read-only"
+        ? ". Read-only: queries work but trading needs an agent wallet (create_agent_wallet)"
+        : accessMode(account) === "agent" ? `. Signing with agent wallet ${account.credentials.agentAddress}` : "";
+      
+      return {
+        content: [{
+          type: "text",
+          text: `Successfully authenticated account ${name} with Hyperliquid ${getNetworkName(account)}${modeNote}${storageNote}`
+        }]
+      };
+    }
+  },
+  
+  {
+    name: "logout",
+    description: "Forget an account's login for this session and stop its running strategies. Saved credentials are kept",
+    inputSchema: {
+      type: "object",
+      properties: {
+        account: {
+          type: "string",
+          description: "Account to log out (default: the active account)"
+        }
+      }
+    },
+    handler: async (args) => {
+      const name = args.account !== undefined ? parseAccountName(args.account) : activeAccountName;
+      
+      if (accounts[name]) {
+        logout(accounts[name]);
+      }
+      
+      return {
+        content: [{
+          type: "text",
+          text: `Logged out of account ${name}. Saved credentials were kept and can be unlocked with authenticate`
+        }]
+      };
+    }
+  },
+  
+  {
+    name: "forget_credentials",
+    description: "Log out of an account and delete its saved login and encrypted private key from disk",
+    inputSchema: {
+      type: "object",
+      properties: {
+        account: {
+          type: "string",
+          description: "Account to forget (default: the active account)"
+        }
+      }
+    },
+    handler: async (args) => {
+      const name = args.account !== undefined ? parseAccountName(args.account) : activeAccountName;
+      
+      if (accounts[name]) {
+        logout(accounts[name]);
+      }
+      
+      try {
+        deleteAccount(name);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Logged out but failed to delete saved credentials: ${errorMessage}`
+        );
+      }
+      
+      return {
+        content: [{
+          type: "text",
+          text: `Logged out of account ${name} and deleted its saved credentials`
+        }]
+      };
+    }
+  },
+  
+  {
+    name: "list_accounts",
+    description: "List saved and logged-in accounts with their network, address and whether they can trade",
+    inputSchema: {
+      type: "object",
+      properties: {}
+    },
+    handler: async () => {
+      const stored = loadAccounts();
+      const names = Array.from(new Set([...Object.keys(stored.accounts), ...Object.keys(accounts)])).sort();
+      
+      const list = names.map((name) => {
+        const account = accounts[name] ?? createAccount(name, stored.accounts[name]);
+        const locked = !account.credentials.privateKey && hasKeystore(name);
+        
+        return {
+          name,
+          active: name === activeAccountName,
+          loggedIn: Boolean(accounts[name]) && hasCredentials(account),
+          network: getNetworkName(account),
+          walletAddress: getWalletAddress(account),
+          vaultAddress: account.credentials.vaultAddress,
+          access: account.credentials.paper ? "paper"
+            : account.credentials.privateKey ? (account.credentials.agentAddress ? "trading (agent wallet)" : "trading")
+            : locked ? "locked (authenticate with a passphrase to unlock the saved key)"
+            : account.credentials.walletAddress ? "read-only"
+            : "none",
+          agent: account.credentials.agentAddress
+            ? { address: account.credentials.agentAddress, name: account.credentials.agentName }
+            : undefined,
+          saved: name in stored.accounts,
+          strategies: Object.values(strategies).filter((strategy) => (strategy.account ?? DEFAULT_ACCOUNT) === name).length
+        };
+      });
+      
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({ active: activeAccountName, accounts: list }, null, 2)
+        }]
+      };
+    }
+  },
+  
+  {
+    name: "create_agent_wallet",
+    description: "Generate an agent (API) wallet for an account so it can trade without the master private key. " +
+      "Returns the approval the master account must sign; finish with approve_agent",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...ACCOUNT_PROPERTY,
+        name: {
+          type: "string",
+          description: "Agent name, at most 16 characters (default: mcp). Approving a new agent under an existing name replaces it"
+        }
+      }
+    },
+    handler: async (args) => {
+      const account = getAccount(args.account);
+      const masterAddress = requireMasterAddress(account);
+      const agentName = parseAgentName(args.name);
+      
+      const agent = generateAgentWallet();
+      const action = buildApproveAgent(agent.address, agentName, isMainnet(account));
+      pendingAgents.set(account.name, { agent, action });
+      
+      return approvalResponse(
+        account,
+        masterAddress,
+        action,
+        `node build/index.js approve-agent --agent ${agent.address} --name "${agentName}"${isMainnet(account) ? " --mainnet" : ""}`,
+        "call approve_agent"
+      );
+    }
+  },
+  
+  {
+    name: "approve_agent",
+    description: "Finish approving the agent wallet from create_agent_wallet, then trade with it on behalf of the master address",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...ACCOUNT_PROPERTY,
+        signature: {
+          type: "string",
+          description: "The master wallet's signature of the approval payload. Omit it if the approval was signed with the approve-agent command"
+        },
+        passphrase: {
+          type: "string",
+          description: "Passphrase to save the agent key encrypted on disk (optional; otherwise it is kept in memory only)"
+        }
+      }
+    },
+    handler: async (args) => {
+      const account = getAccount(args.account);
+      const masterAddress = requireMasterAddress(account);
+      const pending = pendingAgents.get(account.name);
+      const passphrase = (args.passphrase as string | undefined) || getEnvPassphrase();
+      
+      if (!pending) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `No agent wallet is waiting for approval on account ${account.name}. Use create_agent_wallet first`
+        );
+      }
+      
+      try {
+        if (args.signature) {
+          await submitApproval(pending.action, String(args.signature), masterAddress);
+        } else {
+          const agents = await listAgents(requireClient(account), masterAddress);
+          if (!agents.some((agent) => agent.address.toLowerCase() === pending.agent.address.toLowerCase())) {
+            throw new McpError(
+              ErrorCode.InvalidRequest,
+              `Agent ${pending.agent.address} is not approved yet. Pass the signed payload as signature, or run the approve-agent command first`
+            );
+          }
+        }
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to approve agent: ${errorMessage}`
+        );
+      }
+      
+      pendingAgents.delete(account.name);
+      const updated = replaceLogin(account, {
+        ...account.credentials,
+        privateKey: pending.agent.privateKey,
+        walletAddress: masterAddress,
+        agentAddress: pending.agent.address,
+        agentName: pending.action.agentName
+      });
+      
+      // The agent key replaces any saved key; it is only saved when encrypted
+      let storageNote = ". Agent key kept in memory only; pass a passphrase to save it encrypted";
+      try {
+        saveAccount(updated.name, updated.credentials);
+        if (passphrase) {
+          await saveKeystore(updated.name, pending.agent.privateKey, passphrase);
+          storageNote = ". Agent key saved encrypted";
+        } else {
+          clearKeystore(updated.name);
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        storageNote = `. Failed to save credentials: ${errorMessage}`;
+      }
+      
+      return {
+        content: [{
+          type: "text",
+          text: `Agent wallet ${pending.agent.address} ("${pending.action.agentName}") approved for ${masterAddress}. ` +
+            `Account ${updated.name} now trades with it${storageNote}`
+        }]
+      };
+    }
+  },
+  
+  {
+    name: "list_agents",
+    description: "List the agent wallets approved for an account's master address and which one the account signs with",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...ACCOUNT_PROPERTY
+      }
+    },
+    handler: async (args) => {
+      const account = getAccount(args.account);
+      const masterAddress = requireMasterAddress(account);
+      const client = requireClient(account);
+      
+      try {
+        const agents = await listAgents(client, masterAddress);
+        const current = account.credentials.agentAddress?.toLowerCase();
+        const pending = pendingAgents.get(account.name);
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              account: account.name,
+              masterAddress,
+              access: accessMode(account),
+              agents: agents.map((agent) => ({ ...agent, usedByAccount: agent.address.toLowerCase() === current })),
+              pendingApproval: pending
+                ? { address: pending.agent.address, name: pending.action.agentName, expiresAt: new Date(approvalExpiresAt(pending.action)).toISOString() }
+                : undefined
+            }, null, 2)
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to list agents: ${errorMessage}`
+        );
+      }
+    }
+  },
+  
+  {
+    name: "revoke_agent",
+    description: "Revoke an agent wallet. Without a signature, returns the revocation the master account must sign; " +
+      "call again with the signature to send it. Revoking the account's own agent makes the account read-only",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...ACCOUNT_PROPERTY,
+        name: {
+          type: "string",
+          description: "Name of the agent to revoke (default: the account's agent, or mcp)"
+        },
+        signature: {
+          type: "string",
+          description: "The master wallet's signature of the revocation payload"
+        }
+      }
+    },
+    handler: async (args) => {
+      const account = getAccount(args.account);
+      const masterAddress = requireMasterAddress(account);
+      const agentName = parseAgentName(args.name ?? account.credentials.agentName);
+      
+      if (!args.signature) {
+        const action = buildApproveAgent(null, agentName, isMainnet(account));
+        pendingRevocations.set(account.name, action);
+        return approvalResponse(
+          account,
+          masterAddress,
+          action,
+          `node build/index.js revoke-agent --name "${agentName}"${isMainnet(account) ? " --mainnet" : ""}`,
+          "call revoke_agent again"
+        );
+      }
+      
+      const action = pendingRevocations.get(account.name);
+      if (!action || action.agentName !== agentName) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `No revocation of agent "${agentName}" is waiting for a signature. Call revoke_agent without a signature first`
+        );
+      }
+      
+      try {
+        await submitApproval(action, String(args.signature), masterAddress);
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to revoke agent: ${errorMessage}`
+        );
+      }
+      pendingRevocations.delete(account.name);
+      
+      // Without its agent the account can only read
+      let note = "";
+      if (account.credentials.agentAddress && account.credentials.agentName === agentName) {
+        logout(account);
+        const updated = replaceLogin(account, {
+          ...account.credentials,
+          privateKey: undefined,
+          walletAddress: masterAddress,
+          agentAddress: undefined,
+          agentName: undefined
+        });
+        try {
+          saveAccount(updated.name, updated.credentials);
+          clearKeystore(updated.name);
+        } catch (error) {
+          console.error("Failed to save credentials:", error);
+        }
+        note = `. Account ${updated.name} is now read-only and its strategies were stopped`;
+      }
+      
+      return {
+        content: [{
+          type: "text",
+          text: `Revoked agent "${agentName}" of ${masterAddress}${note}`
+        }]
+      };
+    }
+  },
+  
+  {
+    name: "switch_account",
+    description: "Make another account the active account, used by tools and resources that do not name one",
+    inputSchema: {
+      type: "object",
+      properties: {
+        account: {
+          type: "string",
+          description: "Name of the account to switch to"
+        }
+      },
+      required: ["account"]
+    },
+    handler: async (args) => {
+      const name = parseAccountName(args.account);
+      
+      // Accounts logged out this session come back from their saved login
+      if (!accounts[name]) {
+        const stored = loadAccounts().accounts[name];
+        if (!stored) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Unknown account: ${name}. Use list_accounts to see the saved accounts`
+          );
+        }
+        accounts[name] = createAccount(name, stored);
+      }
+      
+      activeAccountName = name;
+      loginChanged();
+      try {
+        saveActiveAccount(name);
+      } catch (error) {
+        console.error("Failed to save the active account:", error);
+      }
+      
+      const account = accounts[name];
+      const note = !canTrade(account) && hasKeystore(name)
+        ? ". Its private key is locked; authenticate with a passphrase to trade"
+        : "";
+      
+      return {
+        content: [{
+          type: "text",
+          text: `Switched to account ${name} on ${getNetworkName(account)}${note}`
+        }]
+      };
+    }
+  },
+  
+  // Market data tools
+  {
+    name: "get_market_data",
+    description: "Get current market data for a specific asset",
+    inputSchema: {
+      type: "object",
+      properties: {
+        symbol: {
+          type: "string",
+          description: "Symbol to get market data for (e.g., BTC, BTC-PERP, PURR/USDC, PURR-SPOT)"
+        },
+        levels: {
+          type: "integer",
+          minimum: 0,
+          description: "Only include this many price levels per side of the order book (default: all, 0 for none)"
+        },
+        analytics: {
+          type: "boolean",
+          description: "Add a summary of the book: spread in bps, depth within each band of the mid, and bid/ask imbalance (default: false)"
+        },
+        depthBps: {
+          type: "array",
+          items: { type: "number", exclusiveMinimum: 0 },
+          description: "Depth bands for the analytics, in basis points from the mid (default: [10, 50, 100])"
+        },
+        ...ACCOUNT_PROPERTY
+      },
+      required: ["symbol"]
+    },
+    handler: async (args) => {
+      const symbol = args.symbol as string;
+      
+      if (!symbol) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "Symbol is required"
+        );
+      }
+      
+      const account = getAccount(args.account);
+      const client = requireClient(account);
+      
+      try {
+        await client.connect();
+        
+        // Get market data
+        const market = await findMarket(account, symbol);
+        const l2Book = await client.info.getL2Book(market?.symbol ?? symbol);
+        const levels = args.levels !== undefined ? Math.max(0, Math.floor(Number(args.levels))) : undefined;
+        
+        const marketData = {
+          symbol: market?.symbol ?? symbol,
+          market,
+          orderBook: levels === undefined || Number.isNaN(levels)
+            ? l2Book
+            : { ...l2Book, levels: l2Book.levels.map((side) => side.slice(0, levels)) },
+          analytics: args.analytics ? analyzeBook(l2Book, parseDepthBps(args.depthBps)) : undefined,
+          timestamp: new Date().toISOString()
+        };
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(marketData, null, 2)
+          }]
+        };
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to fetch market data: ${errorMessage}`
+        );
+      }
+    }
+  },
+  
+  {
+    name: "get_candles",
+    description: "OHLCV candles for a market over a time range, oldest first, with the range's open, close, high, low, change and volume",
+    inputSchema: {
+      type: "object",
+      properties: {
+        symbol: {
+          type: "string",
+          description: "Market symbol (e.g., BTC, ETH-PERP, PURR/USDC)"
+        },
+        interval: {
+          type: "string",
+          enum: CANDLE_INTERVALS,
+          description: "Candle interval (default: 1h)"
+        },
+        since: {
+          ...ACCOUNT_FILTER_PROPERTIES.since,
+          description: ACCOUNT_FILTER_PROPERTIES.since.description + " (default: 100 intervals before until)"
+        },
+        until: ACCOUNT_FILTER_PROPERTIES.until,
+        limit: {
+          type: "integer",
+          minimum: 1,
+          description: "Maximum number of candles to return, keeping the most recent (default 100, max 2000)"
+        },
+        ...ACCOUNT_PROPERTY
+      },
+      required: ["symbol"]
+    },
+    handler: async (args) => {
+      const interval = args.interval !== undefined ? String(args.interval) : "1h";
+      const filter = parseAccountFilter(args, intervalMs(interval) * 100);
+      const account = getAccount(args.account);
+      const client = requireClient(account);
+      
+      try {
+        await client.connect();
+        const market = await requireMarket(account, args.symbol);
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(await getCandles(client, market, interval, filter), null, 2)
+          }]
+        };
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to fetch candles: ${errorMessage}`
+        );
+      }
+    }
+  },
+  
+  {
+    name: "get_funding_history",
+    description: "Hourly funding rates and premiums of a perp over a time range (default the last 24 hours) with the average annualized, plus the predicted next funding on Hyperliquid and other venues",
+    inputSchema: {
+      type: "object",
+      properties: {
+        symbol: {
+          type: "string",
+          description: "Perp market symbol (e.g., BTC, ETH-PERP)"
+        },
+        since: ACCOUNT_FILTER_PROPERTIES.since,
+        until: ACCOUNT_FILTER_PROPERTIES.until,
+        limit: {
+          type: "integer",
+          minimum: 1,
+          description: "Maximum number of funding entries to return, keeping the most recent (default 100, max 2000)"
+        },
+        predicted: {
+          type: "boolean",
+          description: "Include the predicted next funding rates (default: true)"
+        },
+        ...ACCOUNT_PROPERTY
+      },
+      required: ["symbol"]
+    },
+    handler: async (args) => {
+      const filter = parseAccountFilter(args);
+      const account = getAccount(args.account);
+      const client = requireClient(account);
+      
+      try {
+        await client.connect();
+        const market = await requireMarket(account, args.symbol);
+        
+        const result = {
+          ...await getFundingHistory(client, market, filter),
+          predicted: args.predicted !== false ? await getPredictedFunding(client, market) : undefined
+        };
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to fetch funding history: ${errorMessage}`
+        );
+      }
+    }
+  },
+  
+  {
+    name: "get_asset_context",
+    description: "Current context of a market: mark, oracle and mid prices, 24h change and volume, and for perps open interest, funding and premium",
+    inputSchema: {
+      type: "object",
+      properties: {
+        symbol: {
+          type: "string",
+          description: "Market symbol (e.g., BTC, ETH-PERP, PURR/USDC)"
+        },
+        ...ACCOUNT_PROPERTY
+      },
+      required: ["symbol"]
+    },
+    handler: async (args) => {
+      const account = getAccount(args.account);
+      const client = requireClient(account);
+      
+      try {
+        await client.connect();
+        const market = await requireMarket(account, args.symbol);
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(await getAssetContext(client, market), null, 2)
+          }]
+        };
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to fetch asset context: ${errorMessage}`
+        );
+      }
+    }
+  },
+  
+  {
+    name: "get_all_mids",
+    description: "Current mid price of every market, keyed by symbol",
+    inputSchema: {
+      type: "object",
+      properties: {
+        type: {
+          type: "string",
+          enum: ["perp", "spot", "all"],
+          description: "Market type to include (default all)"
+        },
+        symbols: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only include these symbols"
+        },
+        ...ACCOUNT_PROPERTY
+      }
+    },
+    handler: async (args) => {
+      const type = args.type as MarketType | "all" | undefined;
+      const account = getAccount(args.account);
+      const client = requireClient(account);
+      
+      if (type !== undefined && type !== "perp" && type !== "spot" && type !== "all") {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "type must be perp, spot or all"
+        );
+      }
+      
+      try {
+        await client.connect();
+        
+        let symbols: string[] | undefined;
+        if (Array.isArray(args.symbols)) {
+          symbols = [];
+          for (const symbol of args.symbols) {
+            symbols.push((await findMarket(account, String(symbol)))?.symbol ?? String(symbol));
+          }
+        }
+        
+        const mids = Object.fromEntries(
+          Object.entries(await client.info.getAllMids())
+            .filter(([symbol]) =>
+              (!type || type === "all" || symbol.endsWith(type === "perp" ? "-PERP" : "-SPOT")) &&
+              (!symbols || symbols.includes(symbol)))
+            .map(([symbol, mid]) => [symbol, Number(mid)])
+        );
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ count: Object.keys(mids).length, mids, timestamp: new Date().toISOString() }, null, 2)
+          }]
+        };
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to fetch mid prices: ${errorMessage}`
+        );
+      }
+    }
+  },
+  
+  {
+    name: "list_markets",
+    description: "List tradable perp and spot markets with their size/price rules, leverage limits, prices and 24h volume",
+    inputSchema: {
+      type: "object",
+      properties: {
+        type: {
+          type: "string",
+          enum: ["perp", "spot", "all"],
+          description: "Market type to list (default all)"
+        },
+        search: {
+          type: "string",
+          description: "Only markets whose base token or exchange name (e.g., PURR/USDC) contains this text"
+        },
+        sortBy: {
+          type: "string",
+          enum: MARKET_SORTS,
+          description: "Sort order: 24h volume (default), name, open interest, or absolute 24h price change"
+        },
+        limit: {
+          type: "integer",
+          minimum: 1,
+          description: "Maximum number of markets to return (default 50)"
+        },
+        refresh: {
+          type: "boolean",
+          description: "Reload metadata instead of using the cache"
+        },
+        ...ACCOUNT_PROPERTY
+      }
+    },
+    handler: async (args) => {
+      const type = args.type as MarketType | "all" | undefined;
+      const sortBy = args.sortBy as MarketFilter["sortBy"];
+      const limit = args.limit !== undefined ? Number(args.limit) : 50;
+      
+      if (type !== undefined && !["perp", "spot", "all"].includes(type)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "type must be perp, spot or all"
+        );
+      }
+      
+      if (sortBy !== undefined && !MARKET_SORTS.includes(sortBy)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `sortBy must be one of: ${MARKET_SORTS.join(", ")}`
+        );
+      }
+      
+      if (!Number.isInteger(limit) || limit <= 0) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "limit must be a positive integer"
+        );
+      }
+      
+      const account = getAccount(args.account);
+      const client = requireClient(account);
+      
+      try {
+        const markets = await listMarkets(client, Boolean(args.refresh));
+        const matches = filterMarkets(markets, {
+          type: type === "all" ? undefined : type,
+          search: args.search as string | undefined,
+          sortBy
+        });
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              total: matches.length,
+              markets: matches.slice(0, limit)
+            }, null, 2)
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to list markets: ${errorMessage}`
+        );
+      }
+    }
+  },
+  
+  // Trading tools
+  {
+    name: "place_order",
+    description: "Place an order on Hyperliquid. Supports limit orders with GTC/IOC/ALO, market orders (sent as IOC limits capped by slippage), stop-loss/take-profit trigger orders, and brackets that attach TP/SL to the entry",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...ORDER_PROPERTIES,
+        takeProfit: {
+          type: "number",
+          description: "Bracket: take-profit trigger price for a reduce-only exit that activates once the entry fills"
+        },
+        stopLoss: {
+          type: "number",
+          description: "Bracket: stop-loss trigger price for a reduce-only exit that activates once the entry fills"
+        },
+        confirmToken: {
+          type: "string",
+          description: "Confirmation token returned by a previous call for a large mainnet order. Repeat the same order with this token to send it"
+        },
+        ...ACCOUNT_PROPERTY
+      },
+      required: ["symbol", "side", "size", "orderType"]
+    },
+    handler: async (args) => {
+      const spec = parseOrderSpec(args);
+      const confirmToken = args.confirmToken as string | undefined;
+      const account = getAccount(args.account);
+      const client = requireTradingClient(account);
+      
+      try {
+        await client.connect();
+        
+        const orders = await prepareOrders(account, spec);
+        
+        // Bracket children only need confirming along with their entry
+        const held = await screenOrders(account, "place_order", spec, orders, confirmToken, orders.slice(0, 1));
+        if (held) {
+          return held;
+        }
+        
+        const result = await sendOrders(client, orders, orders.length > 1 ? "normalTpsl" : "na");
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to place order: ${errorMessage}`
+        );
+      }
+    }
+  },
+  
+  {
+    name: "preview_order",
+    description: "Preview a place_order call without sending it: the average fill price and slippage from the current L2 book, fees at the account's fee tier, and the position, leverage, margin usage and liquidation price once it fills. Lists warnings for anything the exchange or the risk policy would reject",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...ORDER_PROPERTIES,
+        takeProfit: {
+          type: "number",
+          description: "Bracket: take-profit trigger price"
+        },
+        stopLoss: {
+          type: "number",
+          description: "Bracket: stop-loss trigger price"
+        },
+        ...ACCOUNT_PROPERTY
+      },
+      required: ["symbol", "side", "size", "orderType"]
+    },
+    handler: async (args) => {
+      const spec = parseOrderSpec(args);
+      const account = getAccount(args.account);
+      const client = requireClient(account);
+      const walletAddress = requireWalletAddress(account);
+      
+      try {
+        await client.connect();
+        
+        const market = await findMarket(account, spec.symbol);
+        const symbol = market?.symbol ?? spec.symbol;
+        const spot = market ? market.type === "spot" : /-SPOT$/i.test(symbol);
+        const [book, fees, perpState, spotState] = await Promise.all([
+          client.info.getL2Book(symbol),
+          getFeeRates(client, walletAddress, spot),
+          spot ? undefined : client.info.perpetuals.getClearinghouseState(walletAddress),
+          spot ? client.info.spot.getSpotClearinghouseState(walletAddress) : undefined
+        ]);
+        const spotBalances = spotState
+          ? Object.fromEntries(spotState.balances.map((balance: any) => [String(balance.coin).replace(/-SPOT$/, ""), parseFloat(balance.total)]))
+          : undefined;
+        
+        const preview = previewOrder(spec, { market, book, fees, perpState, spotBalances });
+        
+        // The checks place_order would make, without counting towards the order rate
+        const intent: OrderIntent = {
+          symbol,
+          side: spec.side,
+          size: preview.size,
+          price: preview.limitPrice!,
+          reduceOnly: spec.reduceOnly
+        };
+        try {
+          await enforceRiskPolicy(account, intent);
+        } catch (error) {
+          if (!(error instanceof McpError)) {
+            throw error;
+          }
+          preview.warnings.push(error.message.replace(/^MCP error -?\d+: /, ""));
+        }
+        if (isMainnet(account) && needsConfirmation(riskPolicy, [intent])) {
+          preview.warnings.push(
+            `Mainnet orders above $${riskPolicy.mainnetConfirmNotional} need confirmation: place_order will return a confirmToken to repeat the call with`
+          );
+        }
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ account: account.name, network: getNetworkName(account), ...preview }, null, 2)
+          }]
+        };
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to preview order: ${errorMessage}`
+        );
+      }
+    }
+  },
+  
+  {
+    name: "place_orders",
+    description: "Place several orders in one request and return the status of each",
+    inputSchema: {
+      type: "object",
+      properties: {
+        orders: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: ORDER_PROPERTIES,
+            required: ["symbol", "side", "size", "orderType"]
+          },
+          description: "Orders to place"
+        },
+        confirmToken: {
+          type: "string",
+          description: "Confirmation token returned by a previous call for large mainnet orders"
+        },
+        ...ACCOUNT_PROPERTY
+      },
+      required: ["orders"]
+    },
+    handler: async (args) => {
+      const confirmToken = args.confirmToken as string | undefined;
+      
+      if (!Array.isArray(args.orders) || args.orders.length === 0) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "orders must be a non-empty array"
+        );
+      }
+      
+      const specs = args.orders.map((order: any, index: number) => {
+        const spec = parseOrderSpec(order, `orders[${index}].`);
+        if (spec.takeProfit !== undefined || spec.stopLoss !== undefined) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `orders[${index}]: brackets (takeProfit/stopLoss) are only supported by place_order`
+          );
+        }
+        return spec;
+      });
+      const account = getAccount(args.account);
+      const client = requireTradingClient(account);
+      
+      try {
+        await client.connect();
+        
+        const orders: Order[] = [];
+        for (const spec of specs) {
+          orders.push(...await prepareOrders(account, spec));
+        }
+        
+        const held = await screenOrders(account, "place_orders", specs, orders, confirmToken);
+        if (held) {
+          return held;
+        }
+        
+        const result = await sendOrders(client, orders);
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ results: orderResults(orders, result) }, null, 2)
+          }]
+        };
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to place orders: ${errorMessage}`
+        );
+      }
+    }
+  },
+  
+  {
+    name: "modify_order",
+    description: "Replace the price, size or type of a resting order, identified by orderId or cloid",
+    inputSchema: {
+      type: "object",
+      properties: {
+        orderId: {
+          type: "string",
+          description: "ID of the order to modify"
+        },
+        ...ORDER_PROPERTIES,
+        orderType: {
+          type: "string",
+          enum: ["limit", "trigger"],
+          description: "New order type (limit or trigger)"
+        },
+        cloid: {
+          type: "string",
+          description: "Client order ID of the order to modify, used instead of orderId. The modified order keeps it"
+        },
+        confirmToken: {
+          type: "string",
+          description: "Confirmation token returned by a previous call for a large mainnet order"
+        },
+        ...ACCOUNT_PROPERTY
+      },
+      required: ["symbol", "side", "size", "orderType"]
+    },
+    handler: async (args) => {
+      const orderId = args.orderId !== undefined ? parseInt(String(args.orderId), 10) : undefined;
+      const cloid = parseCloid(args.cloid);
+      const confirmToken = args.confirmToken as string | undefined;
+      
+      if (orderId !== undefined && Number.isNaN(orderId)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "orderId must be a number"
+        );
+      }
+      
+      // The API accepts a cloid in place of the order ID
+      const target: number | string | undefined = orderId !== undefined ? orderId : cloid;
+      if (target === undefined) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "orderId or cloid is required"
+        );
+      }
+      
+      const spec = parseOrderSpec(args);
+      if (spec.orderType === "market" || spec.takeProfit !== undefined || spec.stopLoss !== undefined) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "Orders can only be modified into limit or trigger orders without brackets"
+        );
+      }
+      const account = getAccount(args.account);
+      const client = requireTradingClient(account);
+      
+      try {
+        await client.connect();
+        
+        const [order] = await prepareOrders(account, spec);
+        const held = await screenOrders(account, "modify_order", [target, spec], [order], confirmToken);
+        if (held) {
+          return held;
+        }
+        
+        const result = await client.exchange.modifyOrder(target, order);
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to modify order: ${errorMessage}`
+        );
+      }
+    }
+  },
+  
+  {
+    name: "place_spot_order",
+    description: "Buy or sell a spot token with a limit or market order. The symbol is resolved to its spot pair, so PURR means PURR/USDC even where a perp of the same name exists",
+    inputSchema: {
+      type: "object",
+      properties: {
+        symbol: {
+          type: "string",
+          description: "Spot token or pair to trade (e.g., PURR, PURR/USDC, @107)"
+        },
+        side: ORDER_PROPERTIES.side,
+        size: {
+          type: "number",
+          exclusiveMinimum: 0,
+          description: "Order size in the base token"
+        },
+        orderType: {
+          type: "string",
+          enum: ["limit", "market"],
+          description: "Order type: limit, or market (IOC limit at mid price plus slippage)"
+        },
+        price: {
+          type: "number",
+          minimum: 0,
+          description: "Limit price in USDC. Required for limit orders"
+        },
+        tif: ORDER_PROPERTIES.tif,
+        slippage: ORDER_PROPERTIES.slippage,
+        cloid: ORDER_PROPERTIES.cloid,
+        confirmToken: {
+          type: "string",
+          description: "Confirmation token returned by a previous call for a large mainnet order. Repeat the same order with this token to send it"
+        },
+        ...ACCOUNT_PROPERTY
+      },
+      required: ["symbol", "side", "size", "orderType"]
+    },
+    handler: async (args) => {
+      const confirmToken = args.confirmToken as string | undefined;
+      const account = getAccount(args.account);
+      const client = requireTradingClient(account);
+      
+      if (args.orderType !== "limit" && args.orderType !== "market") {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "orderType must be limit or market for spot orders"
+        );
+      }
+      
+      try {
+        await client.connect();
+        
+        const symbol = await findSpotSymbol(account, String(args.symbol ?? ""));
+        const spec = parseOrderSpec({ ...args, symbol });
+        const orders = await prepareOrders(account, spec);
+        
+        const held = await screenOrders(account, "place_spot_order", spec, orders, confirmToken);
+        if (held) {
+          return held;
+        }
+        
+        const result = await sendOrders(client, orders);
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to place spot order: ${errorMessage}`
+        );
+      }
+    }
+  },
+  
+  // Account tools
+  {
+    name: "get_open_orders",
+    description: "List open orders, including trigger price and condition for stop-loss/take-profit orders",
+    inputSchema: {
+      type: "object",
+      properties: {
+        coin: ACCOUNT_FILTER_PROPERTIES.coin,
+        limit: ACCOUNT_FILTER_PROPERTIES.limit,
+        ...ACCOUNT_PROPERTY
+      }
+    },
+    handler: accountViewTool("orders")
+  },
+  
+  {
+    name: "get_fills",
+    description: "List fills in a time range (default the last 24 hours) with volume, fee and closed PnL totals. Results are oldest first; pass nextSince as since to get the next page",
+    inputSchema: {
+      type: "object",
+      properties: { ...ACCOUNT_FILTER_PROPERTIES, ...ACCOUNT_PROPERTY }
+    },
+    handler: accountViewTool("fills")
+  },
+  
+  {
+    name: "get_funding",
+    description: "List funding payments in a time range (default the last 24 hours). Positive amounts were received, negative amounts paid",
+    inputSchema: {
+      type: "object",
+      properties: { ...ACCOUNT_FILTER_PROPERTIES, ...ACCOUNT_PROPERTY }
+    },
+    handler: accountViewTool("funding")
+  },
+  
+  {
+    name: "get_pnl",
+    description: "Realized PnL (closed PnL, fees and funding) per coin and per UTC day over a time range (default the last 7 days), plus unrealized PnL of open positions",
+    inputSchema: {
+      type: "object",
+      properties: {
+        coin: ACCOUNT_FILTER_PROPERTIES.coin,
+        since: ACCOUNT_FILTER_PROPERTIES.since,
+        until: ACCOUNT_FILTER_PROPERTIES.until,
+        ...ACCOUNT_PROPERTY
+      }
+    },
+    handler: accountViewTool("pnl")
+  },
+  
+  {
+    name: "get_risk_report",
+    description: "Portfolio risk of an account: net worth across perps and spot, and per position and in total the USD exposure and net delta, " +
+      "leverage and margin utilization, distance to liquidation in percent and in price, funding carry per day and concentration",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...ACCOUNT_PROPERTY
+      }
+    },
+    handler: async (args) => {
+      const account = getAccount(args.account);
+      const client = requireClient(account);
+      const walletAddress = requireWalletAddress(account);
+      
+      try {
+        await client.connect();
+        const report = await getRiskReport(client, walletAddress);
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ account: account.name, network: getNetworkName(account), ...report }, null, 2)
+          }]
+        };
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to build risk report: ${errorMessage}`
+        );
+      }
+    }
+  },
+  
+  {
+    name: "get_risk_policy",
+    description: "Show the pre-trade risk policy checked before every order, and the current order rate",
+    inputSchema: {
+      type: "object",
+      properties: {}
+    },
+    handler: async () => {
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            policy: riskPolicy,
+            halted: tradingHalt ?? undefined,
+            ordersInLastMinute: ordersInLastMinute(),
+            account: activeAccountName,
+            network: accounts[activeAccountName] ? getNetworkName(accounts[activeAccountName]) : undefined
+          }, null, 2)
+        }]
+      };
+    }
+  },
+  
+  {
+    name: "set_risk_policy",
+    description: "Update the pre-trade risk policy. Only the fields given are changed; pass null to remove a limit",
+    inputSchema: {
+      type: "object",
+      properties: {
+        maxOrderNotional: {
+          type: ["number", "null"],
+          description: "Maximum notional (USD) of a single order"
+        },
+        maxSymbolNotional: {
+          type: ["number", "null"],
+          description: "Maximum position notional (USD) per symbol once the order fills"
+        },
+        maxLeverage: {
+          type: ["number", "null"],
+          description: "Maximum total leverage (total position notional / account value) once the order fills"
+        },
+        allowedSymbols: {
+          type: ["array", "null"],
+          items: { type: "string" },
+          description: "If set, only these symbols may be traded"
+        },
+        deniedSymbols: {
+          type: ["array", "null"],
+          items: { type: "string" },
+          description: "Symbols that may not be traded"
+        },
+        maxDailyLoss: {
+          type: ["number", "null"],
+          description: "Block new exposure once realized loss (including fees) since 00:00 UTC reaches this amount (USD)"
+        },
+        maxOrdersPerMinute: {
+          type: ["number", "null"],
+          description: "Maximum number of orders sent per minute"
+        },
+        mainnetConfirmNotional: {
+          type: ["number", "null"],
+          description: "Mainnet orders above this notional (USD) need a second call with a confirmation token"
+        }
+      }
+    },
+    handler: async (args) => {
+      riskPolicy = updateRiskPolicy(riskPolicy, args);
+      
+      try {
+        saveRiskPolicy(riskPolicy);
+      } catch (error) {
+        console.error("Failed to save risk policy:", error);
+      }
+      
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({ policy: riskPolicy }, null, 2)
+        }]
+      };
+    }
+  },
+  
+  // Journal tools
+  {
+    name: "get_journal",
+    description: "Review the trade journal of past tool calls, with their arguments (secrets redacted), account, network, response or error and timing. Returns the most recent matching calls, oldest first",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...JOURNAL_FILTER_PROPERTIES,
+        limit: {
+          type: "integer",
+          minimum: 1,
+          description: "Maximum number of entries to return (default 50, max 10000)"
+        }
+      }
+    },
+    handler: async (args) => {
+      const filter = parseJournalFilter(args, 50);
+      
+      let result;
+      try {
+        result = filterJournal(loadJournal(), filter);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to read the trade journal: ${errorMessage}`
+        );
+      }
+      
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify(result, null, 2)
+        }]
+      };
+    }
+  },
+  
+  {
+    name: "export_journal",
+    description: "Export matching trade journal entries to a file for review or reconciliation",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...JOURNAL_FILTER_PROPERTIES,
+        format: {
+          type: "string",
+          enum: JOURNAL_FORMATS,
+          description: "File format: jsonl (one entry per line), json or csv (default: jsonl)"
+        },
+        path: {
+          type: "string",
+          description: "Name of the file to write in the exports folder of the data directory, without a directory (default: journal-export-<time>.<format>)"
+        },
+        limit: {
+          type: "integer",
+          minimum: 1,
+          description: "Maximum number of entries to export, keeping the most recent (default 10000)"
+        }
+      }
+    },
+    handler: async (args) => {
+      const filter = parseJournalFilter(args, 10000);
+      const format = (args.format ?? "jsonl") as JournalFormat;
+      
+      if (!JOURNAL_FORMATS.includes(format)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `format must be one of: ${JOURNAL_FORMATS.join(", ")}`
+        );
+      }
+      
+      const fileName = parseExportFileName(args.path, format);
+      
+      try {
+        const { count, entries } = filterJournal(loadJournal(), filter);
+        const filePath = writeExportFile(fileName, formatJournal(entries, format));
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ path: filePath, format, matched: count, exported: entries.length }, null, 2)
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to export the trade journal: ${errorMessage}`
+        );
+      }
+    }
+  },
+  
+  {
+    name: "cancel_order",
+    description: "Cancel an existing order by orderId or cloid",
+    inputSchema: {
+      type: "object",
+      properties: { ...CANCEL_PROPERTIES, ...ACCOUNT_PROPERTY },
+      required: ["symbol"]
+    },
+    handler: async (args) => {
+      const [cancel] = parseCancels([args]);
+      const account = getAccount(args.account);
+      const client = requireTradingClient(account);
+      
+      try {
+        await client.connect();
+        cancel.symbol = (await findMarket(account, cancel.symbol))?.symbol ?? cancel.symbol;
+        
+        // Cancel order
+        const result = cancel.cloid
+          ? await client.exchange.cancelOrderByCloid(cancel.symbol, cancel.cloid)
+          : await client.exchange.cancelOrder({ coin: cancel.symbol, o: cancel.orderId! });
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to cancel order: ${errorMessage}`
+        );
+      }
+    }
+  },
+  
+  {
+    name: "cancel_orders",
+    description: "Cancel several orders in one request and return the status of each",
+    inputSchema: {
+      type: "object",
+      properties: {
+        orders: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: CANCEL_PROPERTIES,
+            required: ["symbol"]
+          },
+          description: "Orders to cancel, each by orderId or cloid"
+        },
+        ...ACCOUNT_PROPERTY
+      },
+      required: ["orders"]
+    },
+    handler: async (args) => {
+      if (!Array.isArray(args.orders) || args.orders.length === 0) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "orders must be a non-empty array"
+        );
+      }
+      
+      const cancels = parseCancels(args.orders);
+      const account = getAccount(args.account);
+      const client = requireTradingClient(account);
+      
+      try {
+        await client.connect();
+        for (const cancel of cancels) {
+          cancel.symbol = (await findMarket(account, cancel.symbol))?.symbol ?? cancel.symbol;
+        }
+        
+        const statuses: any[] = new Array(cancels.length);
+        
+        // Order ID cancels go in one request; the SDK cancels cloids one at a time
+        const byOrderId = cancels.filter((cancel) => !cancel.cloid);
+        if (byOrderId.length > 0) {
+          const result: any = await client.exchange.cancelOrder(
+            byOrderId.map((cancel) => ({ coin: cancel.symbol, o: cancel.orderId! }))
+          );
+          byOrderId.forEach((cancel, index) => {
+            statuses[cancels.indexOf(cancel)] = cancelStatus(result, index);
+          });
+        }
+        
+        for (const cancel of cancels.filter((cancel) => cancel.cloid)) {
+          try {
+            const result = await client.exchange.cancelOrderByCloid(cancel.symbol, cancel.cloid!);
+            statuses[cancels.indexOf(cancel)] = cancelStatus(result, 0);
+          } catch (error) {
+            statuses[cancels.indexOf(cancel)] = {
+              status: "error",
+              error: error instanceof Error ? error.message : String(error)
+            };
           }
         }
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              results: cancels.map((cancel, index) => ({ ...cancel, ...statuses[index] }))
+            }, null, 2)
+          }]
+        };
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to cancel orders: ${errorMessage}`
+        );
+      }
+    }
+  },
+  
+  // Position and margin tools
+  {
+    name: "set_leverage",
+    description: "Set the leverage and margin mode (cross or isolated) for a perp market. Returns the position and margin state afterwards",
+    inputSchema: {
+      type: "object",
+      properties: {
+        symbol: {
+          type: "string",
+          description: "Perp market (e.g., BTC-PERP)"
+        },
+        leverage: {
+          type: "integer",
+          minimum: 1,
+          description: "Leverage as a whole number, up to the market's maximum"
+        },
+        mode: {
+          type: "string",
+          enum: LEVERAGE_MODES,
+          description: "Margin mode (default: cross, or isolated for isolated-only markets). The mode cannot change while a position is open"
+        },
+        ...ACCOUNT_PROPERTY
+      },
+      required: ["symbol", "leverage"]
+    },
+    handler: async (args) => {
+      const account = getAccount(args.account);
+      const client = requireTradingClient(account);
+      
+      if (typeof args.symbol !== "string" || !args.symbol) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "symbol is required"
+        );
+      }
+      
+      try {
+        await client.connect();
+        const market = await findMarket(account, args.symbol);
+        const symbol = market?.symbol ?? args.symbol;
+        const { leverage, mode } = parseLeverage(args, market);
+        
+        const result = await client.exchange.updateLeverage(symbol, mode, leverage);
+        return await positionResponse(account, symbol, { result });
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to set leverage: ${errorMessage}`
+        );
+      }
+    }
+  },
+  
+  {
+    name: "update_isolated_margin",
+    description: "Add margin to, or remove margin from, an isolated position. Returns the position and margin state afterwards",
+    inputSchema: {
+      type: "object",
+      properties: {
+        symbol: {
+          type: "string",
+          description: "Symbol of the isolated position"
+        },
+        amount: {
+          type: "number",
+          description: "USDC to add, or a negative amount to remove"
+        },
+        ...ACCOUNT_PROPERTY
       },
+      required: ["symbol", "amount"]
+    },
+    handler: async (args) => {
+      const amount = parseMarginAmount(args);
+      const account = getAccount(args.account);
+      const client = requireTradingClient(account);
       
-      // Market data tools
-      {
-        name: "get_market_data",
-        description: "Get current market data for a specific asset",
-        inputSchema: {
-          type: "object",
-          properties: {
-            symbol: {
-              type: "string",
-              description: "Symbol to get market data for (e.g., BTC-PERP, ETH-SPOT)"
-            }
-          },
-          required: ["symbol"]
+      if (typeof args.symbol !== "string" || !args.symbol) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "symbol is required"
+        );
+      }
+      
+      try {
+        await client.connect();
+        const symbol = (await findMarket(account, args.symbol))?.symbol ?? args.symbol;
+        const [position] = (await readPositionState(account, symbol)).positions;
+        
+        if (!position) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `No open position in ${symbol}`
+          );
+        }
+        if (position.leverage.mode !== "isolated") {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `The ${symbol} position uses cross margin; only isolated positions have their own margin`
+          );
+        }
+        
+        // The exchange takes the amount in millionths of USDC
+        const result = await client.exchange.updateIsolatedMargin(symbol, position.side === "long", Math.round(amount * 1e6));
+        return await positionResponse(account, symbol, { result });
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
         }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to update isolated margin: ${errorMessage}`
+        );
+      }
+    }
+  },
+  
+  {
+    name: "close_position",
+    description: "Close all or part of a perp position with a reduce-only market order. Returns the order result and the position and margin state afterwards",
+    inputSchema: {
+      type: "object",
+      properties: {
+        symbol: {
+          type: "string",
+          description: "Symbol of the position to close"
+        },
+        percent: {
+          type: "number",
+          exclusiveMinimum: 0,
+          maximum: 100,
+          description: "Percentage of the position to close (default: 100)"
+        },
+        slippage: ORDER_PROPERTIES.slippage,
+        ...ACCOUNT_PROPERTY
       },
+      required: ["symbol"]
+    },
+    handler: async (args) => {
+      const percent = parseClosePercent(args);
+      const account = getAccount(args.account);
+      const client = requireTradingClient(account);
+      
+      if (typeof args.symbol !== "string" || !args.symbol) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "symbol is required"
+        );
+      }
+      
+      try {
+        await client.connect();
+        const symbol = (await findMarket(account, args.symbol))?.symbol ?? args.symbol;
+        const [position] = (await readPositionState(account, symbol)).positions;
+        
+        if (!position) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `No open position in ${symbol}`
+          );
+        }
+        
+        const orders = await sendCloseOrders(account, "close_position", [closeOrderSpec(position, percent, args.slippage)]);
+        return await positionResponse(account, symbol, { orders });
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to close position: ${errorMessage}`
+        );
+      }
+    }
+  },
+  
+  {
+    name: "close_all_positions",
+    description: "Close every perp position with reduce-only market orders sent in one request. Returns the order results and the margin state afterwards",
+    inputSchema: {
+      type: "object",
+      properties: {
+        slippage: ORDER_PROPERTIES.slippage,
+        ...ACCOUNT_PROPERTY
+      }
+    },
+    handler: async (args) => {
+      const account = getAccount(args.account);
+      const client = requireTradingClient(account);
+      
+      try {
+        await client.connect();
+        const { positions } = await readPositionState(account);
+        const specs = positions.map((position) => closeOrderSpec(position, 100, args.slippage));
+        
+        const orders = specs.length ? await sendCloseOrders(account, "close_all_positions", specs) : [];
+        return await positionResponse(account, undefined, { orders });
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to close positions: ${errorMessage}`
+        );
+      }
+    }
+  },
+  
+  {
+    name: "cancel_all_orders",
+    description: "Cancel every open order, including triggers, or only those for one symbol. Returns the cancel results and the position and margin state afterwards",
+    inputSchema: {
+      type: "object",
+      properties: {
+        symbol: {
+          type: "string",
+          description: "Only cancel orders for this symbol"
+        },
+        ...ACCOUNT_PROPERTY
+      }
+    },
+    handler: async (args) => {
+      const account = getAccount(args.account);
+      const client = requireTradingClient(account);
+      const walletAddress = requireWalletAddress(account);
       
-      // Trading tools
-      {
-        name: "place_order",
-        description: "Place an order on Hyperliquid",
-        inputSchema: {
-          type: "object",
-          properties: {
-            symbol: {
-              type: "string",
-              description: "Symbol to trade (e.g., BTC-PERP, ETH-SPOT)"
-            },
-            side: {
-              type: "string",
-              enum: ["buy", "sell"],
-              description: "Order side (buy or sell)"
-            },
-            size: {
-              type: "number",
-              description: "Order size"
-            },
-            price: {
-              type: "number",
-              description: "Limit price (use 0 for market orders)"
-            },
-            orderType: {
-              type: "string",
-              enum: ["limit", "market"],
-              description: "Order type (limit or market)"
-            },
-            reduceOnly: {
-              type: "boolean",
-              description: "Whether the order is reduce-only"
-            }
-          },
-          required: ["symbol", "side", "size", "orderType"]
+      try {
+        await client.connect();
+        const symbol = args.symbol ? (await findMarket(account, String(args.symbol)))?.symbol ?? String(args.symbol) : undefined;
+        const openOrders: any[] = (await client.info.getUserOpenOrders(walletAddress))
+          .filter((order: any) => !symbol || order.coin === symbol);
+        
+        let results: object[] = [];
+        if (openOrders.length > 0) {
+          const result: any = await client.exchange.cancelOrder(
+            openOrders.map((order) => ({ coin: order.coin, o: order.oid }))
+          );
+          results = openOrders.map((order, index) => ({
+            symbol: order.coin,
+            orderId: order.oid,
+            ...cancelStatus(result, index)
+          }));
         }
-      },
-      
-      {
-        name: "cancel_order",
-        description: "Cancel an existing order",
-        inputSchema: {
-          type: "object",
-          properties: {
-            symbol: {
-              type: "string",
-              description: "Symbol of the order to cancel"
-            },
-            orderId: {
-              type: "string",
-              description: "ID of the order to cancel"
-            }
-          },
-          required: ["symbol", "orderId"]
+        
+        return await positionResponse(account, symbol, { results });
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
         }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to cancel orders: ${errorMessage}`
+        );
+      }
+    }
+  },
+  
+  // Transfer tools
+  {
+    name: "transfer_between_spot_and_perp",
+    description: "Move USDC between the account's own spot and perp balances. Only USDC not held as margin can leave the perp balance",
+    inputSchema: {
+      type: "object",
+      properties: {
+        amount: {
+          type: "number",
+          exclusiveMinimum: 0,
+          description: "USDC to move"
+        },
+        direction: {
+          type: "string",
+          enum: TRANSFER_DIRECTIONS,
+          description: "to_perp moves spot USDC into the perp balance, to_spot moves it out"
+        },
+        ...ACCOUNT_PROPERTY
       },
+      required: ["amount", "direction"]
+    },
+    handler: async (args) => {
+      const amount = parseTransferAmount(args.amount);
+      const direction = parseTransferDirection(args.direction);
+      const account = getAccount(args.account);
+      const client = requireFundsClient(account, "transfer_between_spot_and_perp");
       
-      // Strategy management tools
-      {
-        name: "create_strategy",
-        description: "Create a new trading strategy",
-        inputSchema: {
-          type: "object",
-          properties: {
-            name: {
-              type: "string",
-              description: "Name of the strategy"
-            },
-            description: {
-              type: "string",
-              description: "Description of the strategy"
-            },
-            config: {
-              type: "object",
-              description: "Strategy configuration"
-            }
-          },
-          required: ["name", "description", "config"]
+      try {
+        await client.connect();
+        
+        const result = await client.exchange.transferBetweenSpotAndPerp(amount, direction === "to_perp");
+        checkTransferResult(result, "transfer");
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ status: "ok", amount, direction, result }, null, 2)
+          }]
+        };
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
         }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to transfer between spot and perp: ${errorMessage}`
+        );
+      }
+    }
+  },
+  
+  {
+    name: "send_usdc",
+    description: "Send USDC from the perp balance to another Hyperliquid address. Off unless the destination is on the operator's transfer allow-list; " +
+      "the first call returns a confirmToken and nothing is sent until the same call is repeated with it",
+    inputSchema: {
+      type: "object",
+      properties: {
+        destination: {
+          type: "string",
+          description: "Address to send to. Must be on the transfer allow-list"
+        },
+        amount: {
+          type: "number",
+          exclusiveMinimum: 0,
+          description: "USDC to send"
+        },
+        confirmToken: TRANSFER_CONFIRM_PROPERTY,
+        ...ACCOUNT_PROPERTY
       },
+      required: ["destination", "amount"]
+    },
+    handler: async (args) => {
+      const destination = checkDestination("send_usdc", args.destination);
+      const amount = parseTransferAmount(args.amount);
+      const account = getAccount(args.account);
+      const client = requireFundsClient(account, "send_usdc");
       
-      {
-        name: "activate_strategy",
-        description: "Activate or deactivate a strategy",
-        inputSchema: {
-          type: "object",
-          properties: {
-            strategyId: {
-              type: "string",
-              description: "ID of the strategy to activate/deactivate"
-            },
-            active: {
-              type: "boolean",
-              description: "Whether to activate (true) or deactivate (false) the strategy"
-            }
-          },
-          required: ["strategyId", "active"]
+      const held = confirmTransfer(
+        account,
+        "send_usdc",
+        { destination, amount },
+        args.confirmToken as string | undefined,
+        `send ${amount} USDC to ${destination}`
+      );
+      if (held) {
+        return held;
+      }
+      
+      try {
+        await client.connect();
+        
+        const result = await client.exchange.usdTransfer(destination, amount);
+        checkTransferResult(result, "USDC transfer");
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ status: "sent", destination, amount, result }, null, 2)
+          }]
+        };
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
         }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to send USDC: ${errorMessage}`
+        );
       }
-    ]
-  };
-});
-
-/**
- * Handler for tool calls
- * Implements the logic for each tool
- */
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  switch (request.params.name) {
-    // Authentication tool
-    case "authenticate": {
-      const args = request.params.arguments || {};
-      const privateKey = args.privateKey as string | undefined;
-      const walletAddress = args.walletAddress as string | undefined;
-      const testnet = args.testnet !== undefined ? Boolean(args.testnet) : true;
-      const vaultAddress = args.vaultAddress as string | undefined;
+    }
+  },
+  
+  {
+    name: "send_spot_token",
+    description: "Send a spot token to another Hyperliquid address. Off unless the destination is on the operator's transfer allow-list; " +
+      "the first call returns a confirmToken and nothing is sent until the same call is repeated with it",
+    inputSchema: {
+      type: "object",
+      properties: {
+        destination: {
+          type: "string",
+          description: "Address to send to. Must be on the transfer allow-list"
+        },
+        token: {
+          type: "string",
+          description: "Spot token to send (e.g., PURR, USDC)"
+        },
+        amount: {
+          type: "number",
+          exclusiveMinimum: 0,
+          description: "Amount of the token to send"
+        },
+        confirmToken: TRANSFER_CONFIRM_PROPERTY,
+        ...ACCOUNT_PROPERTY
+      },
+      required: ["destination", "token", "amount"]
+    },
+    handler: async (args) => {
+      const destination = checkDestination("send_spot_token", args.destination);
+      const account = getAccount(args.account);
+      const client = requireFundsClient(account, "send_spot_token");
       
-      // Validate inputs
-      if (!privateKey && !walletAddress) {
+      if (typeof args.token !== "string" || !args.token) {
         throw new McpError(
           ErrorCode.InvalidParams,
-          "Either privateKey or walletAddress must be provided"
+          "token is required"
         );
       }
       
-      // Validate private key format if provided
-      if (privateKey) {
-        try {
-          const formattedPrivateKey = privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`;
-          new ethers.Wallet(formattedPrivateKey);
-        } catch (error) {
+      try {
+        await client.connect();
+        
+        const token = await findSpotToken(account, args.token);
+        const amount = roundTokenAmount(parseTransferAmount(args.amount), token);
+        if (Number(amount) <= 0) {
           throw new McpError(
             ErrorCode.InvalidParams,
-            "Invalid private key format"
+            `amount is below the smallest unit of ${token.name}`
           );
         }
-      }
-      
-      // Store credentials
-      userCredentials.privateKey = privateKey;
-      userCredentials.walletAddress = walletAddress;
-      userCredentials.testnet = testnet;
-      userCredentials.vaultAddress = vaultAddress;
-      
-      // Initialize client
-      hyperliquidClient = initializeClient();
-      
-      if (!hyperliquidClient) {
+        
+        const held = confirmTransfer(
+          account,
+          "send_spot_token",
+          { destination, token: token.name, amount },
+          args.confirmToken as string | undefined,
+          `send ${amount} ${token.name} to ${destination}`
+        );
+        if (held) {
+          return held;
+        }
+        
+        const result = await client.exchange.spotTransfer(destination, spotTokenWire(token), amount);
+        checkTransferResult(result, "spot transfer");
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ status: "sent", destination, token: token.name, amount, result }, null, 2)
+          }]
+        };
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
         throw new McpError(
           ErrorCode.InternalError,
-          "Failed to initialize Hyperliquid client"
+          `Failed to send spot token: ${errorMessage}`
         );
       }
-      
-      return {
-        content: [{
-          type: "text",
-          text: `Successfully authenticated with Hyperliquid ${testnet ? 'testnet' : 'mainnet'}`
-        }]
-      };
     }
-    
-    // Market data tool
-    case "get_market_data": {
-      const args = request.params.arguments || {};
-      const symbol = args.symbol as string;
+  },
+  
+  {
+    name: "withdraw",
+    description: "Withdraw USDC from the perp balance to an address on Arbitrum; Hyperliquid deducts a $1 fee. Off unless the destination is on the operator's transfer allow-list; " +
+      "the first call returns a confirmToken and nothing is sent until the same call is repeated with it",
+    inputSchema: {
+      type: "object",
+      properties: {
+        amount: {
+          type: "number",
+          exclusiveMinimum: 0,
+          description: "USDC to withdraw"
+        },
+        destination: {
+          type: "string",
+          description: "Address to withdraw to (default: the account's own address). Must be on the transfer allow-list"
+        },
+        confirmToken: TRANSFER_CONFIRM_PROPERTY,
+        ...ACCOUNT_PROPERTY
+      },
+      required: ["amount"]
+    },
+    handler: async (args) => {
+      const account = getAccount(args.account);
+      const destination = checkDestination("withdraw", args.destination ?? getWalletAddress(account));
+      const amount = parseTransferAmount(args.amount);
+      const client = requireFundsClient(account, "withdraw");
       
-      if (!symbol) {
-        throw new McpError(
-          ErrorCode.InvalidParams,
-          "Symbol is required"
-        );
+      const held = confirmTransfer(
+        account,
+        "withdraw",
+        { destination, amount },
+        args.confirmToken as string | undefined,
+        `withdraw ${amount} USDC to ${destination} (Hyperliquid deducts a $1 fee)`
+      );
+      if (held) {
+        return held;
       }
       
-      if (!hyperliquidClient) {
-        hyperliquidClient = initializeClient();
+      try {
+        await client.connect();
+        
+        const result = await client.exchange.initiateWithdrawal(destination, amount);
+        checkTransferResult(result, "withdrawal");
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ status: "sent", destination, amount, result }, null, 2)
+          }]
+        };
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to withdraw: ${errorMessage}`
+        );
       }
+    }
+  },
+  
+  // Execution tools
+  {
+    name: "start_execution",
+    description: "Work a large order in the background instead of sending it as one clip: twap (slices of randomized size at even intervals over a duration), " +
+      "iceberg (one visible clip resting at a limit price, replaced as it fills) or scaled (a ladder of limit orders across a price range). " +
+      "Progress is in the hyperliquid://execution/{id} resource",
+    inputSchema: {
+      type: "object",
+      properties: {
+        algo: {
+          type: "string",
+          enum: EXECUTION_ALGOS,
+          description: "Execution algorithm: twap, iceberg or scaled"
+        },
+        symbol: ORDER_PROPERTIES.symbol,
+        side: ORDER_PROPERTIES.side,
+        size: {
+          type: "number",
+          exclusiveMinimum: 0,
+          description: "Total size to execute"
+        },
+        reduceOnly: {
+          type: "boolean",
+          description: "Send every child order reduce-only"
+        },
+        durationSeconds: {
+          type: "number",
+          exclusiveMinimum: 0,
+          description: "twap: time to spread the slices over. The first slice goes at once and the last at the end"
+        },
+        slices: {
+          type: "integer",
+          minimum: 2,
+          description: "twap: number of slices (default: one per minute of the duration, at least 2)"
+        },
+        randomize: {
+          type: "number",
+          minimum: 0,
+          maximum: 0.9,
+          description: "twap: how much slice sizes vary around the average, as a fraction (default 0.2 for ±20%)"
+        },
+        slippage: {
+          type: "number",
+          exclusiveMinimum: 0,
+          description: "twap: how far past the mid each IOC slice may cross, as a fraction (default 0.01)"
+        },
+        limitPrice: {
+          type: "number",
+          exclusiveMinimum: 0,
+          description: "twap: worst price any slice may fill at. What a slice leaves unfilled is added to the next"
+        },
+        price: {
+          type: "number",
+          exclusiveMinimum: 0,
+          description: "iceberg: limit price of every clip"
+        },
+        visibleSize: {
+          type: "number",
+          exclusiveMinimum: 0,
+          description: "iceberg: size shown on the book at a time"
+        },
+        startPrice: {
+          type: "number",
+          exclusiveMinimum: 0,
+          description: "scaled: price of the first order of the ladder"
+        },
+        endPrice: {
+          type: "number",
+          exclusiveMinimum: 0,
+          description: "scaled: price of the last order of the ladder"
+        },
+        orders: {
+          type: "integer",
+          minimum: 2,
+          maximum: 20,
+          description: "scaled: number of orders, evenly spaced from startPrice to endPrice (default 5)"
+        },
+        skew: {
+          type: "number",
+          exclusiveMinimum: 0,
+          description: "scaled: size of the last order relative to the first, e.g. 2 to double towards endPrice (default 1 for equal sizes)"
+        },
+        intervalSeconds: {
+          type: "number",
+          minimum: 1,
+          description: "iceberg and scaled: how often resting orders are checked for fills (default 5)"
+        },
+        confirmToken: {
+          type: "string",
+          description: "Confirmation token returned by a previous call for a large mainnet execution. Repeat the same call with this token to start it"
+        },
+        ...ACCOUNT_PROPERTY
+      },
+      required: ["algo", "symbol", "side", "size"]
+    },
+    handler: async (args) => {
+      const parsed = parseExecutionParams(args);
+      const confirmToken = args.confirmToken as string | undefined;
+      const account = getAccount(args.account);
+      const client = requireTradingClient(account);
       
-      if (!hyperliquidClient) {
+      if (tradingHalt && !parsed.reduceOnly) {
         throw new McpError(
           ErrorCode.InvalidRequest,
-          "No credentials provided. Please authenticate first."
+          `Trading has been halted from the dashboard since ${tradingHalt.since}. Only reduce-only executions can start until it is resumed there`
         );
       }
       
       try {
-        await hyperliquidClient.connect();
+        await client.connect();
         
-        // Get market data
-        const l2Book = await hyperliquidClient.info.getL2Book(symbol);
+        const market = await findMarket(account, parsed.symbol);
+        const params = { ...parsed, symbol: market?.symbol ?? parsed.symbol };
+        const arrivalPrice = await getMidPrice(client, params.symbol);
+        const id = `execution-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+        const job = planExecution(id, account.name, params, arrivalPrice, market);
         
-        // Note: These methods might not exist in the current version of the SDK
-        // We'll use a simplified approach for now
-        const marketData = {
-          symbol,
-          orderBook: l2Book,
-          timestamp: new Date().toISOString()
+        // The whole execution is confirmed up front, valued at the arrival price
+        const parent: Order = {
+          coin: params.symbol,
+          is_buy: params.side === "buy",
+          sz: params.size,
+          limit_px: arrivalPrice,
+          order_type: { limit: { tif: "Gtc" } },
+          reduce_only: params.reduceOnly
         };
+        const held = await screenOrders(account, "start_execution", parsed, [], confirmToken, [parent]);
+        if (held) {
+          return held;
+        }
+        
+        executions[id] = job;
+        persistExecutions();
+        startExecution(job, executionContext(job, market));
         
         return {
           content: [{
             type: "text",
-            text: JSON.stringify(marketData, null, 2)
+            text: JSON.stringify({ resource: `hyperliquid://execution/${id}`, ...executionReport(job) }, null, 2)
           }]
         };
       } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
         const errorMessage = error instanceof Error ? error.message : String(error);
         throw new McpError(
           ErrorCode.InternalError,
-          `Failed to fetch market data: ${errorMessage}`
+          `Failed to start execution: ${errorMessage}`
         );
       }
     }
-    
-    // Trading tool - Place order
-    case "place_order": {
-      const args = request.params.arguments || {};
-      const symbol = args.symbol as string;
-      const side = args.side as 'buy' | 'sell';
-      const size = Number(args.size);
-      const price = args.price !== undefined ? Number(args.price) : undefined;
-      const orderType = args.orderType as 'limit' | 'market';
-      const reduceOnly = args.reduceOnly !== undefined ? Boolean(args.reduceOnly) : false;
+  },
+  
+  {
+    name: "get_execution",
+    description: "Progress of an execution: filled quantity, average price against the arrival price, and remaining slices. Without executionId, lists all executions",
+    inputSchema: {
+      type: "object",
+      properties: {
+        executionId: {
+          type: "string",
+          description: "ID of the execution"
+        }
+      }
+    },
+    handler: async (args) => {
+      const executionId = args.executionId as string | undefined;
+      
+      if (executionId === undefined) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(Object.values(executions).map((job) => {
+              const { params, slices, ...summary } = executionReport(job);
+              return summary;
+            }), null, 2)
+          }]
+        };
+      }
+      
+      const job = executions[executionId];
+      if (!job) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Execution ${executionId} not found`
+        );
+      }
+      
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify(executionReport(job), null, 2)
+        }]
+      };
+    }
+  },
+  
+  {
+    name: "cancel_execution",
+    description: "Stop an execution: slices not yet sent are dropped and its resting orders are cancelled. Fills so far are kept",
+    inputSchema: {
+      type: "object",
+      properties: {
+        executionId: {
+          type: "string",
+          description: "ID of the execution to cancel"
+        }
+      },
+      required: ["executionId"]
+    },
+    handler: async (args) => {
+      const executionId = args.executionId as string;
+      
+      const job = executions[executionId];
+      if (!job) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Execution ${executionId} not found`
+        );
+      }
+      if (job.status !== "running") {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Execution ${executionId} is not running: it is ${job.status}`
+        );
+      }
+      
+      try {
+        await cancelExecution(job, executionContext(job), true);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        job.lastError = `Orders could not be cancelled: ${errorMessage}`;
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Execution ${executionId} stopped but its orders could not be cancelled: ${errorMessage}`
+        );
+      } finally {
+        persistExecutions();
+        notifyResourceUpdated(`hyperliquid://execution/${executionId}`);
+      }
+      
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify(executionReport(job), null, 2)
+        }]
+      };
+    }
+  },
+  
+  // Strategy management tools
+  {
+    name: "create_strategy",
+    description: "Create a new trading strategy",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Name of the strategy"
+        },
+        description: {
+          type: "string",
+          description: "Description of the strategy"
+        },
+        type: {
+          type: "string",
+          enum: STRATEGY_TYPES,
+          description: "Strategy type (grid, dca or mean_reversion)"
+        },
+        config: {
+          type: "object",
+          description: "Strategy configuration. All types take symbol (e.g., BTC-PERP), orderSize and intervalSeconds. " +
+            "grid: lowerPrice, upperPrice, levels. " +
+            "dca: side (buy or sell), maxOrders, slippage. " +
+            "mean_reversion: lookback (ticks), entryThreshold and exitThreshold (percent from the rolling mean), slippage"
+        },
+        account: {
+          type: "string",
+          description: "Account the strategy trades on (default: the active account)"
+        }
+      },
+      required: ["name", "description", "type", "config"]
+    },
+    handler: async (args) => {
+      const name = args.name as string;
+      const description = args.description as string;
+      const type = args.type as string;
+      const config = args.config as any;
+      
+      // Validate inputs
+      if (!name || !description || !type || !config) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "Name, description, type, and config are required"
+        );
+      }
+      
+      const validatedConfig = validateStrategyConfig(type, config);
+      const account = args.account !== undefined ? parseAccountName(args.account) : activeAccountName;
+      
+      // Generate a unique ID for the strategy
+      const id = `strategy-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+      
+      // Store the strategy
+      strategies[id] = {
+        id,
+        name,
+        description,
+        type: type as Strategy["type"],
+        config: validatedConfig,
+        account,
+        active: false,
+        state: createStrategyState()
+      };
+      persistStrategies();
+      
+      return {
+        content: [{
+          type: "text",
+          text: `Created strategy "${name}" with ID: ${id} on account ${account}`
+        }]
+      };
+    }
+  },
+  
+  {
+    name: "activate_strategy",
+    description: "Activate or deactivate a strategy",
+    inputSchema: {
+      type: "object",
+      properties: {
+        strategyId: {
+          type: "string",
+          description: "ID of the strategy to activate/deactivate"
+        },
+        active: {
+          type: "boolean",
+          description: "Whether to activate (true) or deactivate (false) the strategy"
+        },
+        cancelOrders: {
+          type: "boolean",
+          description: "When deactivating, also cancel the strategy's resting orders (default: false)"
+        }
+      },
+      required: ["strategyId", "active"]
+    },
+    handler: async (args) => {
+      const strategyId = args.strategyId as string;
+      const active = args.active as boolean | undefined;
+      const cancelOrders = args.cancelOrders !== undefined ? Boolean(args.cancelOrders) : false;
       
       // Validate inputs
-      if (!symbol || !side || !size || !orderType) {
+      if (!strategyId || typeof active !== "boolean") {
         throw new McpError(
           ErrorCode.InvalidParams,
-          "Symbol, side, size, and orderType are required"
+          "StrategyId and active status are required"
+        );
+      }
+      
+      // Check if strategy exists
+      if (!strategies[strategyId]) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Strategy ${strategyId} not found`
         );
       }
       
-      if (!hyperliquidClient) {
-        hyperliquidClient = initializeClient();
+      const strategy = strategies[strategyId];
+      
+      if (active) {
+        if (tradingHalt) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            `Trading has been halted from the dashboard since ${tradingHalt.since}. Resume it there before activating strategies`
+          );
+        }
+        requireTradingClient(getAccount(strategy.account ?? DEFAULT_ACCOUNT));
+        startStrategy(strategy, strategyContext(strategy));
+      } else {
+        try {
+          await stopStrategy(strategy, strategyContext(strategy), cancelOrders);
+        } catch (error) {
+          persistStrategies();
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Strategy ${strategyId} stopped but its orders could not be cancelled: ${errorMessage}`
+          );
+        }
       }
       
-      if (!hyperliquidClient) {
+      persistStrategies();
+      
+      return {
+        content: [{
+          type: "text",
+          text: `Strategy ${strategyId} ${active ? 'activated' : 'deactivated'}`
+        }]
+      };
+    }
+  },
+  
+  {
+    name: "delete_strategy",
+    description: "Stop a strategy and permanently delete it",
+    inputSchema: {
+      type: "object",
+      properties: {
+        strategyId: {
+          type: "string",
+          description: "ID of the strategy to delete"
+        },
+        cancelOrders: {
+          type: "boolean",
+          description: "Also cancel the strategy's resting orders (default: false)"
+        }
+      },
+      required: ["strategyId"]
+    },
+    handler: async (args) => {
+      const strategyId = args.strategyId as string;
+      const cancelOrders = args.cancelOrders !== undefined ? Boolean(args.cancelOrders) : false;
+      
+      if (!strategyId) {
         throw new McpError(
-          ErrorCode.InvalidRequest,
-          "No credentials provided. Please authenticate first."
+          ErrorCode.InvalidParams,
+          "StrategyId is required"
         );
       }
       
-      if (!userCredentials.privateKey) {
+      const strategy = strategies[strategyId];
+      if (!strategy) {
         throw new McpError(
           ErrorCode.InvalidRequest,
-          "Private key is required for trading operations"
+          `Strategy ${strategyId} not found`
         );
       }
       
       try {
-        await hyperliquidClient.connect();
-        
-        // Prepare order
-        const orderRequest: any = {
-          coin: symbol,
-          is_buy: side === "buy",
-          sz: size,
-          reduce_only: reduceOnly
-        };
-        
-        // Set order type and price
-        if (orderType === "limit") {
-          if (!price) {
-            throw new McpError(
-              ErrorCode.InvalidParams,
-              "Price is required for limit orders"
-            );
-          }
-          
-          orderRequest.limit_px = price;
-          orderRequest.order_type = { limit: { tif: "Gtc" } };
-        } else {
-          // Market order
-          orderRequest.order_type = { market: {} };
-        }
-        
-        // Place order
-        const result = await hyperliquidClient.exchange.placeOrder(orderRequest);
-        
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify(result, null, 2)
-          }]
-        };
+        await stopStrategy(strategy, strategyContext(strategy), cancelOrders);
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         throw new McpError(
           ErrorCode.InternalError,
-          `Failed to place order: ${errorMessage}`
+          `Strategy ${strategyId} stopped but its orders could not be cancelled, so it was not deleted: ${errorMessage}`
         );
       }
+      
+      delete strategies[strategyId];
+      persistStrategies();
+      
+      return {
+        content: [{
+          type: "text",
+          text: `Deleted strategy ${strategyId}`
+        }]
+      };
     }
-    
-    // Trading tool - Cancel order
-    case "cancel_order": {
-      const args = request.params.arguments || {};
-      const symbol = args.symbol as string;
-      const orderId = args.orderId as string;
+  },
+  
+  {
+    name: "backtest_strategy",
+    description: "Replay a stored strategy over historical candles and report its equity curve, trades, fees, max drawdown, Sharpe ratio and win rate",
+    inputSchema: {
+      type: "object",
+      properties: {
+        strategyId: {
+          type: "string",
+          description: "ID of the strategy to backtest"
+        },
+        file: {
+          type: "string",
+          description: "Path to a local CSV or JSON candle file (time, open, high, low, close, volume). When omitted, candles are fetched from Hyperliquid"
+        },
+        interval: {
+          type: "string",
+          enum: CANDLE_INTERVALS,
+          description: "Candle interval when fetching from Hyperliquid (default: 1h)"
+        },
+        startTime: {
+          type: ["string", "number"],
+          description: "Start of the period when fetching from Hyperliquid: epoch milliseconds, a date (e.g., 2024-05-01), a duration before now (e.g., 24h, 7d), or today/yesterday for UTC midnight (default: 30 days before endTime)"
+        },
+        endTime: {
+          type: ["string", "number"],
+          description: "End of the period when fetching from Hyperliquid, in the same formats as startTime (default: now)"
+        },
+        initialBalance: {
+          type: "number",
+          exclusiveMinimum: 0,
+          description: "Starting USDC balance (default: 10000)"
+        },
+        account: {
+          type: "string",
+          description: "Account whose network candles are fetched from (default: the active account)"
+        }
+      },
+      required: ["strategyId"]
+    },
+    handler: async (args) => {
+      const strategyId = args.strategyId as string;
+      const file = args.file as string | undefined;
+      const interval = (args.interval as string | undefined) || "1h";
+      const initialBalance = args.initialBalance !== undefined ? Number(args.initialBalance) : 10000;
       
-      // Validate inputs
-      if (!symbol || !orderId) {
+      if (!strategyId) {
         throw new McpError(
           ErrorCode.InvalidParams,
-          "Symbol and orderId are required"
+          "StrategyId is required"
         );
       }
       
-      if (!hyperliquidClient) {
-        hyperliquidClient = initializeClient();
-      }
-      
-      if (!hyperliquidClient) {
+      if (!Number.isFinite(initialBalance) || initialBalance <= 0) {
         throw new McpError(
-          ErrorCode.InvalidRequest,
-          "No credentials provided. Please authenticate first."
+          ErrorCode.InvalidParams,
+          "initialBalance must be a positive number"
         );
       }
       
-      if (!userCredentials.privateKey) {
+      const strategy = strategies[strategyId];
+      if (!strategy) {
         throw new McpError(
           ErrorCode.InvalidRequest,
-          "Private key is required for trading operations"
+          `Strategy ${strategyId} not found`
         );
       }
       
-      try {
-        await hyperliquidClient.connect();
+      let candles: Candle[];
+      let source: string;
+      
+      if (file) {
+        try {
+          candles = loadCandlesFromFile(file);
+          source = file;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Failed to load candles from ${file}: ${errorMessage}`
+          );
+        }
+      } else {
+        const now = Date.now();
+        const endTime = args.endTime !== undefined && args.endTime !== "" ? parseTimeArg(args.endTime, "endTime", now) : now;
+        const startTime = args.startTime !== undefined && args.startTime !== ""
+          ? parseTimeArg(args.startTime, "startTime", now)
+          : endTime - 30 * 24 * 60 * 60 * 1000;
         
-        // Cancel order
-        const result = await hyperliquidClient.exchange.cancelOrder({
-          coin: symbol,
-          o: parseInt(orderId, 10)
-        });
+        const account = accounts[args.account !== undefined ? parseAccountName(args.account) : activeAccountName];
+        if (!account || !hasCredentials(account)) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            "No credentials provided. Please authenticate first, or pass a candle file."
+          );
+        }
+        const client = requireClient(account);
         
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify(result, null, 2)
-          }]
-        };
+        try {
+          await client.connect();
+          const market = await requireMarket(account, strategy.config.symbol);
+          const snapshot = await client.info.getCandleSnapshot(
+            market.symbol,
+            interval,
+            startTime,
+            endTime
+          );
+          candles = parseCandleSnapshot(snapshot as any[]);
+          source = `Hyperliquid ${getNetworkName(account)} ${market.symbol} ${interval} candles`;
+        } catch (error) {
+          if (error instanceof McpError) {
+            throw error;
+          }
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to fetch candles: ${errorMessage}`
+          );
+        }
+      }
+      
+      let result: BacktestResult;
+      try {
+        const id = `backtest-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+        result = { id, ...await runBacktest(strategy, candles, { initialBalance, source }) };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         throw new McpError(
           ErrorCode.InternalError,
-          `Failed to cancel order: ${errorMessage}`
+          `Failed to run backtest: ${errorMessage}`
         );
       }
+      
+      backtests[result.id] = result;
+      try {
+        saveBacktests(backtests);
+      } catch (error) {
+        console.error("Failed to save backtests:", error);
+      }
+      
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify(summarizeBacktest(result), null, 2)
+        }]
+      };
     }
-    
-    // Strategy management tool - Create strategy
-    case "create_strategy": {
-      const args = request.params.arguments || {};
-      const name = args.name as string;
-      const description = args.description as string;
-      const config = args.config as any;
+  },
+  
+  {
+    name: "create_alert",
+    description: "Watch a condition on a market's price or funding, or on the account's PnL, margin usage or distance to liquidation. " +
+      "When it fires, the alert is recorded in the hyperliquid://alerts resource, sent to clients as a log notification and can close positions or cancel orders",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...ACCOUNT_PROPERTY,
+        metric: {
+          type: "string",
+          enum: ALERT_METRICS,
+          description: "What to watch: price (mid price), funding (hourly rate in percent, e.g. 0.05 for 0.05%), " +
+            "pnl (unrealized PnL in USDC), margin_usage (margin used as a percentage of account value) or " +
+            "liquidation_distance (percent between the mark and liquidation price, the closest position's without a symbol)"
+        },
+        symbol: {
+          type: "string",
+          description: "Market to watch. Required for price and funding; limits pnl and liquidation_distance to one position"
+        },
+        condition: {
+          type: "string",
+          enum: ALERT_CONDITIONS,
+          description: "above or below fire when the value reaches the threshold; crosses fires when it moves through it either way"
+        },
+        threshold: {
+          type: "number",
+          description: "Value to compare against, in the metric's units"
+        },
+        action: {
+          type: "string",
+          enum: ALERT_ACTIONS,
+          description: "What to do when the alert fires: notify (default), close_position (reduce-only close of the symbol's position, or all positions) " +
+            "or cancel_all (cancel the symbol's orders, or all orders)"
+        },
+        repeat: {
+          type: "boolean",
+          description: "Fire every time the condition is met again instead of once (default: false)"
+        },
+        cooldownSeconds: {
+          type: "integer",
+          minimum: 0,
+          description: "Minimum time between two firings of a repeating alert (default: 300)"
+        },
+        note: {
+          type: "string",
+          description: "Note sent along when the alert fires"
+        }
+      },
+      required: ["metric", "condition", "threshold"]
+    },
+    handler: async (args) => {
+      const account = getAccount(args.account);
       
-      // Validate inputs
-      if (!name || !description || !config) {
-        throw new McpError(
-          ErrorCode.InvalidParams,
-          "Name, description, and config are required"
-        );
+      if (args.action !== undefined && args.action !== "notify") {
+        requireTradingClient(account);
       }
       
-      // Generate a unique ID for the strategy
-      const id = `strategy-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+      let symbol: string | undefined;
+      if (typeof args.symbol === "string" && args.symbol) {
+        symbol = (await findMarket(account, args.symbol))?.symbol ?? args.symbol;
+      }
       
-      // Store the strategy
-      strategies[id] = {
-        id,
-        name,
-        description,
-        config,
-        active: false
+      const id = `alert-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+      const alert = parseAlert(args, id, account.name, symbol);
+      alerts[id] = alert;
+      persistAlerts();
+      scheduleAlertCheck();
+      
+      return {
+        content: [{
+          type: "text",
+          text: `Created alert ${id} on account ${account.name}: ${describeAlert(alert)}` +
+            (alert.action !== "notify" ? `, then ${alert.action}` : "") +
+            `. Checked every ${ALERT_CHECK_INTERVAL_MS / 1000} seconds`
+        }]
       };
+    }
+  },
+  
+  {
+    name: "list_alerts",
+    description: "List alerts with their latest reading, when they last fired and any error checking them",
+    inputSchema: {
+      type: "object",
+      properties: {
+        account: {
+          type: "string",
+          description: "Only list this account's alerts (default: all accounts)"
+        }
+      }
+    },
+    handler: async (args) => {
+      const listed = Object.values(alerts)
+        .filter((alert) => !args.account || alert.account === args.account)
+        .map((alert) => ({ ...alert, description: describeAlert(alert) }));
       
       return {
         content: [{
           type: "text",
-          text: `Created strategy "${name}" with ID: ${id}`
+          text: JSON.stringify(listed, null, 2)
         }]
       };
     }
-    
-    // Strategy management tool - Activate/deactivate strategy
-    case "activate_strategy": {
-      const args = request.params.arguments || {};
-      const strategyId = args.strategyId as string;
-      const active = args.active !== undefined ? Boolean(args.active) : false;
+  },
+  
+  {
+    name: "delete_alert",
+    description: "Stop watching an alert and delete it. The events it fired stay in hyperliquid://alerts",
+    inputSchema: {
+      type: "object",
+      properties: {
+        alertId: {
+          type: "string",
+          description: "ID of the alert to delete"
+        }
+      },
+      required: ["alertId"]
+    },
+    handler: async (args) => {
+      const alertId = args.alertId as string;
       
-      // Validate inputs
-      if (!strategyId || active === undefined) {
+      if (!alerts[alertId]) {
         throw new McpError(
           ErrorCode.InvalidParams,
-          "StrategyId and active status are required"
+          `Alert ${alertId} not found`
         );
       }
       
-      // Check if strategy exists
-      if (!strategies[strategyId]) {
-        throw new McpError(
-          ErrorCode.InvalidRequest,
-          `Strategy ${strategyId} not found`
-        );
+      delete alerts[alertId];
+      persistAlerts();
+      
+      return {
+        content: [{
+          type: "text",
+          text: `Deleted alert ${alertId}`
+        }]
+      };
+    }
+  },
+  
+  // Diagnostics tools
+  {
+    name: "get_diagnostics",
+    description: "Request statistics per API host: the rate-limit weight budget and what was used of it in the last minute, queued requests, " +
+      "cache hits and misses, and per exchange action and info request type the requests, weight, merged duplicates, retries and errors",
+    inputSchema: {
+      type: "object",
+      properties: {
+        clearCache: {
+          type: "boolean",
+          description: "Drop cached market metadata, prices and books afterwards, so the next requests fetch them fresh"
+        }
       }
+    },
+    handler: async (args) => {
+      const schedulers = listSchedulers();
+      const requests = schedulers.map((scheduler) => scheduler.getStats());
       
-      // Update strategy status
-      strategies[strategyId].active = active;
+      if (args.clearCache) {
+        schedulers.forEach((scheduler) => scheduler.clearCache());
+      }
       
       return {
         content: [{
           type: "text",
-          text: `Strategy ${strategyId} ${active ? 'activated' : 'deactivated'}`
+          text: JSON.stringify({ time: new Date().toISOString(), requests }, null, 2)
         }]
       };
     }
+  }
+];
+const TOOL_REGISTRY = new Map(TOOLS.map((tool) => [tool.name, tool]));
+
+/**
+ * Handler for listing available tools
+ * Exposes tools for authentication, trading, and strategy management
+ */
+async function handleListTools() {
+  return { tools: TOOLS.map(({ handler, ...definition }) => definition) };
+}
+
+/**
+ * Handler for tool calls
+ * Arguments are validated against the tool's schema before it runs, and a
+ * failed call comes back as an error result naming the field at fault and
+ * how to fix it. Every call, successful or not, is recorded in the trade
+ * journal, along with where it came from when that is not an MCP client
+ */
+async function handleCallTool(request: CallToolRequest, source?: string) {
+  const startedAt = Date.now();
+  const args = request.params.arguments || {};
+  const name = typeof args.account === "string" && args.account ? args.account : activeAccountName;
+  const network = accounts[name] ? getNetworkName(accounts[name]) : undefined;
+  
+  const record = (outcome: { result?: unknown; error?: unknown }) => {
+    try {
+      appendJournalEntry(createJournalEntry({
+        tool: request.params.name,
+        args,
+        account: name,
+        // A login made by this call is only known once it has run
+        network: network ?? (accounts[name] ? getNetworkName(accounts[name]) : undefined),
+        source
+      }, startedAt, outcome));
+    } catch (error) {
+      console.error("Failed to write the trade journal:", error);
+    }
+  };
+  
+  const tool = TOOL_REGISTRY.get(request.params.name);
+  try {
+    if (!tool) {
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${request.params.name}`);
+    }
+    const validated = validateToolArguments(tool, request.params.arguments);
+    const result = await tool.handler(validated);
+    record({ result });
+    return result;
+  } catch (error) {
+    record({ error });
+    return toolErrorResult(request.params.name, error, tool, [...TOOL_REGISTRY.keys()]);
+  }
+}
+
+/**
+ * Live data for prompts, fetched through the same tools and resources an
+ * MCP client would use
+ */
+const promptData: PromptDataSource = {
+  callTool: (name, args) => runInternalTool(name, args, "prompt") as Promise<{ status: string; response?: unknown; error?: string }>,
+  readResource
+};
+
+/**
+ * Handler for listing prompts
+ * Lists the built-in workflow templates and the user's own
+ */
+async function handleListPrompts() {
+  return {
+    prompts: listPromptTemplates().map((template) => ({
+      name: template.name,
+      description: template.description,
+      arguments: template.arguments.map(({ name, description, required }) => ({ name, description, required }))
+    }))
+  };
+}
+
+/**
+ * Handler for getting a prompt, filled with its arguments and live data
+ */
+async function handleGetPrompt(request: GetPromptRequest) {
+  const template = listPromptTemplates().find((candidate) => candidate.name === request.params.name);
+  if (!template) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown prompt: ${request.params.name}`
+    );
+  }
+  
+  return renderPrompt(template, request.params.arguments ?? {}, promptData);
+}
+
+/**
+ * Read a resource for the dashboard, reporting a failure in place of the
+ * data so one unavailable view does not blank the page
+ */
+async function readDashboardResource(uri: string): Promise<any> {
+  try {
+    const { contents } = await handleReadResource({ method: "resources/read", params: { uri } });
+    return JSON.parse(contents[0].text);
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Run a tool on behalf of the dashboard, an alert or a prompt, so the action
+ * is checked and journaled the same way as an agent's, and report its outcome
+ */
+async function runInternalTool(name: string, args: { [key: string]: unknown }, source: string): Promise<object> {
+  const result: { content: { text?: unknown }[]; isError?: boolean } =
+    await handleCallTool({ method: "tools/call", params: { name, arguments: args } }, source);
+  const text = result.content.map((item) => item.text).join("\n");
+  let response: any;
+  try {
+    response = JSON.parse(text);
+  } catch {
+    response = text;
+  }
+  return result.isError
+    ? { tool: name, arguments: args, status: "error", error: response?.error?.message ?? text }
+    : { tool: name, arguments: args, status: "ok", response };
+}
+
+/**
+ * State and actions behind the dashboard
+ * State is read through the same resources MCP clients read, and actions run
+ * through the same tools
+ */
+const dashboardApi: DashboardApi = {
+  async getState(accountName) {
+    const loggedIn = Object.values(accounts).filter(hasCredentials);
+    const account = accounts[accountName ?? activeAccountName] ?? loggedIn[0];
+    const resourceName = account ? encodeURIComponent(account.name) : "";
+    
+    return {
+      time: new Date().toISOString(),
+      halted: tradingHalt ?? undefined,
+      accounts: loggedIn.map((candidate) => ({
+        name: candidate.name,
+        network: getNetworkName(candidate),
+        active: candidate.name === activeAccountName,
+        canTrade: canTrade(candidate)
+      })),
+      account: account && hasCredentials(account)
+        ? {
+          name: account.name,
+          network: getNetworkName(account),
+          summary: await readDashboardResource(`hyperliquid://account/${resourceName}`),
+          orders: await readDashboardResource(`hyperliquid://orders/${resourceName}`),
+          fills: await readDashboardResource(`hyperliquid://fills/${resourceName}?limit=50`)
+        }
+        : undefined,
+      strategies: Object.values(strategies).map((strategy) => ({
+        id: strategy.id,
+        name: strategy.name,
+        type: strategy.type,
+        symbol: strategy.config.symbol,
+        account: strategy.account ?? DEFAULT_ACCOUNT,
+        active: strategy.active,
+        running: isStrategyRunning(strategy.id),
+        position: strategy.state.position,
+        realizedPnl: strategy.state.realizedPnl,
+        fees: strategy.state.fees,
+        openOrders: strategy.state.openOrders.length,
+        lastError: strategy.state.lastError
+      })),
+      journal: filterJournal(loadJournal(), parseJournalFilter({}, 50)).entries.reverse()
+    };
+  },
+  
+  async setStrategyActive(strategyId, active) {
+    return runInternalTool("activate_strategy", { strategyId, active, cancelOrders: !active }, "dashboard");
+  },
+  
+  /**
+   * Halt trading, stop every strategy and execution and cancel every open order, optionally
+   * closing all positions too. The halt is saved, so it outlasts a restart
+   */
+  async killSwitch({ closePositions }) {
+    tradingHalt = tradingHalt ?? { since: new Date().toISOString(), reason: "Kill switch pressed on the dashboard" };
+    saveTradingHalt(tradingHalt);
+    
+    const actions: object[] = [];
+    for (const strategy of Object.values(strategies)) {
+      if (strategy.active || isStrategyRunning(strategy.id)) {
+        actions.push(await runInternalTool("activate_strategy", { strategyId: strategy.id, active: false, cancelOrders: true }, "dashboard"));
+      }
+    }
+    for (const job of Object.values(executions)) {
+      if (job.status === "running") {
+        actions.push(await runInternalTool("cancel_execution", { executionId: job.id }, "dashboard"));
+      }
+    }
+    for (const account of Object.values(accounts).filter(canTrade)) {
+      actions.push(await runInternalTool("cancel_all_orders", { account: account.name }, "dashboard"));
+      if (closePositions) {
+        actions.push(await runInternalTool("close_all_positions", { account: account.name }, "dashboard"));
+      }
+    }
     
-    default:
-      throw new McpError(
-        ErrorCode.MethodNotFound,
-        `Unknown tool: ${request.params.name}`
-      );
+    return { halted: tradingHalt, actions };
+  },
+  
+  /**
+   * Lift the halt; strategies stay off until turned back on
+   */
+  async resumeTrading() {
+    tradingHalt = null;
+    saveTradingHalt(null);
+    return { halted: false };
   }
-});
+};
 
 /**
- * Start the server using stdio transport
+ * Start the server using stdio transport, or the HTTP transport when asked
+ * for with --http or HYPERLIQUID_MCP_TRANSPORT=http
+ * With --dashboard, stdio mode also serves the dashboard over HTTP
  */
 async function main() {
+  const argv = process.argv.slice(2);
+  if (isAgentCommand(argv)) {
+    await runAgentCommand(argv);
+    return;
+  }
+  
+  const options = parseTransportOptions(argv);
+  const fixtureMode = await startFixtureMode();
+  if (fixtureMode) {
+    console.error(fixtureMode);
+  }
+  await restoreState();
+  
+  if (options.mode === "http") {
+    const httpServer = await startHttpServer(options, { createServer, dashboard: dashboardApi });
+    const address = httpServer.address();
+    const port = address && typeof address === "object" ? address.port : options.port;
+    console.error(`Hyperliquid MCP server listening on http://${options.host}:${port}/sse`);
+    console.error(`Dashboard: ${dashboardUrl(options, port, false)}#token=<HYPERLIQUID_MCP_TOKEN>`);
+    return;
+  }
+  
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer().connect(transport);
   console.error("Hyperliquid MCP server running on stdio");
+  
+  if (options.dashboard) {
+    const httpServer = await startHttpServer(options, { dashboard: dashboardApi });
+    const address = httpServer.address();
+    const port = address && typeof address === "object" ? address.port : options.port;
+    // A token made up for this run is only ever shown here
+    const generatedToken = !process.env.HYPERLIQUID_MCP_TOKEN;
+    console.error(`Dashboard: ${dashboardUrl(options, port, generatedToken)}`);
+  }
 }
 
 main().catch((error) => {
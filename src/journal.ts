@@ -0,0 +1,264 @@
+/**
+ * Trade journal
+ *
+ * An append-only record of every tool call: what was asked, for which
+ * account and network, what came back and how long it took. Secrets are
+ * redacted before anything is written, so the journal can be shared when
+ * reviewing or reconciling what was sent to the exchange.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { parseTimeArg } from "./account.js";
+
+/**
+ * Type definitions for journal entries
+ */
+export interface JournalEntry {
+  time: string;
+  tool: string;
+  account?: string;
+  network?: string;
+  source?: string; // Set when the call came from somewhere other than an MCP client, such as the dashboard
+  arguments: unknown;
+  symbols?: string[];
+  strategyId?: string;
+  status: "ok" | "error";
+  response?: unknown;
+  error?: { code?: number; message: string };
+  durationMs: number;
+}
+
+export interface JournalFilter {
+  since?: number;
+  until?: number;
+  tools?: string[];
+  symbol?: string;
+  strategyId?: string;
+  account?: string;
+  status?: "ok" | "error";
+  limit: number;
+}
+
+export type JournalFormat = "jsonl" | "json" | "csv";
+
+export const JOURNAL_FORMATS: JournalFormat[] = ["jsonl", "json", "csv"];
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 10000;
+const MAX_RESPONSE_LENGTH = 20000;
+const REDACTED = "[redacted]";
+const SECRET_KEY_PATTERN = /private_?key|passphrase|password|secret|mnemonic|seed/i;
+const STRATEGY_ID_PATTERN = /\bstrategy-\d+-\d+\b/;
+const CSV_COLUMNS: (keyof JournalEntry)[] = [
+  "time", "tool", "account", "network", "status", "durationMs",
+  "symbols", "strategyId", "arguments", "response", "error"
+];
+
+/**
+ * Copy tool arguments with the values of secret fields, at any depth,
+ * replaced
+ */
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [
+        key,
+        SECRET_KEY_PATTERN.test(key) && field !== undefined && field !== null ? REDACTED : redactSecrets(field)
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Symbols a call refers to, from symbol and coin arguments at any depth
+ * (batches, strategy configs)
+ */
+function collectSymbols(value: unknown, symbols: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectSymbols(item, symbols));
+  } else if (value && typeof value === "object") {
+    for (const [key, field] of Object.entries(value)) {
+      if ((key === "symbol" || key === "coin") && typeof field === "string" && field) {
+        symbols.add(field);
+      } else {
+        collectSymbols(field, symbols);
+      }
+    }
+  }
+  return symbols;
+}
+
+/**
+ * The text of a tool result, parsed as JSON where possible
+ * Long responses are cut short so one large query cannot bloat the journal
+ */
+function responseOf(result: any): unknown {
+  const text = (result?.content ?? [])
+    .filter((item: any) => item.type === "text")
+    .map((item: any) => item.text)
+    .join("\n");
+
+  if (text.length > MAX_RESPONSE_LENGTH) {
+    return { truncated: true, length: text.length, text: text.slice(0, MAX_RESPONSE_LENGTH) };
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Build the journal entry for a finished tool call
+ * Pass the tool result on success or the thrown error on failure
+ */
+export function createJournalEntry(
+  call: { tool: string; args: { [key: string]: unknown }; account?: string; network?: string; source?: string },
+  startedAt: number,
+  outcome: { result?: unknown; error?: unknown }
+): JournalEntry {
+  const response = outcome.error === undefined ? responseOf(outcome.result) : undefined;
+  const symbols = [...collectSymbols(call.args)];
+  const strategyId = typeof call.args.strategyId === "string"
+    ? call.args.strategyId
+    : STRATEGY_ID_PATTERN.exec(typeof response === "string" ? response : "")?.[0];
+
+  return {
+    time: new Date(startedAt).toISOString(),
+    tool: call.tool,
+    account: call.account,
+    network: call.network,
+    source: call.source,
+    arguments: redactSecrets(call.args),
+    symbols: symbols.length ? symbols : undefined,
+    strategyId,
+    status: outcome.error === undefined ? "ok" : "error",
+    response,
+    error: outcome.error === undefined
+      ? undefined
+      : {
+        code: outcome.error instanceof McpError ? outcome.error.code : undefined,
+        message: outcome.error instanceof Error ? outcome.error.message : String(outcome.error)
+      },
+    durationMs: Date.now() - startedAt
+  };
+}
+
+/**
+ * Validate the since, until, tool, symbol, strategyId, account, status and
+ * limit arguments shared by get_journal and export_journal
+ */
+export function parseJournalFilter(
+  args: { [key: string]: unknown },
+  defaultLimit: number = DEFAULT_LIMIT,
+  now: number = Date.now()
+): JournalFilter {
+  const since = args.since !== undefined ? parseTimeArg(args.since, "since", now) : undefined;
+  const until = args.until !== undefined ? parseTimeArg(args.until, "until", now) : undefined;
+  const limit = args.limit !== undefined ? Number(args.limit) : defaultLimit;
+  const tools = args.tool === undefined
+    ? undefined
+    : (Array.isArray(args.tool) ? args.tool : String(args.tool).split(",")).map((tool) => String(tool).trim());
+
+  if (since !== undefined && until !== undefined && since > until) {
+    throw new McpError(ErrorCode.InvalidParams, "since must be before until");
+  }
+  if (!Number.isInteger(limit) || limit <= 0 || limit > MAX_LIMIT) {
+    throw new McpError(ErrorCode.InvalidParams, `limit must be an integer between 1 and ${MAX_LIMIT}`);
+  }
+  if (args.status !== undefined && args.status !== "ok" && args.status !== "error") {
+    throw new McpError(ErrorCode.InvalidParams, "status must be ok or error");
+  }
+
+  return {
+    since,
+    until,
+    tools,
+    symbol: args.symbol !== undefined && args.symbol !== "" ? String(args.symbol) : undefined,
+    strategyId: args.strategyId !== undefined && args.strategyId !== "" ? String(args.strategyId) : undefined,
+    account: args.account !== undefined && args.account !== "" ? String(args.account) : undefined,
+    status: args.status as JournalFilter["status"],
+    limit
+  };
+}
+
+/**
+ * Base token of a symbol, so BTC, btc-perp and BTC/USDC all match
+ */
+function symbolBase(symbol: string): string {
+  return symbol.trim().toUpperCase().replace(/[-/].*$/, "");
+}
+
+/**
+ * Entries matching a filter, oldest first
+ * When more than limit match, the most recent are kept
+ */
+export function filterJournal(entries: JournalEntry[], filter: JournalFilter): { count: number; entries: JournalEntry[] } {
+  const base = filter.symbol !== undefined ? symbolBase(filter.symbol) : undefined;
+
+  const matches = entries.filter((entry) => {
+    const time = Date.parse(entry.time);
+    return (filter.since === undefined || time >= filter.since) &&
+      (filter.until === undefined || time <= filter.until) &&
+      (!filter.tools || filter.tools.includes(entry.tool)) &&
+      (base === undefined || (entry.symbols ?? []).some((symbol) => symbolBase(symbol) === base)) &&
+      (filter.strategyId === undefined || entry.strategyId === filter.strategyId) &&
+      (filter.account === undefined || entry.account === filter.account) &&
+      (filter.status === undefined || entry.status === filter.status);
+  });
+
+  return { count: matches.length, entries: matches.slice(-filter.limit) };
+}
+
+/**
+ * Quote a CSV field, serializing nested values as JSON
+ */
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  const text = typeof value === "string" ? value : Array.isArray(value) && value.every((item) => typeof item === "string")
+    ? value.join(" ")
+    : typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+}
+
+/**
+ * Validate the file name of a journal export, defaulting to one stamped with
+ * the current time
+ * Exports are always written to the exports folder of the data directory, so
+ * a name with a directory in it, absolute or relative, is refused
+ */
+export function parseExportFileName(value: unknown, format: JournalFormat, now: number = Date.now()): string {
+  if (value === undefined || value === null || value === "") {
+    return `journal-export-${new Date(now).toISOString().replace(/[:.]/g, "-")}.${format}`;
+  }
+  if (typeof value !== "string" || /[/\\\0]/.test(value) || value === "." || value === "..") {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "path must be a plain file name such as trades.csv; exports are written to the exports folder of the data directory"
+    );
+  }
+  return value;
+}
+
+/**
+ * Render entries as JSON lines, a JSON array or CSV with one row per call
+ */
+export function formatJournal(entries: JournalEntry[], format: JournalFormat): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(entries, null, 2) + "\n";
+    case "csv":
+      return [
+        CSV_COLUMNS.join(","),
+        ...entries.map((entry) => CSV_COLUMNS.map((column) => csvField(entry[column])).join(","))
+      ].join("\n") + "\n";
+    default:
+      return entries.map((entry) => JSON.stringify(entry)).join("\n") + (entries.length ? "\n" : "");
+  }
+}
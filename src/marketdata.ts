@@ -0,0 +1,271 @@
+/**
+ * Market data
+ *
+ * Candles, funding history and predictions, asset contexts and order book
+ * analytics, condensed into the figures a trader looks at rather than raw
+ * exchange responses.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { Hyperliquid, L2Book } from "hyperliquid";
+import { AccountFilter, fetchPaged } from "./account.js";
+import { parseCandleSnapshot } from "./backtest.js";
+import { MarketInfo } from "./markets.js";
+
+/**
+ * Type definitions for market data queries
+ */
+export interface BookAnalytics {
+  bestBid?: number;
+  bestAsk?: number;
+  mid?: number;
+  spread?: number;
+  spreadBps?: number;
+  depth: {
+    bps: number;
+    bidSize: number;
+    askSize: number;
+    bidNotional: number;
+    askNotional: number;
+    imbalance: number;
+  }[];
+  imbalance: number;
+}
+
+export const CANDLE_INTERVALS = ["1m", "3m", "5m", "15m", "30m", "1h", "2h", "4h", "8h", "12h", "1d", "3d", "1w", "1M"];
+export const DEFAULT_DEPTH_BPS = [10, 50, 100];
+
+const MINUTE_MS = 60 * 1000;
+const INTERVAL_MS: { [interval: string]: number } = {
+  m: MINUTE_MS,
+  h: 60 * MINUTE_MS,
+  d: 24 * 60 * MINUTE_MS,
+  w: 7 * 24 * 60 * MINUTE_MS,
+  M: 30 * 24 * 60 * MINUTE_MS
+};
+const MAX_CANDLES = 5000;
+const FUNDING_PAGE_SIZE = 500;
+const FUNDING_PERIODS_PER_YEAR = 24 * 365;
+
+/**
+ * Length of a candle interval such as 15m or 1d in milliseconds
+ */
+export function intervalMs(interval: string): number {
+  if (!CANDLE_INTERVALS.includes(interval)) {
+    throw new McpError(ErrorCode.InvalidParams, `interval must be one of: ${CANDLE_INTERVALS.join(", ")}`);
+  }
+  return parseInt(interval, 10) * INTERVAL_MS[interval.slice(-1)];
+}
+
+/**
+ * Validate the depth bands, in basis points from the mid
+ */
+export function parseDepthBps(value: unknown): number[] {
+  if (value === undefined || value === null) {
+    return DEFAULT_DEPTH_BPS;
+  }
+
+  const bands = (Array.isArray(value) ? value : [value]).map(Number);
+  if (!bands.length || bands.some((bps) => !Number.isFinite(bps) || bps <= 0)) {
+    throw new McpError(ErrorCode.InvalidParams, "depthBps must be a list of positive numbers of basis points (e.g., [10, 50, 100])");
+  }
+  return [...new Set(bands)].sort((a, b) => a - b);
+}
+
+/**
+ * Candles for a time range with a summary of the whole range
+ * The exchange serves at most the latest 5000 candles of any range
+ */
+export async function getCandles(
+  client: Hyperliquid,
+  market: MarketInfo,
+  interval: string,
+  filter: AccountFilter
+): Promise<object> {
+  const step = intervalMs(interval);
+  const since = Math.max(filter.since, filter.until - step * MAX_CANDLES);
+  const snapshot = await client.info.getCandleSnapshot(market.symbol, interval, since, filter.until);
+  const candles = parseCandleSnapshot(snapshot as any[]);
+  const page = candles.slice(-filter.limit);
+
+  return {
+    symbol: market.symbol,
+    interval,
+    since: new Date(since).toISOString(),
+    until: new Date(filter.until).toISOString(),
+    count: candles.length,
+    summary: candles.length
+      ? {
+        open: candles[0].open,
+        close: candles[candles.length - 1].close,
+        high: Math.max(...candles.map((candle) => candle.high)),
+        low: Math.min(...candles.map((candle) => candle.low)),
+        change: candles[candles.length - 1].close / candles[0].open - 1,
+        volume: candles.reduce((total, candle) => total + candle.volume, 0)
+      }
+      : undefined,
+    candles: page.map((candle) => ({
+      time: new Date(candle.time).toISOString(),
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume
+    }))
+  };
+}
+
+/**
+ * Hourly funding rates and premiums of a perp over a time range, most
+ * recent last, with the average rate annualized
+ */
+export async function getFundingHistory(client: Hyperliquid, market: MarketInfo, filter: AccountFilter): Promise<object> {
+  requirePerp(market);
+  const entries = await fetchPaged(
+    (since, until) => client.info.perpetuals.getFundingHistory(market.symbol, since, until, true),
+    filter.since,
+    filter.until,
+    FUNDING_PAGE_SIZE
+  );
+
+  const rates = entries.map((entry) => Number(entry.fundingRate));
+  const average = rates.length ? rates.reduce((total, rate) => total + rate, 0) / rates.length : 0;
+
+  return {
+    symbol: market.symbol,
+    since: new Date(filter.since).toISOString(),
+    until: new Date(filter.until).toISOString(),
+    count: entries.length,
+    summary: {
+      averageRate: average,
+      annualizedRate: average * FUNDING_PERIODS_PER_YEAR,
+      minRate: rates.length ? Math.min(...rates) : undefined,
+      maxRate: rates.length ? Math.max(...rates) : undefined
+    },
+    history: entries.slice(-filter.limit).map((entry) => ({
+      time: new Date(entry.time).toISOString(),
+      fundingRate: Number(entry.fundingRate),
+      premium: Number(entry.premium)
+    }))
+  };
+}
+
+/**
+ * Predicted next funding of a perp on Hyperliquid and the other venues the
+ * exchange tracks
+ */
+export async function getPredictedFunding(client: Hyperliquid, market: MarketInfo): Promise<object[]> {
+  requirePerp(market);
+  const predictions: any[] = await client.info.perpetuals.getPredictedFundings(true) as any;
+  const venues: any[] = predictions.find(([coin]) => coin === market.exchangeName)?.[1] ?? [];
+
+  return venues
+    .filter(([, prediction]) => prediction)
+    .map(([venue, prediction]) => ({
+      venue,
+      fundingRate: Number(prediction.fundingRate),
+      nextFundingTime: new Date(prediction.nextFundingTime).toISOString(),
+      intervalHours: prediction.fundingIntervalHours
+    }));
+}
+
+/**
+ * Current context of a market: mark, oracle and mid prices, 24h change and
+ * volume, and for perps open interest, funding and premium
+ */
+export async function getAssetContext(client: Hyperliquid, market: MarketInfo): Promise<object> {
+  if (market.type === "spot") {
+    const [, contexts]: any = await client.info.spot.getSpotMetaAndAssetCtxs(true);
+    const context = contexts.find((candidate: any) => candidate.coin === market.exchangeName) ?? {};
+    return {
+      symbol: market.symbol,
+      type: market.type,
+      markPrice: Number(context.markPx),
+      midPrice: context.midPx !== null && context.midPx !== undefined ? Number(context.midPx) : undefined,
+      prevDayPrice: Number(context.prevDayPx),
+      change24h: Number(context.markPx) / Number(context.prevDayPx) - 1,
+      dayVolume: Number(context.dayNtlVlm),
+      dayBaseVolume: Number(context.dayBaseVlm),
+      circulatingSupply: context.circulatingSupply !== undefined ? Number(context.circulatingSupply) : undefined
+    };
+  }
+
+  const [, contexts]: any = await client.info.perpetuals.getMetaAndAssetCtxs(true);
+  const context = contexts[market.assetIndex] ?? {};
+  const markPrice = Number(context.markPx);
+  const funding = Number(context.funding);
+
+  return {
+    symbol: market.symbol,
+    type: market.type,
+    markPrice,
+    oraclePrice: Number(context.oraclePx),
+    midPrice: context.midPx !== null && context.midPx !== undefined ? Number(context.midPx) : undefined,
+    prevDayPrice: Number(context.prevDayPx),
+    change24h: markPrice / Number(context.prevDayPx) - 1,
+    dayVolume: Number(context.dayNtlVlm),
+    dayBaseVolume: Number(context.dayBaseVlm),
+    openInterest: Number(context.openInterest),
+    openInterestNotional: Number(context.openInterest) * markPrice,
+    funding,
+    annualizedFunding: funding * FUNDING_PERIODS_PER_YEAR,
+    premium: context.premium !== null && context.premium !== undefined ? Number(context.premium) : undefined,
+    impactPrices: context.impactPxs ? context.impactPxs.map(Number) : undefined,
+    maxLeverage: market.maxLeverage
+  };
+}
+
+/**
+ * Summarize a book: the spread in basis points, resting size and notional
+ * within each depth band of the mid, and the bid/ask imbalance
+ * Imbalance runs from -1 (all asks) to 1 (all bids)
+ */
+export function analyzeBook(book: L2Book, depthBps: number[] = DEFAULT_DEPTH_BPS): BookAnalytics {
+  const [bids, asks] = book.levels.map((side) => side.map((level) => ({ px: Number(level.px), sz: Number(level.sz) })));
+  const imbalance = (bid: number, ask: number) => (bid + ask > 0 ? (bid - ask) / (bid + ask) : 0);
+  const notional = (levels: { px: number; sz: number }[]) => levels.reduce((total, level) => total + level.px * level.sz, 0);
+
+  const bestBid = bids[0]?.px;
+  const bestAsk = asks[0]?.px;
+  if (bestBid === undefined || bestAsk === undefined) {
+    return {
+      bestBid,
+      bestAsk,
+      depth: [],
+      imbalance: imbalance(notional(bids), notional(asks))
+    };
+  }
+
+  const mid = (bestBid + bestAsk) / 2;
+  return {
+    bestBid,
+    bestAsk,
+    mid,
+    spread: bestAsk - bestBid,
+    spreadBps: ((bestAsk - bestBid) / mid) * 10000,
+    depth: depthBps.map((bps) => {
+      const bidLevels = bids.filter((level) => level.px >= mid * (1 - bps / 10000));
+      const askLevels = asks.filter((level) => level.px <= mid * (1 + bps / 10000));
+      const bidNotional = notional(bidLevels);
+      const askNotional = notional(askLevels);
+      return {
+        bps,
+        bidSize: bidLevels.reduce((total, level) => total + level.sz, 0),
+        askSize: askLevels.reduce((total, level) => total + level.sz, 0),
+        bidNotional,
+        askNotional,
+        imbalance: imbalance(bidNotional, askNotional)
+      };
+    }),
+    imbalance: imbalance(notional(bids), notional(asks))
+  };
+}
+
+/**
+ * Reject spot markets for perp-only data
+ */
+function requirePerp(market: MarketInfo): void {
+  if (market.type !== "perp") {
+    throw new McpError(ErrorCode.InvalidParams, `Funding only applies to perp markets, not ${market.symbol}`);
+  }
+}
@@ -0,0 +1,321 @@
+/**
+ * Market metadata
+ *
+ * A cached registry of perp and spot markets built from the exchange's meta
+ * endpoints. It resolves the different ways a market can be named to the
+ * SDK's canonical symbols (BTC-PERP, PURR-SPOT) and applies each asset's
+ * size, price and minimum notional rules before orders are sent.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { Hyperliquid } from "hyperliquid";
+
+/**
+ * Type definitions for market metadata
+ */
+export type MarketType = "perp" | "spot";
+export type MarketSort = "volume" | "name" | "openInterest" | "change";
+
+export interface MarketInfo {
+  symbol: string;
+  type: MarketType;
+  base: string;
+  quote: string;
+  exchangeName: string;
+  assetIndex: number;
+  szDecimals: number;
+  priceDecimals: number;
+  maxLeverage?: number;
+  onlyIsolated?: boolean;
+  markPrice?: number;
+  midPrice?: number;
+  prevDayPrice?: number;
+  dayVolume?: number;
+  funding?: number;
+  openInterest?: number;
+}
+
+export interface MarketFilter {
+  type?: MarketType;
+  search?: string;
+  sortBy?: MarketSort;
+  limit?: number;
+}
+
+interface MarketRegistry {
+  markets: MarketInfo[];
+  aliases: Map<string, MarketInfo>;
+  loadedAt: number;
+}
+
+export const MARKET_SORTS: MarketSort[] = ["volume", "name", "openInterest", "change"];
+export const MIN_ORDER_NOTIONAL = 10;
+
+const CACHE_TTL_MS = 60 * 1000;
+const SIGNIFICANT_FIGURES = 5;
+const PERP_MAX_DECIMALS = 6;
+const SPOT_MAX_DECIMALS = 8;
+const SPOT_ASSET_OFFSET = 10000;
+
+/**
+ * Registries by client, so switching accounts or networks starts a fresh cache
+ */
+const registries = new WeakMap<Hyperliquid, MarketRegistry>();
+
+/**
+ * Parse an optional decimal string from an asset context
+ */
+function optionalNumber(value: string | null | undefined): number | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Build the registry from raw perp and spot meta responses
+ * Spot markets follow the SDK: each base token maps to the first pair that
+ * quotes it, named TOKEN-SPOT
+ */
+function buildRegistry(perpMeta: any, spotMeta: any): MarketRegistry {
+  const markets: MarketInfo[] = [];
+  const [perpUniverse, perpContexts] = perpMeta;
+  const [spotUniverse, spotContexts] = spotMeta;
+
+  perpUniverse.universe.forEach((asset: any, index: number) => {
+    const context = perpContexts[index] ?? {};
+    markets.push({
+      symbol: `${asset.name}-PERP`,
+      type: "perp",
+      base: asset.name,
+      quote: "USDC",
+      exchangeName: asset.name,
+      assetIndex: index,
+      szDecimals: asset.szDecimals,
+      priceDecimals: Math.max(0, PERP_MAX_DECIMALS - asset.szDecimals),
+      maxLeverage: asset.maxLeverage,
+      onlyIsolated: asset.onlyIsolated ?? false,
+      markPrice: optionalNumber(context.markPx),
+      midPrice: optionalNumber(context.midPx),
+      prevDayPrice: optionalNumber(context.prevDayPx),
+      dayVolume: optionalNumber(context.dayNtlVlm),
+      funding: optionalNumber(context.funding),
+      openInterest: optionalNumber(context.openInterest)
+    });
+  });
+
+  const tokens: any[] = spotUniverse.tokens;
+  for (const token of tokens) {
+    const pair = spotUniverse.universe.find((market: any) => market.tokens[0] === token.index);
+    if (!pair) {
+      continue;
+    }
+
+    const quote = tokens.find((candidate) => candidate.index === pair.tokens[1]);
+    const context = spotContexts.find((candidate: any) => candidate.coin === pair.name) ?? {};
+    markets.push({
+      symbol: `${token.name}-SPOT`,
+      type: "spot",
+      base: token.name,
+      quote: quote?.name ?? "USDC",
+      exchangeName: pair.name,
+      assetIndex: SPOT_ASSET_OFFSET + pair.index,
+      szDecimals: token.szDecimals,
+      priceDecimals: Math.max(0, SPOT_MAX_DECIMALS - token.szDecimals),
+      markPrice: optionalNumber(context.markPx),
+      midPrice: optionalNumber(context.midPx),
+      prevDayPrice: optionalNumber(context.prevDayPx),
+      dayVolume: optionalNumber(context.dayNtlVlm)
+    });
+  }
+
+  // Aliases are added in priority order; the first market to claim a name keeps it
+  const aliases = new Map<string, MarketInfo>();
+  const addAlias = (alias: string, market: MarketInfo) => {
+    const key = alias.toUpperCase();
+    if (!aliases.has(key)) {
+      aliases.set(key, market);
+    }
+  };
+
+  const perps = markets.filter((market) => market.type === "perp");
+  const spots = markets.filter((market) => market.type === "spot");
+
+  markets.forEach((market) => addAlias(market.symbol, market));
+  spots.forEach((market) => {
+    addAlias(market.exchangeName, market);
+    addAlias(`${market.base}/${market.quote}`, market);
+  });
+  perps.forEach((market) => {
+    addAlias(market.base, market);
+    addAlias(`${market.base}-USD`, market);
+    addAlias(`${market.base}-USDC`, market);
+    addAlias(`${market.base}/USD`, market);
+    addAlias(`${market.base}/USDC`, market);
+  });
+  spots.forEach((market) => addAlias(market.base, market));
+
+  return { markets, aliases, loadedAt: Date.now() };
+}
+
+/**
+ * Get the market registry for a client, refreshing it once it is stale
+ */
+async function loadRegistry(client: Hyperliquid, forceRefresh: boolean = false): Promise<MarketRegistry> {
+  const cached = registries.get(client);
+  if (cached && !forceRefresh && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return cached;
+  }
+
+  try {
+    const [perpMeta, spotMeta] = await Promise.all([
+      client.info.perpetuals.getMetaAndAssetCtxs(true),
+      client.info.spot.getSpotMetaAndAssetCtxs(true)
+    ]);
+    const registry = buildRegistry(perpMeta, spotMeta);
+    registries.set(client, registry);
+    return registry;
+  } catch (error) {
+    // Serve stale metadata rather than failing when a refresh errors
+    if (cached) {
+      return cached;
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load market metadata: ${errorMessage}`);
+  }
+}
+
+/**
+ * All known markets, perps first
+ */
+export async function listMarkets(client: Hyperliquid, forceRefresh: boolean = false): Promise<MarketInfo[]> {
+  return (await loadRegistry(client, forceRefresh)).markets;
+}
+
+/**
+ * Resolve a symbol such as BTC, btc-perp, BTC/USDC, PURR/USDC or @107 to its
+ * market
+ * Bare names prefer the perp. Throws an InvalidParams error, with close
+ * matches, for unknown symbols
+ */
+export async function resolveMarket(client: Hyperliquid, symbol: string): Promise<MarketInfo> {
+  const registry = await loadRegistry(client);
+  const key = symbol.trim().toUpperCase();
+  const market = registry.aliases.get(key);
+  if (market) {
+    return market;
+  }
+
+  const base = key.replace(/[-/].*$/, "");
+  const suggestions = registry.markets
+    .filter((candidate) => base && candidate.base.toUpperCase().includes(base))
+    .slice(0, 5)
+    .map((candidate) => candidate.symbol);
+
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    `Unknown market: ${symbol}` + (suggestions.length ? ` (did you mean ${suggestions.join(", ")}?)` : "")
+  );
+}
+
+/**
+ * Resolve a symbol to a spot market
+ * Bare token names such as PURR mean their spot pair here, since a spot
+ * order must never land on a perp of the same name
+ */
+export async function resolveSpotMarket(client: Hyperliquid, symbol: string): Promise<MarketInfo> {
+  const key = symbol.trim();
+  const spotKey = /[-/@]/.test(key) ? key : `${key}-SPOT`;
+  const market = await resolveMarket(client, spotKey);
+  if (market.type !== "spot") {
+    throw new McpError(ErrorCode.InvalidParams, `${symbol} is a ${market.type} market, not a spot pair`);
+  }
+  return market;
+}
+
+/**
+ * Round a size down to the asset's size decimals, so an order never ends up
+ * larger than asked for
+ * The small tolerance keeps sizes such as 0.29 from losing a step to
+ * floating-point error
+ */
+export function floorSize(market: MarketInfo, size: number): number {
+  const factor = 10 ** market.szDecimals;
+  return Number((Math.floor(size * factor + 1e-9) / factor).toFixed(market.szDecimals));
+}
+
+/**
+ * Round a size down to the asset's size decimals
+ * Throws an InvalidParams error if nothing is left after rounding
+ */
+export function roundSize(market: MarketInfo, size: number): number {
+  const rounded = floorSize(market, size);
+  if (rounded <= 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Size ${size} is below the minimum size of ${Math.pow(10, -market.szDecimals)} for ${market.symbol}`
+    );
+  }
+  return rounded;
+}
+
+/**
+ * Round a price to what the exchange accepts for an asset: at most five
+ * significant figures and no more than the asset's price decimals
+ * Integer prices are always accepted
+ */
+export function roundMarketPrice(market: MarketInfo, price: number): number {
+  if (Number.isInteger(price)) {
+    return price;
+  }
+  const significant = Number(price.toPrecision(SIGNIFICANT_FIGURES));
+  return Number(significant.toFixed(market.priceDecimals));
+}
+
+/**
+ * Reject orders below the exchange's minimum order value
+ * Reduce-only orders are exempt so small positions can still be closed
+ */
+export function checkMinNotional(market: MarketInfo, size: number, price: number, reduceOnly: boolean): void {
+  const notional = size * price;
+  if (!reduceOnly && notional < MIN_ORDER_NOTIONAL) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Order value $${notional.toFixed(2)} for ${market.symbol} is below the $${MIN_ORDER_NOTIONAL} minimum`
+    );
+  }
+}
+
+/**
+ * Filter, search and sort markets for list_markets
+ * The search matches the base token or exchange name
+ */
+export function filterMarkets(markets: MarketInfo[], filter: MarketFilter): MarketInfo[] {
+  const search = filter.search?.trim().toUpperCase();
+  const change = (market: MarketInfo) =>
+    market.markPrice && market.prevDayPrice ? market.markPrice / market.prevDayPrice - 1 : 0;
+
+  const matches = markets.filter((market) =>
+    (!filter.type || market.type === filter.type) &&
+    (!search ||
+      market.base.toUpperCase().includes(search) ||
+      market.exchangeName.toUpperCase().includes(search))
+  );
+
+  switch (filter.sortBy ?? "volume") {
+    case "name":
+      matches.sort((a, b) => a.symbol.localeCompare(b.symbol));
+      break;
+    case "openInterest":
+      matches.sort((a, b) => (b.openInterest ?? 0) * (b.markPrice ?? 0) - (a.openInterest ?? 0) * (a.markPrice ?? 0));
+      break;
+    case "change":
+      matches.sort((a, b) => Math.abs(change(b)) - Math.abs(change(a)));
+      break;
+    default:
+      matches.sort((a, b) => (b.dayVolume ?? 0) - (a.dayVolume ?? 0));
+  }
+
+  return filter.limit !== undefined ? matches.slice(0, filter.limit) : matches;
+}
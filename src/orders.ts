@@ -0,0 +1,406 @@
+/**
+ * Order building
+ *
+ * Turns the order arguments accepted by the trading tools into SDK order
+ * requests. Market orders become aggressive IOC limits capped by a slippage
+ * fraction, trigger orders carry tpsl/triggerPx/isMarket, and brackets
+ * attach take-profit and stop-loss children to an entry order. Sizes and
+ * prices are rounded to the market's rules when its metadata is known.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { Grouping, Hyperliquid, Order, Tif } from "hyperliquid";
+import { MarketInfo, checkMinNotional, roundMarketPrice, roundSize } from "./markets.js";
+import { OrderIntent } from "./risk.js";
+
+/**
+ * Type definitions for parsed order arguments
+ */
+export type OrderKind = "limit" | "market" | "trigger";
+
+export interface OrderSpec {
+  symbol: string;
+  side: "buy" | "sell";
+  size: number;
+  orderType: OrderKind;
+  price?: number;
+  tif: Tif;
+  reduceOnly: boolean;
+  cloid?: string;
+  slippage: number;
+  triggerPrice?: number;
+  tpsl?: "tp" | "sl";
+  isMarket: boolean;
+  takeProfit?: number;
+  stopLoss?: number;
+}
+
+export interface OrderResult {
+  symbol: string;
+  side: "buy" | "sell";
+  size: number;
+  cloid?: string;
+  status: "resting" | "filled" | "error";
+  oid?: number;
+  filledSize?: number;
+  avgPrice?: number;
+  error?: string;
+}
+
+export interface CancelSpec {
+  symbol: string;
+  orderId?: number;
+  cloid?: string;
+}
+
+export const ORDER_KINDS: OrderKind[] = ["limit", "market", "trigger"];
+export const TIME_IN_FORCE: Tif[] = ["Gtc", "Ioc", "Alo"];
+export const DEFAULT_SLIPPAGE = 0.05;
+
+const CLOID_PATTERN = /^0x[0-9a-fA-F]{32}$/;
+
+/**
+ * Round a price to the five significant figures Hyperliquid accepts
+ */
+export function roundPrice(price: number): number {
+  return Number(price.toPrecision(5));
+}
+
+/**
+ * Price an order may cross the book to, given a reference price and a
+ * slippage cap
+ */
+export function aggressivePrice(side: "buy" | "sell", referencePrice: number, slippage: number): number {
+  return side === "buy" ? referencePrice * (1 + slippage) : referencePrice * (1 - slippage);
+}
+
+/**
+ * Read an optional positive number, throwing an InvalidParams error if it is
+ * present but invalid
+ */
+function optionalPrice(args: any, field: string, prefix: string): number | undefined {
+  if (args[field] === undefined || args[field] === null) {
+    return undefined;
+  }
+
+  const value = Number(args[field]);
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new McpError(ErrorCode.InvalidParams, `${prefix}${field} must be a positive number`);
+  }
+  return value;
+}
+
+/**
+ * Validate a client order ID: a 16-byte hex string such as
+ * 0x1234567890abcdef1234567890abcdef
+ */
+export function parseCloid(value: unknown, field: string = "cloid"): string | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+  if (typeof value !== "string" || !CLOID_PATTERN.test(value)) {
+    throw new McpError(ErrorCode.InvalidParams, `${field} must be a 16-byte hex string (0x followed by 32 hex characters)`);
+  }
+  return value.toLowerCase();
+}
+
+/**
+ * Validate order arguments from a tool call
+ * The prefix names the order in error messages for batch tools
+ */
+export function parseOrderSpec(args: any, prefix: string = ""): OrderSpec {
+  const symbol = args.symbol;
+  const side = args.side;
+  const size = Number(args.size);
+  const orderType = args.orderType;
+
+  if (typeof symbol !== "string" || !symbol) {
+    throw new McpError(ErrorCode.InvalidParams, `${prefix}symbol is required`);
+  }
+  if (side !== "buy" && side !== "sell") {
+    throw new McpError(ErrorCode.InvalidParams, `${prefix}side must be buy or sell`);
+  }
+  if (!Number.isFinite(size) || size <= 0) {
+    throw new McpError(ErrorCode.InvalidParams, `${prefix}size must be a positive number`);
+  }
+  if (!ORDER_KINDS.includes(orderType)) {
+    throw new McpError(ErrorCode.InvalidParams, `${prefix}orderType must be one of: ${ORDER_KINDS.join(", ")}`);
+  }
+
+  const tif = args.tif ?? (orderType === "market" ? "Ioc" : "Gtc");
+  if (!TIME_IN_FORCE.includes(tif)) {
+    throw new McpError(ErrorCode.InvalidParams, `${prefix}tif must be one of: ${TIME_IN_FORCE.join(", ")}`);
+  }
+
+  const slippage = args.slippage !== undefined ? Number(args.slippage) : DEFAULT_SLIPPAGE;
+  if (!Number.isFinite(slippage) || slippage <= 0 || slippage >= 1) {
+    throw new McpError(ErrorCode.InvalidParams, `${prefix}slippage must be a fraction between 0 and 1 (e.g., 0.01 for 1%)`);
+  }
+
+  // Price 0 was the old way of asking for a market order
+  const price = args.price === 0 && orderType === "market" ? undefined : optionalPrice(args, "price", prefix);
+
+  const spec: OrderSpec = {
+    symbol,
+    side,
+    size,
+    orderType,
+    price,
+    tif,
+    reduceOnly: Boolean(args.reduceOnly),
+    cloid: parseCloid(args.cloid, `${prefix}cloid`),
+    slippage,
+    isMarket: args.isMarket !== undefined ? Boolean(args.isMarket) : true,
+    takeProfit: optionalPrice(args, "takeProfit", prefix),
+    stopLoss: optionalPrice(args, "stopLoss", prefix)
+  };
+
+  if (orderType === "limit" && spec.price === undefined) {
+    throw new McpError(ErrorCode.InvalidParams, `${prefix}price is required for limit orders`);
+  }
+  if (orderType === "market" && args.tif !== undefined && tif !== "Ioc") {
+    throw new McpError(ErrorCode.InvalidParams, `${prefix}market orders are always sent as IOC`);
+  }
+
+  if (orderType === "trigger") {
+    spec.triggerPrice = optionalPrice(args, "triggerPrice", prefix);
+    spec.tpsl = args.tpsl;
+    if (spec.triggerPrice === undefined) {
+      throw new McpError(ErrorCode.InvalidParams, `${prefix}triggerPrice is required for trigger orders`);
+    }
+    if (spec.tpsl !== "tp" && spec.tpsl !== "sl") {
+      throw new McpError(ErrorCode.InvalidParams, `${prefix}tpsl must be tp or sl for trigger orders`);
+    }
+    if (!spec.isMarket && spec.price === undefined) {
+      throw new McpError(ErrorCode.InvalidParams, `${prefix}price is required for trigger limit orders (isMarket: false)`);
+    }
+  }
+
+  return spec;
+}
+
+/**
+ * Build a trigger order request
+ * Market triggers still need a limit price; it caps slippage from the
+ * trigger price once the order fires
+ */
+function triggerOrder(
+  symbol: string,
+  side: "buy" | "sell",
+  size: number,
+  triggerPrice: number,
+  tpsl: "tp" | "sl",
+  isMarket: boolean,
+  limitPrice: number | undefined,
+  slippage: number,
+  reduceOnly: boolean,
+  round: (price: number) => number
+): Order {
+  return {
+    coin: symbol,
+    is_buy: side === "buy",
+    sz: size,
+    limit_px: round(isMarket ? aggressivePrice(side, triggerPrice, slippage) : limitPrice!),
+    order_type: { trigger: { triggerPx: round(triggerPrice), isMarket, tpsl } },
+    reduce_only: reduceOnly
+  };
+}
+
+/**
+ * Check that bracket exits sit on the right side of the entry: above it for
+ * the take-profit of a buy and below it for the stop-loss, the other way
+ * round for a sell
+ * A swapped exit would trigger as soon as the entry fills. The entry is the
+ * limit or trigger price, or the reference price of a market order
+ */
+function checkBracketPrices(spec: OrderSpec, referencePrice?: number): void {
+  const entry = spec.orderType === "market"
+    ? referencePrice
+    : spec.orderType === "trigger" ? spec.triggerPrice : spec.price;
+  if (entry === undefined) {
+    return;
+  }
+
+  const direction = spec.side === "buy" ? 1 : -1;
+  const [profitSide, lossSide] = spec.side === "buy" ? ["above", "below"] : ["below", "above"];
+  if (spec.takeProfit !== undefined && direction * (spec.takeProfit - entry) <= 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `takeProfit ${spec.takeProfit} must be ${profitSide} the entry price of ${entry} for a ${spec.side} order`
+    );
+  }
+  if (spec.stopLoss !== undefined && direction * (entry - spec.stopLoss) <= 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `stopLoss ${spec.stopLoss} must be ${lossSide} the entry price of ${entry} for a ${spec.side} order`
+    );
+  }
+}
+
+/**
+ * Build the SDK order requests for an order spec
+ * Returns the entry order first, followed by any take-profit and stop-loss
+ * children. Market orders need the current mid price as a reference. Without
+ * market metadata, prices only get the generic five-figure rounding
+ */
+export function buildOrderRequests(spec: OrderSpec, market?: MarketInfo, referencePrice?: number): Order[] {
+  const round = (price: number) => market ? roundMarketPrice(market, price) : roundPrice(price);
+  const symbol = market?.symbol ?? spec.symbol;
+  // Spot balances are not positions, so there is nothing to reduce or protect
+  if (market?.type === "spot" &&
+      (spec.reduceOnly || spec.orderType === "trigger" || spec.takeProfit !== undefined || spec.stopLoss !== undefined)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `${market.symbol} is a spot market: reduce-only, trigger and bracket orders only apply to perps`
+    );
+  }
+  const size = market ? roundSize(market, spec.size) : spec.size;
+  let entry: Order;
+
+  if (spec.orderType === "trigger") {
+    entry = triggerOrder(
+      symbol,
+      spec.side,
+      size,
+      spec.triggerPrice!,
+      spec.tpsl!,
+      spec.isMarket,
+      spec.price,
+      spec.slippage,
+      spec.reduceOnly,
+      round
+    );
+  } else {
+    const limitPrice = spec.orderType === "market"
+      ? aggressivePrice(spec.side, referencePrice!, spec.slippage)
+      : spec.price!;
+
+    entry = {
+      coin: symbol,
+      is_buy: spec.side === "buy",
+      sz: size,
+      limit_px: round(limitPrice),
+      order_type: { limit: { tif: spec.tif } },
+      reduce_only: spec.reduceOnly
+    };
+  }
+
+  if (market) {
+    checkMinNotional(market, size, Number(entry.limit_px), spec.reduceOnly);
+  }
+
+  if (spec.cloid) {
+    entry.cloid = spec.cloid;
+  }
+
+  checkBracketPrices(spec, referencePrice);
+
+  const exitSide = spec.side === "buy" ? "sell" : "buy";
+  const children: Order[] = [];
+  if (spec.takeProfit !== undefined) {
+    children.push(triggerOrder(symbol, exitSide, size, spec.takeProfit, "tp", true, undefined, spec.slippage, true, round));
+  }
+  if (spec.stopLoss !== undefined) {
+    children.push(triggerOrder(symbol, exitSide, size, spec.stopLoss, "sl", true, undefined, spec.slippage, true, round));
+  }
+
+  return [entry, ...children];
+}
+
+/**
+ * Describe an order request for the risk checks
+ */
+export function toOrderIntent(order: Order): OrderIntent {
+  return {
+    symbol: order.coin,
+    side: order.is_buy ? "buy" : "sell",
+    size: Number(order.sz),
+    price: Number(order.limit_px),
+    reduceOnly: order.reduce_only
+  };
+}
+
+/**
+ * Send one or more orders in a single action
+ * Brackets use the normalTpsl grouping so the children only activate once
+ * the entry fills
+ */
+export async function sendOrders(client: Hyperliquid, orders: Order[], grouping: Grouping = "na"): Promise<any> {
+  if (orders.length === 1 && grouping === "na") {
+    return client.exchange.placeOrder(orders[0]);
+  }
+  return client.exchange.placeOrder({ orders, grouping });
+}
+
+/**
+ * Pair each order with its status from an order response
+ */
+export function orderResults(orders: Order[], result: any): OrderResult[] {
+  const statuses: any[] = result?.status === "ok" ? result.response?.data?.statuses ?? [] : [];
+  const rejection = result?.status === "ok"
+    ? "No status returned for this order"
+    : String(result?.response ?? "Order rejected");
+
+  return orders.map((order, index) => {
+    const status = statuses[index];
+    const entry: OrderResult = {
+      symbol: order.coin,
+      side: order.is_buy ? "buy" : "sell",
+      size: Number(order.sz),
+      cloid: order.cloid,
+      status: "error"
+    };
+
+    if (status?.resting) {
+      entry.status = "resting";
+      entry.oid = status.resting.oid;
+    } else if (status?.filled) {
+      entry.status = "filled";
+      entry.oid = status.filled.oid;
+      entry.filledSize = parseFloat(status.filled.totalSz);
+      entry.avgPrice = parseFloat(status.filled.avgPx);
+    } else {
+      entry.error = status?.error ?? (typeof status === "string" ? status : rejection);
+    }
+
+    return entry;
+  });
+}
+
+/**
+ * Validate cancel arguments, each naming an order by orderId or cloid
+ */
+export function parseCancels(cancels: any[]): CancelSpec[] {
+  return cancels.map((cancel, index) => {
+    const prefix = cancels.length > 1 ? `orders[${index}].` : "";
+    if (typeof cancel?.symbol !== "string" || !cancel.symbol) {
+      throw new McpError(ErrorCode.InvalidParams, `${prefix}symbol is required`);
+    }
+
+    const cloid = parseCloid(cancel.cloid, `${prefix}cloid`);
+    if (cloid) {
+      return { symbol: cancel.symbol, cloid };
+    }
+
+    const orderId = parseInt(String(cancel.orderId), 10);
+    if (Number.isNaN(orderId)) {
+      throw new McpError(ErrorCode.InvalidParams, `${prefix}orderId or cloid is required`);
+    }
+    return { symbol: cancel.symbol, orderId };
+  });
+}
+
+/**
+ * Status of one cancel from a cancel response
+ */
+export function cancelStatus(result: any, index: number): { status: "canceled" | "error"; error?: string } {
+  if (result?.status !== "ok") {
+    return { status: "error", error: String(result?.response ?? "Cancel rejected") };
+  }
+
+  const status = result.response?.data?.statuses?.[index];
+  if (status === "success") {
+    return { status: "canceled" };
+  }
+  return { status: "error", error: status?.error ?? JSON.stringify(status) };
+}
@@ -0,0 +1,990 @@
+/**
+ * Paper trading
+ *
+ * An in-process simulated exchange that keeps its own balances, positions,
+ * resting orders and fills, and matches orders against L2 books taken from
+ * the real info API or from recorded snapshots. It answers the same calls and
+ * returns the same response shapes as the SDK, so handlers work unchanged in
+ * paper mode.
+ */
+
+import fs from "fs";
+import { Hyperliquid, L2Book } from "hyperliquid";
+
+/**
+ * Type definitions for the simulated account
+ */
+export interface PaperPosition {
+  coin: string;
+  size: number;
+  entryPx: number;
+  leverage: number;
+  isolated?: boolean;
+  isolatedMargin?: number;
+}
+
+export interface PaperOrder {
+  oid: number;
+  coin: string;
+  side: "B" | "A";
+  limitPx: number;
+  sz: number;
+  origSz: number;
+  tif: "Gtc" | "Ioc" | "Alo";
+  reduceOnly: boolean;
+  timestamp: number;
+  cloid?: string;
+  parentOid?: number;
+  trigger?: {
+    triggerPx: number;
+    isMarket: boolean;
+    tpsl: "tp" | "sl";
+  };
+}
+
+export interface PaperFill {
+  coin: string;
+  px: string;
+  sz: string;
+  side: "B" | "A";
+  time: number;
+  startPosition: string;
+  dir: string;
+  closedPnl: string;
+  hash: string;
+  oid: number;
+  crossed: boolean;
+  fee: string;
+  tid: number;
+  feeToken: string;
+}
+
+export interface PaperState {
+  perpUsdc: number;
+  spotBalances: { [token: string]: number };
+  positions: { [coin: string]: PaperPosition };
+  openOrders: PaperOrder[];
+  fills: PaperFill[];
+  nextOid: number;
+  nextTid: number;
+  leverage?: { [coin: string]: { value: number; isolated: boolean } };
+}
+
+/**
+ * Function returning the current L2 book for a coin
+ */
+export type BookSource = (coin: string) => Promise<L2Book>;
+
+const TAKER_FEE = 0.00035;
+const MAKER_FEE = 0.0001;
+const DEFAULT_LEVERAGE = 20;
+const MAX_LEVERAGE = 50;
+const TRIGGER_MARKET_SLIPPAGE = 0.1;
+const MAX_FILLS = 2000;
+
+/**
+ * Create a fresh paper account funded with USDC in the perp account
+ */
+export function createPaperState(balance: number): PaperState {
+  return {
+    perpUsdc: balance,
+    spotBalances: {},
+    positions: {},
+    openOrders: [],
+    fills: [],
+    nextOid: 1,
+    nextTid: 1
+  };
+}
+
+/**
+ * Build a book source from a recorded snapshot file
+ * The file maps coins (e.g. BTC-PERP or BTC) to L2 books as returned by
+ * getL2Book
+ */
+export function loadBookSnapshots(filePath: string): BookSource {
+  const snapshots: { [coin: string]: L2Book } = JSON.parse(fs.readFileSync(filePath, "utf8"));
+
+  return async (coin: string) => {
+    const book = snapshots[coin] ?? snapshots[coin.replace(/-(PERP|SPOT)$/, "")];
+    if (!book) {
+      throw new Error(`No recorded book snapshot for ${coin}`);
+    }
+    return book;
+  };
+}
+
+/**
+ * Whether a coin refers to a spot market
+ */
+function isSpot(coin: string): boolean {
+  return coin.endsWith("-SPOT");
+}
+
+/**
+ * Format a number the way the API returns decimals
+ */
+function toDecimal(value: number): string {
+  return Number(value.toFixed(8)).toString();
+}
+
+/**
+ * Build an order status response in the exchange's format
+ */
+function orderResponse(statuses: any[]): any {
+  return {
+    status: "ok",
+    response: {
+      type: "order",
+      data: { statuses }
+    }
+  };
+}
+
+/**
+ * Build a cancel status response in the exchange's format
+ */
+function cancelResponse(statuses: any[]): any {
+  return {
+    status: "ok",
+    response: {
+      type: "cancel",
+      data: { statuses }
+    }
+  };
+}
+
+/**
+ * Simulated exchange backing paper mode
+ * Implements the subset of the SDK's ExchangeAPI and InfoAPI used by the
+ * server, answering from local state instead of the network
+ */
+export class PaperExchange {
+  constructor(
+    private state: PaperState,
+    private getBook: BookSource,
+    private onChange: (state: PaperState) => void = () => undefined,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Place one order, or several when given { orders: [...] }
+   * With the normalTpsl grouping the first order is the entry and the rest
+   * are its take-profit and stop-loss children, which wait for it to fill
+   */
+  async placeOrder(orderRequest: any): Promise<any> {
+    await this.sync();
+
+    const orders: any[] = orderRequest.orders ?? [orderRequest];
+    const bracket = orderRequest.grouping === "normalTpsl";
+    const statuses: any[] = [];
+    for (const [index, order] of orders.entries()) {
+      const parent = bracket && index > 0 ? statuses[0] : undefined;
+      if (parent?.error) {
+        statuses.push({ error: "Parent order failed." });
+        continue;
+      }
+      try {
+        statuses.push(await this.executeOrder(order, parent?.resting?.oid));
+      } catch (error) {
+        statuses.push({ error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    this.onChange(this.state);
+    return orderResponse(statuses);
+  }
+
+  /**
+   * Cancel one or more resting orders by order ID
+   */
+  async cancelOrder(cancelRequests: { coin: string; o: number } | { coin: string; o: number }[]): Promise<any> {
+    const cancels = Array.isArray(cancelRequests) ? cancelRequests : [cancelRequests];
+
+    const statuses = cancels.map((cancel) => this.cancelMatching(
+      (order) => order.oid === cancel.o && order.coin === cancel.coin
+    ));
+
+    this.onChange(this.state);
+    return cancelResponse(statuses);
+  }
+
+  /**
+   * Cancel a resting order by client order ID
+   */
+  async cancelOrderByCloid(coin: string, cloid: string): Promise<any> {
+    const status = this.cancelMatching(
+      (order) => order.cloid === cloid.toLowerCase() && order.coin === coin
+    );
+
+    this.onChange(this.state);
+    return cancelResponse([status]);
+  }
+
+  /**
+   * Replace a resting order, identified by order ID or client order ID, with
+   * a new one
+   */
+  async modifyOrder(oid: number | string, orderRequest: any): Promise<any> {
+    await this.sync();
+
+    const existing = this.state.openOrders.find((order) =>
+      typeof oid === "string" ? order.cloid === oid.toLowerCase() : order.oid === oid
+    );
+    if (!existing) {
+      return { status: "err", response: "Cannot modify canceled or filled order" };
+    }
+    if (existing.coin !== orderRequest.coin) {
+      return { status: "err", response: "Cannot modify an order into a different asset" };
+    }
+
+    this.removeOrder(existing.oid);
+    let status;
+    try {
+      status = await this.executeOrder({ cloid: existing.cloid, ...orderRequest }, existing.parentOid);
+    } catch (error) {
+      status = { error: error instanceof Error ? error.message : String(error) };
+    }
+
+    this.onChange(this.state);
+    return orderResponse([status]);
+  }
+
+  /**
+   * Set a coin's leverage and margin mode
+   * The mode cannot change while a position is open, and the account must
+   * still cover its margin at the new leverage
+   */
+  async updateLeverage(coin: string, leverageMode: string, leverage: number): Promise<any> {
+    const isolated = leverageMode === "isolated";
+    const position = this.state.positions[coin];
+
+    if (!Number.isInteger(leverage) || leverage < 1 || leverage > MAX_LEVERAGE) {
+      return { status: "err", response: "Invalid leverage value." };
+    }
+    if (position && Boolean(position.isolated) !== isolated) {
+      return { status: "err", response: "Cannot switch leverage type with open position." };
+    }
+
+    if (position) {
+      const previous = { ...position };
+      position.leverage = leverage;
+      if (isolated) {
+        position.isolatedMargin = (Math.abs(position.size) * position.entryPx) / leverage;
+      }
+      if (this.totalMargin() > this.state.perpUsdc) {
+        this.state.positions[coin] = previous;
+        return { status: "err", response: "Insufficient margin to update leverage." };
+      }
+    }
+
+    (this.state.leverage ??= {})[coin] = { value: leverage, isolated };
+    this.onChange(this.state);
+    return { status: "ok", response: { type: "default" } };
+  }
+
+  /**
+   * Add margin to, or with a negative amount remove it from, an isolated
+   * position
+   * The amount is in millionths of USDC, as the exchange takes it
+   */
+  async updateIsolatedMargin(coin: string, isBuy: boolean, ntli: number): Promise<any> {
+    const position = this.state.positions[coin];
+    const amount = ntli / 1e6;
+
+    if (!position || !position.isolated) {
+      return { status: "err", response: "No isolated position to update margin for." };
+    }
+
+    const margin = (position.isolatedMargin ?? 0) + amount;
+    const markPx = await this.getMidPrice(coin);
+    if (amount < 0 && margin < (Math.abs(position.size) * markPx) / MAX_LEVERAGE) {
+      return { status: "err", response: "Insufficient margin remaining in position." };
+    }
+    if (amount > 0 && this.totalMargin() + amount > this.state.perpUsdc) {
+      return { status: "err", response: "Insufficient balance to add margin." };
+    }
+
+    position.isolatedMargin = margin;
+    this.onChange(this.state);
+    return { status: "ok", response: { type: "default" } };
+  }
+
+  /**
+   * Move USDC between the spot and perp balances
+   * Only USDC not held as margin can leave the perp account
+   */
+  async transferBetweenSpotAndPerp(usdc: number, toPerp: boolean): Promise<any> {
+    const balances = this.state.spotBalances;
+    if (toPerp) {
+      if ((balances.USDC ?? 0) < usdc) {
+        return { status: "err", response: "Insufficient spot balance." };
+      }
+      balances.USDC -= usdc;
+      this.state.perpUsdc += usdc;
+    } else {
+      const error = this.debitPerp(usdc);
+      if (error) {
+        return error;
+      }
+      balances.USDC = (balances.USDC ?? 0) + usdc;
+    }
+
+    this.onChange(this.state);
+    return { status: "ok", response: { type: "default" } };
+  }
+
+  /**
+   * Send USDC from the perp balance to another address
+   * The funds simply leave the paper account
+   */
+  async usdTransfer(destination: string, amount: number): Promise<any> {
+    const error = this.debitPerp(amount);
+    if (error) {
+      return error;
+    }
+    this.onChange(this.state);
+    return { status: "ok", response: { type: "default" } };
+  }
+
+  /**
+   * Send a spot token, given as NAME or NAME:tokenId, to another address
+   */
+  async spotTransfer(destination: string, token: string, amount: string): Promise<any> {
+    const name = token.split(":")[0];
+    const size = Number(amount);
+    const balances = this.state.spotBalances;
+    if ((balances[name] ?? 0) < size) {
+      return { status: "err", response: "Insufficient spot balance." };
+    }
+
+    balances[name] -= size;
+    if (balances[name] <= 1e-12) {
+      delete balances[name];
+    }
+    this.onChange(this.state);
+    return { status: "ok", response: { type: "default" } };
+  }
+
+  /**
+   * Withdraw USDC from the perp balance to L1
+   */
+  async initiateWithdrawal(destination: string, amount: number): Promise<any> {
+    return this.usdTransfer(destination, amount);
+  }
+
+  /**
+   * Perp account state in the clearinghouseState format
+   */
+  async getClearinghouseState(): Promise<any> {
+    await this.sync();
+
+    let unrealizedPnl = 0;
+    let totalNtlPos = 0;
+    let totalMarginUsed = 0;
+    const assetPositions = [];
+
+    for (const position of Object.values(this.state.positions)) {
+      const markPx = await this.getMidPrice(position.coin);
+      const positionValue = Math.abs(position.size) * markPx;
+      const positionPnl = position.size * (markPx - position.entryPx);
+      const marginUsed = position.isolated ? position.isolatedMargin ?? 0 : positionValue / position.leverage;
+
+      unrealizedPnl += positionPnl;
+      totalNtlPos += positionValue;
+      totalMarginUsed += marginUsed;
+
+      assetPositions.push({
+        type: "oneWay",
+        position: {
+          coin: position.coin,
+          szi: toDecimal(position.size),
+          entryPx: toDecimal(position.entryPx),
+          positionValue: toDecimal(positionValue),
+          unrealizedPnl: toDecimal(positionPnl),
+          returnOnEquity: toDecimal(marginUsed > 0 ? positionPnl / marginUsed : 0),
+          liquidationPx: null,
+          leverage: position.isolated
+            ? { type: "isolated", value: position.leverage, rawUsd: toDecimal(-position.size * position.entryPx + marginUsed) }
+            : { type: "cross", value: position.leverage },
+          marginUsed: toDecimal(marginUsed),
+          maxLeverage: MAX_LEVERAGE,
+          cumFunding: { allTime: "0", sinceChange: "0", sinceOpen: "0" }
+        }
+      });
+    }
+
+    const accountValue = this.state.perpUsdc + unrealizedPnl;
+    const summary = {
+      accountValue: toDecimal(accountValue),
+      totalNtlPos: toDecimal(totalNtlPos),
+      totalRawUsd: toDecimal(this.state.perpUsdc),
+      totalMarginUsed: toDecimal(totalMarginUsed)
+    };
+
+    return {
+      assetPositions,
+      crossMarginSummary: summary,
+      marginSummary: summary,
+      crossMaintenanceMarginUsed: toDecimal(totalMarginUsed / 2),
+      withdrawable: toDecimal(Math.max(0, accountValue - totalMarginUsed)),
+      time: this.now()
+    };
+  }
+
+  /**
+   * Spot balances in the spotClearinghouseState format
+   */
+  async getSpotClearinghouseState(): Promise<any> {
+    await this.sync();
+
+    const balances = Object.entries(this.state.spotBalances)
+      .filter(([, total]) => total !== 0)
+      .map(([coin, total]) => {
+        const hold = this.state.openOrders
+          .filter((order) => isSpot(order.coin))
+          .reduce((sum, order) => {
+            const token = order.coin.replace(/-SPOT$/, "");
+            if (order.side === "A" && token === coin) {
+              return sum + order.sz;
+            }
+            if (order.side === "B" && coin === "USDC") {
+              return sum + order.sz * order.limitPx;
+            }
+            return sum;
+          }, 0);
+
+        return { coin, token: 0, total: toDecimal(total), hold: toDecimal(hold), entryNtl: "0" };
+      });
+
+    return { balances };
+  }
+
+  /**
+   * Resting orders in the openOrders format
+   */
+  async getUserOpenOrders(): Promise<any[]> {
+    await this.sync();
+
+    return this.state.openOrders.map((order) => ({
+      coin: order.coin,
+      side: order.side,
+      limitPx: toDecimal(order.limitPx),
+      sz: toDecimal(order.sz),
+      oid: order.oid,
+      timestamp: order.timestamp,
+      origSz: toDecimal(order.origSz),
+      cloid: order.cloid,
+      reduceOnly: order.reduceOnly,
+      isTrigger: order.trigger !== undefined,
+      triggerPx: order.trigger ? toDecimal(order.trigger.triggerPx) : "0.0",
+      triggerCondition: order.trigger
+        ? `Price ${this.firesOnRise(order) ? "above" : "below"} ${toDecimal(order.trigger.triggerPx)}`
+        : "N/A",
+      orderType: order.trigger
+        ? `${order.trigger.tpsl === "tp" ? "Take Profit" : "Stop"} ${order.trigger.isMarket ? "Market" : "Limit"}`
+        : "Limit",
+      tif: order.tif
+    }));
+  }
+
+  /**
+   * Most recent fills, newest first, in the userFills format
+   */
+  async getUserFills(): Promise<PaperFill[]> {
+    await this.sync();
+    return [...this.state.fills].reverse();
+  }
+
+  /**
+   * Fills within a time range, oldest first, in the userFillsByTime format
+   */
+  async getUserFillsByTime(startTime: number, endTime?: number): Promise<PaperFill[]> {
+    await this.sync();
+    return this.state.fills.filter(
+      (fill) => fill.time >= startTime && (endTime === undefined || fill.time <= endTime)
+    );
+  }
+
+  /**
+   * Fee rates in the userFees format: the simulator charges the same rates
+   * on perps and spot
+   */
+  getUserFees(): any {
+    return {
+      userCrossRate: toDecimal(TAKER_FEE),
+      userAddRate: toDecimal(MAKER_FEE),
+      userSpotCrossRate: toDecimal(TAKER_FEE),
+      userSpotAddRate: toDecimal(MAKER_FEE)
+    };
+  }
+
+  /**
+   * Match resting limit orders and fire trigger orders against current books
+   */
+  async sync(): Promise<void> {
+    if (this.state.openOrders.length === 0) {
+      return;
+    }
+
+    let changed = false;
+    const coins = [...new Set(this.state.openOrders.map((order) => order.coin))];
+
+    for (const coin of coins) {
+      const book = await this.getBook(coin);
+      const midPrice = this.bookMid(book);
+
+      for (const order of this.state.openOrders.filter((o) => o.coin === coin)) {
+        if (order.trigger) {
+          if (this.isWaitingForParent(order) || !this.isTriggered(order, midPrice)) {
+            continue;
+          }
+          this.removeOrder(order.oid);
+          const limitPx = order.trigger.isMarket
+            ? midPrice * (order.side === "B" ? 1 + TRIGGER_MARKET_SLIPPAGE : 1 - TRIGGER_MARKET_SLIPPAGE)
+            : order.limitPx;
+          try {
+            this.takeLiquidity(book, { ...order, limitPx, tif: "Ioc" });
+          } catch (error) {
+            // A triggered order that can no longer be filled simply expires
+          }
+          changed = true;
+          continue;
+        }
+
+        const available = this.walkBook(book, order.side === "B", order.limitPx, order.sz)
+          .reduce((total, level) => total + level.sz, 0);
+        if (available <= 0) {
+          continue;
+        }
+
+        // Reduce-only orders are canceled once there is nothing left to reduce
+        const size = Math.min(available, this.reducibleSize(order));
+        try {
+          if (size > 0) {
+            this.applyFill(order, order.limitPx, size, false);
+          }
+          order.sz = size > 0 ? order.sz - size : 0;
+        } catch (error) {
+          order.sz = 0;
+        }
+        if (order.sz <= 1e-12) {
+          this.removeOrder(order.oid);
+        }
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this.onChange(this.state);
+    }
+  }
+
+  /**
+   * Execute a single order from an SDK order request
+   * Returns the order status entry for the response
+   */
+  private async executeOrder(request: any, parentOid?: number): Promise<any> {
+    const coin = request.coin as string;
+    const size = Number(request.sz);
+    const limitPx = Number(request.limit_px);
+    const orderType = request.order_type ?? {};
+
+    if (!coin || !Number.isFinite(size) || size <= 0) {
+      throw new Error("Order has invalid size.");
+    }
+    if (!Number.isFinite(limitPx) || limitPx <= 0) {
+      throw new Error("Order has invalid price.");
+    }
+
+    const order: PaperOrder = {
+      oid: this.state.nextOid++,
+      coin,
+      side: request.is_buy ? "B" : "A",
+      limitPx,
+      sz: size,
+      origSz: size,
+      tif: "Gtc",
+      reduceOnly: Boolean(request.reduce_only),
+      timestamp: this.now(),
+      cloid: request.cloid?.toLowerCase(),
+      parentOid
+    };
+
+    if (order.cloid && this.state.openOrders.some((open) => open.cloid === order.cloid)) {
+      throw new Error("Duplicate client order ID.");
+    }
+
+    if (orderType.trigger) {
+      order.trigger = {
+        triggerPx: Number(orderType.trigger.triggerPx),
+        isMarket: Boolean(orderType.trigger.isMarket),
+        tpsl: orderType.trigger.tpsl
+      };
+      this.state.openOrders.push(order);
+      return { resting: { oid: order.oid } };
+    }
+
+    if (!orderType.limit) {
+      throw new Error("Invalid order type.");
+    }
+    order.tif = orderType.limit.tif ?? "Gtc";
+
+    if (this.reducibleSize(order) <= 0) {
+      throw new Error("Reduce only order would increase position.");
+    }
+    this.checkFunds(order);
+
+    const book = await this.getBook(coin);
+    const crossing = this.walkBook(book, order.side === "B", limitPx, size);
+
+    if (order.tif === "Alo" && crossing.length > 0) {
+      throw new Error("Post only order would have immediately matched, bbo was " + this.bookBbo(book));
+    }
+
+    if (crossing.length === 0) {
+      if (order.tif === "Ioc") {
+        throw new Error("Order could not immediately match against any resting orders.");
+      }
+      this.state.openOrders.push(order);
+      return { resting: { oid: order.oid } };
+    }
+
+    const { filledSize, avgPx } = this.takeLiquidity(book, order);
+
+    if (order.sz > 1e-12 && order.tif === "Gtc") {
+      this.state.openOrders.push(order);
+      return { resting: { oid: order.oid } };
+    }
+
+    return { filled: { totalSz: toDecimal(filledSize), avgPx: toDecimal(avgPx), oid: order.oid } };
+  }
+
+  /**
+   * Fill an order against the book as a taker, reducing its remaining size
+   */
+  private takeLiquidity(book: L2Book, order: PaperOrder): { filledSize: number; avgPx: number } {
+    const levels = this.walkBook(book, order.side === "B", order.limitPx, order.sz);
+    let filledSize = 0;
+    let notional = 0;
+
+    for (const level of levels) {
+      const size = Math.min(level.sz, this.reducibleSize(order));
+      if (size <= 0) {
+        break;
+      }
+      this.applyFill(order, level.px, size, true);
+      filledSize += size;
+      notional += size * level.px;
+      order.sz -= size;
+    }
+
+    // Whatever a reduce-only order can no longer reduce is canceled
+    if (this.reducibleSize(order) <= 0) {
+      order.sz = 0;
+    }
+
+    return { filledSize, avgPx: filledSize > 0 ? notional / filledSize : 0 };
+  }
+
+  /**
+   * Walk the opposite side of the book up to a limit price
+   * Returns the price levels and sizes an order of the given size would take
+   */
+  private walkBook(book: L2Book, isBuy: boolean, limitPx: number, size: number): { px: number; sz: number }[] {
+    const levels = isBuy ? book.levels[1] : book.levels[0];
+    const result = [];
+    let remaining = size;
+
+    for (const level of levels) {
+      const px = parseFloat(level.px);
+      if (remaining <= 1e-12 || (isBuy ? px > limitPx : px < limitPx)) {
+        break;
+      }
+      const sz = Math.min(remaining, parseFloat(level.sz));
+      result.push({ px, sz });
+      remaining -= sz;
+    }
+
+    return result;
+  }
+
+  /**
+   * How much of an order may still fill
+   * Reduce-only orders are capped at the size of the opposing position
+   */
+  private reducibleSize(order: PaperOrder): number {
+    if (!order.reduceOnly) {
+      return order.sz;
+    }
+
+    const position = this.state.positions[order.coin]?.size ?? 0;
+    const reducing = order.side === "B" ? position < 0 : position > 0;
+    return reducing ? Math.min(order.sz, Math.abs(position)) : 0;
+  }
+
+  /**
+   * Reject orders the account cannot pay for at their limit price
+   */
+  private checkFunds(order: PaperOrder): void {
+    const notional = order.sz * order.limitPx;
+
+    if (isSpot(order.coin)) {
+      const token = order.coin.replace(/-SPOT$/, "");
+      const available = order.side === "B"
+        ? this.state.spotBalances.USDC ?? 0
+        : this.state.spotBalances[token] ?? 0;
+      const required = order.side === "B" ? notional * (1 + TAKER_FEE) : order.sz;
+      if (available < required) {
+        throw new Error("Insufficient spot balance.");
+      }
+      return;
+    }
+
+    if (order.reduceOnly) {
+      return;
+    }
+
+    const position = this.state.positions[order.coin];
+    const currentSize = position?.size ?? 0;
+    const newSize = currentSize + (order.side === "B" ? order.sz : -order.sz);
+    if (Math.abs(newSize) <= Math.abs(currentSize)) {
+      return;
+    }
+
+    const leverage = position?.leverage ?? this.leverageSetting(order.coin).value;
+    const otherMargin = this.totalMargin(order.coin);
+    if (otherMargin + (Math.abs(newSize) * order.limitPx) / leverage > this.state.perpUsdc) {
+      throw new Error("Insufficient margin to place order.");
+    }
+  }
+
+  /**
+   * Take USDC out of the perp balance, returning the exchange's error when
+   * the margin in use leaves too little to withdraw
+   */
+  private debitPerp(amount: number): any {
+    if (this.state.perpUsdc - this.totalMargin() < amount) {
+      return { status: "err", response: "Insufficient withdrawable balance." };
+    }
+    this.state.perpUsdc -= amount;
+    return undefined;
+  }
+
+  /**
+   * Leverage and margin mode new positions in a coin open with
+   */
+  private leverageSetting(coin: string): { value: number; isolated: boolean } {
+    return this.state.leverage?.[coin] ?? { value: DEFAULT_LEVERAGE, isolated: false };
+  }
+
+  /**
+   * Margin held by open positions at their entry prices, optionally leaving
+   * one coin out
+   */
+  private totalMargin(excludeCoin?: string): number {
+    return Object.values(this.state.positions)
+      .filter((position) => position.coin !== excludeCoin)
+      .reduce((total, position) => total + (position.isolated
+        ? position.isolatedMargin ?? 0
+        : (Math.abs(position.size) * position.entryPx) / position.leverage), 0);
+  }
+
+  /**
+   * Apply a fill to balances and positions and record it
+   */
+  private applyFill(order: PaperOrder, px: number, size: number, crossed: boolean): void {
+    const isBuy = order.side === "B";
+    const fee = px * size * (crossed ? TAKER_FEE : MAKER_FEE);
+    let startPosition = 0;
+    let closedPnl = 0;
+    let dir: string;
+
+    if (isSpot(order.coin)) {
+      const token = order.coin.replace(/-SPOT$/, "");
+      const balances = this.state.spotBalances;
+      startPosition = balances[token] ?? 0;
+
+      if (isBuy) {
+        if ((balances.USDC ?? 0) < px * size + fee) {
+          throw new Error("Insufficient spot balance.");
+        }
+        balances.USDC = (balances.USDC ?? 0) - px * size - fee;
+        balances[token] = startPosition + size;
+      } else {
+        if (startPosition < size) {
+          throw new Error("Insufficient spot balance.");
+        }
+        balances[token] = startPosition - size;
+        balances.USDC = (balances.USDC ?? 0) + px * size - fee;
+      }
+      dir = isBuy ? "Buy" : "Sell";
+    } else {
+      const setting = this.leverageSetting(order.coin);
+      const position: PaperPosition = this.state.positions[order.coin] ?? {
+        coin: order.coin,
+        size: 0,
+        entryPx: 0,
+        leverage: setting.value,
+        isolated: setting.isolated || undefined
+      };
+      startPosition = position.size;
+      const signedSize = isBuy ? size : -size;
+      const newSize = position.size + signedSize;
+
+      if (position.size !== 0 && Math.sign(position.size) !== Math.sign(signedSize)) {
+        const closingSize = Math.min(size, Math.abs(position.size));
+        closedPnl = closingSize * (px - position.entryPx) * Math.sign(position.size);
+      }
+
+      if (Math.abs(newSize) < 1e-12) {
+        delete this.state.positions[order.coin];
+      } else {
+        if (position.isolated) {
+          // Isolated margin grows with the position and is released pro rata as it shrinks
+          position.isolatedMargin = Math.sign(newSize) !== Math.sign(position.size)
+            ? (Math.abs(newSize) * px) / position.leverage
+            : Math.abs(newSize) > Math.abs(position.size)
+              ? (position.isolatedMargin ?? 0) + (size * px) / position.leverage
+              : (position.isolatedMargin ?? 0) * Math.abs(newSize) / Math.abs(position.size);
+        }
+        if (Math.sign(newSize) !== Math.sign(position.size)) {
+          position.entryPx = px;
+        } else if (Math.abs(newSize) > Math.abs(position.size)) {
+          position.entryPx = (Math.abs(position.size) * position.entryPx + size * px) / Math.abs(newSize);
+        }
+        position.size = newSize;
+        this.state.positions[order.coin] = position;
+      }
+
+      this.state.perpUsdc += closedPnl - fee;
+      dir = startPosition === 0 || Math.sign(startPosition) === Math.sign(signedSize)
+        ? (isBuy ? "Open Long" : "Open Short")
+        : Math.abs(signedSize) > Math.abs(startPosition)
+          ? (isBuy ? "Short > Long" : "Long > Short")
+          : (isBuy ? "Close Short" : "Close Long");
+    }
+
+    const tid = this.state.nextTid++;
+    this.state.fills.push({
+      coin: order.coin,
+      px: toDecimal(px),
+      sz: toDecimal(size),
+      side: order.side,
+      time: this.now(),
+      startPosition: toDecimal(startPosition),
+      dir,
+      closedPnl: toDecimal(closedPnl),
+      hash: `paper-${tid}`,
+      oid: order.oid,
+      crossed,
+      fee: toDecimal(fee),
+      tid,
+      feeToken: "USDC"
+    });
+
+    if (this.state.fills.length > MAX_FILLS) {
+      this.state.fills = this.state.fills.slice(-MAX_FILLS);
+    }
+  }
+
+  /**
+   * Whether a trigger order's condition is met at the given price
+   * Take-profit sells and stop-loss buys fire when the price rises to the
+   * trigger; the other two fire when it falls to it
+   */
+  private isTriggered(order: PaperOrder, price: number): boolean {
+    const triggerPx = order.trigger!.triggerPx;
+    return this.firesOnRise(order) ? price >= triggerPx : price <= triggerPx;
+  }
+
+  /**
+   * Whether a trigger order fires when the price rises to its trigger
+   */
+  private firesOnRise(order: PaperOrder): boolean {
+    return (order.trigger!.tpsl === "tp") === (order.side === "A");
+  }
+
+  /**
+   * Whether a bracket child's entry order is still resting
+   */
+  private isWaitingForParent(order: PaperOrder): boolean {
+    return order.parentOid !== undefined &&
+      this.state.openOrders.some((open) => open.oid === order.parentOid);
+  }
+
+  /**
+   * Cancel the first resting order matching a predicate, along with any
+   * bracket children waiting on it
+   * Returns the cancel status entry for the response
+   */
+  private cancelMatching(predicate: (order: PaperOrder) => boolean): any {
+    const order = this.state.openOrders.find(predicate);
+    if (!order) {
+      return { error: "Order was never placed, already canceled, or filled." };
+    }
+
+    this.state.openOrders = this.state.openOrders.filter(
+      (open) => open.oid !== order.oid && open.parentOid !== order.oid
+    );
+    return "success";
+  }
+
+  /**
+   * Remove a resting order by ID
+   */
+  private removeOrder(oid: number): void {
+    this.state.openOrders = this.state.openOrders.filter((order) => order.oid !== oid);
+  }
+
+  /**
+   * Mid price of a coin from its current book
+   */
+  private async getMidPrice(coin: string): Promise<number> {
+    return this.bookMid(await this.getBook(coin));
+  }
+
+  /**
+   * Mid price of a book, falling back to whichever side is present
+   */
+  private bookMid(book: L2Book): number {
+    const [bids, asks] = book.levels;
+    if (bids.length && asks.length) {
+      return (parseFloat(bids[0].px) + parseFloat(asks[0].px)) / 2;
+    }
+    if (bids.length || asks.length) {
+      return parseFloat((bids[0] ?? asks[0]).px);
+    }
+    throw new Error("Order book is empty");
+  }
+
+  /**
+   * Best bid and offer formatted for error messages
+   */
+  private bookBbo(book: L2Book): string {
+    const [bids, asks] = book.levels;
+    return `(${bids[0]?.px ?? "-"}, ${asks[0]?.px ?? "-"})`;
+  }
+}
+
+/**
+ * Route a client's exchange calls and account queries to a paper exchange
+ * Market data calls such as getL2Book and getAllMids still use the client's
+ * network
+ */
+export function attachPaperExchange(client: Hyperliquid, paper: PaperExchange): void {
+  const info = client.info as any;
+
+  client.exchange = paper as any;
+  info.perpetuals.getClearinghouseState = () => paper.getClearinghouseState();
+  info.spot.getSpotClearinghouseState = () => paper.getSpotClearinghouseState();
+  info.getUserOpenOrders = () => paper.getUserOpenOrders();
+  info.getFrontendOpenOrders = () => paper.getUserOpenOrders();
+  info.getUserFills = () => paper.getUserFills();
+  info.getUserFillsByTime = (user: string, startTime: number, endTime?: number) =>
+    paper.getUserFillsByTime(startTime, endTime);
+  info.userFees = async () => paper.getUserFees();
+
+  // Paper positions do not pay or receive funding
+  info.perpetuals.getUserFunding = async () => [];
+}
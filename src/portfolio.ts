@@ -0,0 +1,235 @@
+/**
+ * Portfolio risk report
+ *
+ * Turns the perp clearinghouse state and spot balances into the figures a
+ * risk desk looks at: exposure and net delta in USD, leverage and margin
+ * utilization, distance to liquidation, funding carry and concentration,
+ * per position and for the account as a whole.
+ */
+
+import { Hyperliquid } from "hyperliquid";
+import { listMarkets } from "./markets.js";
+
+/**
+ * Type definitions for the risk report
+ * USD figures are signed where a direction matters: delta is positive when
+ * long, funding carry is positive when the position receives funding
+ */
+export interface PositionRisk {
+  symbol: string;
+  side: "long" | "short";
+  size: number;
+  entryPrice: number;
+  markPrice: number;
+  notional: number;
+  delta: number;
+  unrealizedPnl: number;
+  leverage: { mode: string; value: number; effective: number };
+  marginUsed: number;
+  liquidationPrice?: number;
+  liquidationDistance?: { percent: number; price: number };
+  fundingRate?: number;
+  fundingCarryPerDay?: number;
+  share: number;
+}
+
+export interface SpotRisk {
+  coin: string;
+  total: number;
+  price?: number;
+  usdValue?: number;
+  delta: number;
+  share: number;
+}
+
+export interface RiskReport {
+  time: string;
+  netWorth: {
+    total: number;
+    perpAccountValue: number;
+    spotValue: number;
+    unpricedSpot: string[];
+  };
+  portfolio: {
+    grossExposure: number;
+    netDelta: number;
+    leverage: number;
+    perpLeverage: number;
+    marginUsed: number;
+    marginUtilization: number;
+    maintenanceMargin: number;
+    maintenanceUtilization: number;
+    withdrawable: number;
+    unrealizedPnl: number;
+    fundingCarryPerDay: number;
+    closestLiquidation?: { symbol: string; percent: number; price: number };
+    concentration: {
+      largest?: { symbol: string; share: number };
+      herfindahl: number;
+    };
+  };
+  positions: PositionRisk[];
+  spot: SpotRisk[];
+}
+
+const STABLECOINS = ["USDC", "USDT", "USDT0", "USDH"];
+const HOURS_PER_DAY = 24;
+
+/**
+ * Mark prices of spot tokens keyed by their coin name, with USDC at 1
+ */
+export async function spotPriceMap(client: Hyperliquid): Promise<{ [coin: string]: number }> {
+  const [, spotAssetCtxs] = await client.info.spot.getSpotMetaAndAssetCtxs();
+
+  const priceMap: { [key: string]: number } = {};
+  spotAssetCtxs.forEach((assetCtx: any) => {
+    priceMap[assetCtx.coin] = parseFloat(assetCtx.markPx);
+  });
+
+  // Ensure USDC has a price of 1
+  if (!priceMap["USDC-SPOT"] || priceMap["USDC-SPOT"] === 0) {
+    priceMap["USDC-SPOT"] = 1.0;
+  }
+  return priceMap;
+}
+
+/**
+ * Share of each exposure in the total, as a fraction
+ */
+function share(value: number, total: number): number {
+  return total > 0 ? Math.abs(value) / total : 0;
+}
+
+/**
+ * Build the risk report of a wallet
+ * Spot prices and funding rates come from market data; when it is
+ * unavailable, as for offline paper accounts, stablecoins still count at 1
+ * and the figures that need it are left out
+ */
+export async function getRiskReport(client: Hyperliquid, user: string): Promise<RiskReport> {
+  const [perpState, spotState]: any[] = await Promise.all([
+    client.info.perpetuals.getClearinghouseState(user),
+    client.info.spot.getSpotClearinghouseState(user).catch(() => ({ balances: [] }))
+  ]);
+  const [priceMap, markets] = await Promise.all([
+    spotPriceMap(client).catch(() => ({} as { [coin: string]: number })),
+    listMarkets(client).catch(() => [])
+  ]);
+  const funding = new Map(markets.filter((market) => market.funding !== undefined).map((market) => [market.symbol, market.funding!]));
+
+  const accountValue = Number(perpState.marginSummary.accountValue);
+  const positions: PositionRisk[] = perpState.assetPositions
+    .map(({ position }: any) => position)
+    .filter((position: any) => parseFloat(position.szi) !== 0)
+    .map((position: any): PositionRisk => {
+      const size = parseFloat(position.szi);
+      const notional = Number(position.positionValue);
+      const markPrice = notional / Math.abs(size);
+      const liquidationPrice = position.liquidationPx !== null && position.liquidationPx !== undefined
+        ? Number(position.liquidationPx)
+        : undefined;
+      const fundingRate = funding.get(position.coin);
+      const delta = Math.sign(size) * notional;
+
+      return {
+        symbol: position.coin,
+        side: size > 0 ? "long" : "short",
+        size: Math.abs(size),
+        entryPrice: Number(position.entryPx),
+        markPrice,
+        notional,
+        delta,
+        unrealizedPnl: Number(position.unrealizedPnl),
+        leverage: {
+          mode: position.leverage.type,
+          value: position.leverage.value,
+          effective: accountValue > 0 ? notional / accountValue : 0
+        },
+        marginUsed: Number(position.marginUsed),
+        liquidationPrice,
+        liquidationDistance: liquidationPrice !== undefined
+          ? {
+            percent: (Math.abs(markPrice - liquidationPrice) / markPrice) * 100,
+            price: Math.abs(markPrice - liquidationPrice)
+          }
+          : undefined,
+        fundingRate,
+        // Positive funding is paid by longs to shorts
+        fundingCarryPerDay: fundingRate !== undefined ? -delta * fundingRate * HOURS_PER_DAY : undefined,
+        share: 0
+      };
+    });
+
+  const unpricedSpot: string[] = [];
+  const spot: SpotRisk[] = (spotState?.balances ?? [])
+    .filter((balance: any) => parseFloat(balance.total) !== 0)
+    .map((balance: any) => {
+      const coin = String(balance.coin).replace(/-SPOT$/, "");
+      const total = parseFloat(balance.total);
+      const stable = STABLECOINS.includes(coin);
+      const price = priceMap[balance.coin] ?? priceMap[`${coin}-SPOT`] ?? (stable ? 1 : undefined);
+      if (price === undefined) {
+        unpricedSpot.push(coin);
+      }
+      const usdValue = price !== undefined ? total * price : undefined;
+      return { coin, total, price, usdValue, delta: stable ? 0 : usdValue ?? 0, share: 0 };
+    });
+
+  const spotValue = spot.reduce((total, balance) => total + (balance.usdValue ?? 0), 0);
+  const netWorth = accountValue + spotValue;
+  const exposures = [
+    ...positions.map((position) => ({ symbol: position.symbol, value: position.notional })),
+    ...spot.filter((balance) => balance.delta !== 0).map((balance) => ({ symbol: `${balance.coin}-SPOT`, value: Math.abs(balance.delta) }))
+  ];
+  const grossExposure = exposures.reduce((total, exposure) => total + exposure.value, 0);
+  positions.forEach((position) => {
+    position.share = share(position.notional, grossExposure);
+  });
+  spot.forEach((balance) => {
+    balance.share = share(balance.delta, grossExposure);
+  });
+
+  const largest = exposures.reduce<{ symbol: string; value: number } | undefined>(
+    (best, exposure) => (!best || exposure.value > best.value ? exposure : best),
+    undefined
+  );
+  const closest = positions
+    .filter((position) => position.liquidationDistance)
+    .sort((a, b) => a.liquidationDistance!.percent - b.liquidationDistance!.percent)[0];
+  const totalNotional = Number(perpState.marginSummary.totalNtlPos);
+  const marginUsed = Number(perpState.marginSummary.totalMarginUsed);
+  const maintenanceMargin = Number(perpState.crossMaintenanceMarginUsed ?? 0);
+
+  return {
+    time: new Date().toISOString(),
+    netWorth: {
+      total: netWorth,
+      perpAccountValue: accountValue,
+      spotValue,
+      unpricedSpot
+    },
+    portfolio: {
+      grossExposure,
+      netDelta: positions.reduce((total, position) => total + position.delta, 0) +
+        spot.reduce((total, balance) => total + balance.delta, 0),
+      leverage: netWorth > 0 ? grossExposure / netWorth : 0,
+      perpLeverage: accountValue > 0 ? totalNotional / accountValue : 0,
+      marginUsed,
+      marginUtilization: accountValue > 0 ? marginUsed / accountValue : 0,
+      maintenanceMargin,
+      maintenanceUtilization: accountValue > 0 ? maintenanceMargin / accountValue : 0,
+      withdrawable: Number(perpState.withdrawable),
+      unrealizedPnl: positions.reduce((total, position) => total + position.unrealizedPnl, 0),
+      fundingCarryPerDay: positions.reduce((total, position) => total + (position.fundingCarryPerDay ?? 0), 0),
+      closestLiquidation: closest
+        ? { symbol: closest.symbol, ...closest.liquidationDistance! }
+        : undefined,
+      concentration: {
+        largest: largest ? { symbol: largest.symbol, share: share(largest.value, grossExposure) } : undefined,
+        herfindahl: exposures.reduce((total, exposure) => total + share(exposure.value, grossExposure) ** 2, 0)
+      }
+    },
+    positions,
+    spot
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Positions and margin
+ *
+ * Validates the leverage, margin and close arguments of the position tools,
+ * builds the reduce-only orders that close positions, and summarizes the
+ * clearinghouse state each of those tools returns.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { Hyperliquid } from "hyperliquid";
+import { MarketInfo } from "./markets.js";
+import { OrderSpec, parseOrderSpec } from "./orders.js";
+
+/**
+ * Type definitions for positions and margin
+ */
+export type LeverageMode = "cross" | "isolated";
+
+export interface PositionSummary {
+  symbol: string;
+  side: "long" | "short";
+  size: number;
+  entryPrice: number;
+  positionValue: number;
+  unrealizedPnl: number;
+  returnOnEquity: number;
+  leverage: { mode: LeverageMode; value: number };
+  marginUsed: number;
+  liquidationPrice?: number;
+}
+
+export interface PositionState {
+  positions: PositionSummary[];
+  margin: {
+    accountValue: number;
+    totalPositionValue: number;
+    totalMarginUsed: number;
+    withdrawable: number;
+  };
+}
+
+export const LEVERAGE_MODES: LeverageMode[] = ["cross", "isolated"];
+
+/**
+ * Validate set_leverage arguments against the market's leverage rules
+ * Without market metadata only the basic checks apply
+ */
+export function parseLeverage(args: any, market?: MarketInfo): { leverage: number; mode: LeverageMode } {
+  const leverage = Number(args.leverage);
+  const mode = args.mode ?? (market?.onlyIsolated ? "isolated" : "cross");
+
+  if (market && market.type !== "perp") {
+    throw new McpError(ErrorCode.InvalidParams, `Leverage only applies to perp markets, not ${market.symbol}`);
+  }
+  if (!Number.isInteger(leverage) || leverage < 1) {
+    throw new McpError(ErrorCode.InvalidParams, "leverage must be a whole number of at least 1");
+  }
+  if (market?.maxLeverage !== undefined && leverage > market.maxLeverage) {
+    throw new McpError(ErrorCode.InvalidParams, `leverage for ${market.symbol} can be at most ${market.maxLeverage}x`);
+  }
+  if (!LEVERAGE_MODES.includes(mode)) {
+    throw new McpError(ErrorCode.InvalidParams, `mode must be one of: ${LEVERAGE_MODES.join(", ")}`);
+  }
+  if (mode === "cross" && market?.onlyIsolated) {
+    throw new McpError(ErrorCode.InvalidParams, `${market.symbol} only supports isolated margin`);
+  }
+
+  return { leverage, mode };
+}
+
+/**
+ * Validate an isolated margin change in USDC: positive adds margin, negative
+ * removes it
+ */
+export function parseMarginAmount(args: any): number {
+  const amount = Number(args.amount);
+  if (!Number.isFinite(amount) || amount === 0) {
+    throw new McpError(ErrorCode.InvalidParams, "amount must be a non-zero number of USDC (negative to remove margin)");
+  }
+  return amount;
+}
+
+/**
+ * Validate the percentage of a position to close (default 100)
+ */
+export function parseClosePercent(args: any): number {
+  const percent = args.percent !== undefined ? Number(args.percent) : 100;
+  if (!Number.isFinite(percent) || percent <= 0 || percent > 100) {
+    throw new McpError(ErrorCode.InvalidParams, "percent must be a number greater than 0 and at most 100");
+  }
+  return percent;
+}
+
+/**
+ * Build the reduce-only market order that closes part or all of a position
+ * A full close uses the exact position size so no dust is left behind
+ */
+export function closeOrderSpec(position: PositionSummary, percent: number, slippage?: unknown): OrderSpec {
+  const size = percent === 100 ? position.size : position.size * percent / 100;
+  return parseOrderSpec({
+    symbol: position.symbol,
+    side: position.side === "long" ? "sell" : "buy",
+    size,
+    orderType: "market",
+    reduceOnly: true,
+    slippage
+  });
+}
+
+/**
+ * Open perp positions and account margin from the clearinghouse state,
+ * optionally only for one symbol
+ */
+export async function getPositionState(client: Hyperliquid, user: string, symbol?: string): Promise<PositionState> {
+  const perpState = await client.info.perpetuals.getClearinghouseState(user);
+
+  const positions: PositionSummary[] = perpState.assetPositions
+    .map(({ position }: any) => position)
+    .filter((position: any) => parseFloat(position.szi) !== 0 && (!symbol || position.coin === symbol))
+    .map((position: any) => {
+      const size = parseFloat(position.szi);
+      return {
+        symbol: position.coin,
+        side: size > 0 ? "long" : "short",
+        size: Math.abs(size),
+        entryPrice: Number(position.entryPx),
+        positionValue: Number(position.positionValue),
+        unrealizedPnl: Number(position.unrealizedPnl),
+        returnOnEquity: Number(position.returnOnEquity),
+        leverage: { mode: position.leverage.type, value: position.leverage.value },
+        marginUsed: Number(position.marginUsed),
+        liquidationPrice: position.liquidationPx !== null ? Number(position.liquidationPx) : undefined
+      };
+    });
+
+  return {
+    positions,
+    margin: {
+      accountValue: Number(perpState.marginSummary.accountValue),
+      totalPositionValue: Number(perpState.marginSummary.totalNtlPos),
+      totalMarginUsed: Number(perpState.marginSummary.totalMarginUsed),
+      withdrawable: Number(perpState.withdrawable)
+    }
+  };
+}
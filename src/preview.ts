@@ -0,0 +1,460 @@
+/**
+ * Order previews
+ *
+ * Estimates what a place_order call would do without sending it: the fill
+ * price and slippage from walking the current L2 book, fees at the account's
+ * rates, and the position, leverage, margin use and liquidation price once
+ * the order fills. Anything the exchange would reject the order for is listed
+ * as a warning rather than thrown, so the rest of the estimate is still shown.
+ */
+
+import { Hyperliquid, L2Book } from "hyperliquid";
+import { MIN_ORDER_NOTIONAL, MarketInfo, floorSize, roundMarketPrice } from "./markets.js";
+import { OrderSpec, aggressivePrice, roundPrice } from "./orders.js";
+
+/**
+ * Type definitions for order previews
+ */
+export interface FeeRates {
+  taker: number;
+  maker: number;
+  source: "account" | "base";
+}
+
+export interface BookFill {
+  size: number;
+  avgPrice?: number;
+  worstPrice?: number;
+  notional: number;
+  slippageBps?: number;
+  levels: number;
+}
+
+/**
+ * Account and market data an order is previewed against
+ * perpState is the clearinghouse state, needed for perp orders; spotBalances
+ * maps coins to totals, needed for spot orders
+ */
+export interface PreviewState {
+  market?: MarketInfo;
+  book: L2Book;
+  fees: FeeRates;
+  perpState?: any;
+  spotBalances?: { [coin: string]: number };
+}
+
+export interface OrderPreview {
+  symbol: string;
+  side: "buy" | "sell";
+  size: number;
+  orderType: string;
+  tif?: string;
+  limitPrice?: number;
+  book: { bestBid?: number; bestAsk?: number; mid: number };
+  execution: {
+    marketable: boolean;
+    immediate: BookFill;
+    resting?: { size: number; price: number };
+    triggered?: { size: number; price: number };
+    canceledSize: number;
+  };
+  fees: { rates: FeeRates; taker: number; maker: number; total: number };
+  position?: object;
+  balances?: object;
+  bracket?: object;
+  warnings: string[];
+}
+
+// Hyperliquid's base tier, for when an account's own rates are unavailable
+const BASE_FEES = {
+  perp: { taker: 0.00045, maker: 0.00015 },
+  spot: { taker: 0.0007, maker: 0.0004 }
+};
+
+// New positions use this leverage (capped at the market's maximum) until set_leverage changes it
+const DEFAULT_LEVERAGE = 20;
+const EPSILON = 1e-12;
+
+/**
+ * Fee rates of a wallet from its fee tier, spot or perp
+ * Falls back to the base tier when the exchange does not return them, as
+ * when replaying recorded traffic
+ */
+export async function getFeeRates(client: Hyperliquid, user: string, spot: boolean): Promise<FeeRates> {
+  try {
+    const fees: any = await client.info.userFees(user);
+    const taker = Number(spot ? fees.userSpotCrossRate ?? fees.userCrossRate : fees.userCrossRate);
+    const maker = Number(spot ? fees.userSpotAddRate ?? fees.userAddRate : fees.userAddRate);
+    if (Number.isFinite(taker) && Number.isFinite(maker)) {
+      return { taker, maker, source: "account" };
+    }
+  } catch {
+    // Use the base tier below
+  }
+  return { ...(spot ? BASE_FEES.spot : BASE_FEES.perp), source: "base" };
+}
+
+/**
+ * Walk the opposite side of a book up to a limit price, as a taker order of
+ * the given size would
+ * slippageBps is positive when the average price is worse than the mid
+ */
+export function walkBook(book: L2Book, side: "buy" | "sell", size: number, limitPrice: number, mid: number): BookFill {
+  const levels = side === "buy" ? book.levels[1] : book.levels[0];
+  let filled = 0;
+  let notional = 0;
+  let worstPrice: number | undefined;
+  let taken = 0;
+
+  for (const level of levels) {
+    const price = Number(level.px);
+    if (size - filled <= EPSILON || (side === "buy" ? price > limitPrice : price < limitPrice)) {
+      break;
+    }
+    const take = Math.min(size - filled, Number(level.sz));
+    filled += take;
+    notional += take * price;
+    worstPrice = price;
+    taken++;
+  }
+
+  const avgPrice = filled > 0 ? notional / filled : undefined;
+  const direction = side === "buy" ? 1 : -1;
+  return {
+    size: filled,
+    avgPrice,
+    worstPrice,
+    notional,
+    slippageBps: avgPrice !== undefined ? (direction * (avgPrice - mid) / mid) * 10000 : undefined,
+    levels: taken
+  };
+}
+
+/**
+ * Liquidation price of a position, or undefined if there is none
+ * Follows Hyperliquid's formula: the price at which the margin available
+ * above maintenance is used up, with maintenance margin at half the initial
+ * margin of the market's maximum leverage
+ */
+function liquidationPrice(size: number, markPrice: number, marginAvailable: number, maxLeverage: number): number | undefined {
+  if (Math.abs(size) <= EPSILON) {
+    return undefined;
+  }
+  const side = Math.sign(size);
+  const maintenance = 1 / (2 * maxLeverage);
+  const price = markPrice - (side * marginAvailable) / Math.abs(size) / (1 - maintenance * side);
+  return price > 0 ? price : undefined;
+}
+
+/**
+ * Describe a signed position size
+ */
+function positionSide(size: number): "long" | "short" | "flat" {
+  return size > EPSILON ? "long" : size < -EPSILON ? "short" : "flat";
+}
+
+/**
+ * Estimate the perp position and account margin once an order fills
+ * The fill adds its price difference to the mark to the account value, and
+ * fees come off it
+ */
+function previewPosition(
+  symbol: string,
+  market: MarketInfo | undefined,
+  perpState: any,
+  direction: number,
+  fillSize: number,
+  fillPrice: number | undefined,
+  fee: number,
+  mid: number,
+  warnings: string[]
+): { preview: object; liquidationPrice?: number } {
+  const positions: any[] = perpState.assetPositions
+    .map(({ position }: any) => position)
+    .filter((position: any) => parseFloat(position.szi) !== 0);
+  const current = positions.find((position) => position.coin === symbol);
+  const others = positions.filter((position) => position !== current);
+
+  const size0 = current ? parseFloat(current.szi) : 0;
+  const entry0 = current ? Number(current.entryPx) : undefined;
+  const mark = current ? Number(current.positionValue) / Math.abs(size0) : mid;
+  const price = fillPrice ?? mark;
+  const size1 = size0 + direction * fillSize;
+
+  // Adding to a position averages its entry; reducing keeps it; flipping starts over at the fill
+  let entry1: number | undefined;
+  let realizedPnl = 0;
+  if (Math.abs(size1) <= EPSILON) {
+    entry1 = undefined;
+  } else if (size0 === 0 || Math.sign(size0) === direction) {
+    entry1 = (Math.abs(size0) * (entry0 ?? 0) + fillSize * price) / (Math.abs(size0) + fillSize);
+  } else {
+    entry1 = Math.sign(size1) === Math.sign(size0) ? entry0 : price;
+  }
+  if (size0 !== 0 && Math.sign(size0) !== direction) {
+    realizedPnl = Math.sign(size0) * (price - entry0!) * Math.min(fillSize, Math.abs(size0));
+  }
+
+  const leverage = current
+    ? { mode: current.leverage.type, value: Number(current.leverage.value), source: "position" }
+    : {
+      mode: market?.onlyIsolated ? "isolated" : "cross",
+      value: Math.min(DEFAULT_LEVERAGE, market?.maxLeverage ?? DEFAULT_LEVERAGE),
+      source: "default"
+    };
+  const maxLeverage: number | undefined = market?.maxLeverage ?? current?.maxLeverage;
+
+  const accountValue0 = Number(perpState.marginSummary.accountValue);
+  const accountValue1 = accountValue0 - fee + direction * fillSize * (mark - price);
+  const notional1 = Math.abs(size1) * mark;
+  const margin0 = current ? Number(current.marginUsed) : 0;
+  const margin1 = leverage.mode === "isolated" && entry1 !== undefined
+    ? (Math.abs(size1) * entry1) / leverage.value + size1 * (mark - entry1)
+    : notional1 / leverage.value;
+  const otherNotional = others.reduce((total, position) => total + Number(position.positionValue), 0);
+  const otherMargin = others.reduce((total, position) => total + Number(position.marginUsed), 0);
+
+  // Cross positions share the account value outside isolated margin, less their maintenance margin
+  let liquidation: number | undefined;
+  if (maxLeverage !== undefined && Math.abs(size1) > EPSILON) {
+    const ownMaintenance = notional1 / (2 * maxLeverage);
+    let available: number;
+    if (leverage.mode === "isolated") {
+      available = margin1 - ownMaintenance;
+    } else {
+      available = others.reduce((total, position) => total - (position.leverage.type === "isolated"
+        ? Number(position.marginUsed)
+        : Number(position.positionValue) / (2 * (position.maxLeverage ?? position.leverage.value))), accountValue1) - ownMaintenance;
+    }
+    liquidation = liquidationPrice(size1, mark, available, maxLeverage);
+    if (available <= 0) {
+      warnings.push(`The ${symbol} position would be at or past its liquidation price once filled`);
+    }
+  }
+
+  const withdrawable = Number(perpState.withdrawable);
+  const extraMargin = margin1 - margin0;
+  if (extraMargin > EPSILON && extraMargin + fee > withdrawable) {
+    warnings.push(
+      `The order needs $${(extraMargin + fee).toFixed(2)} of margin and fees but only $${withdrawable.toFixed(2)} is available, so it would be rejected or fill only in part`
+    );
+  }
+
+  const summary = (size: number, entryPrice: number | undefined, marginUsed: number, liquidation: number | undefined) => ({
+    side: positionSide(size),
+    size: Math.abs(size),
+    entryPrice,
+    notional: Math.abs(size) * mark,
+    marginUsed,
+    liquidationPrice: liquidation
+  });
+  const totals = (accountValue: number, notional: number, marginUsed: number) => ({
+    accountValue,
+    leverage: accountValue > 0 ? notional / accountValue : undefined,
+    marginUsed,
+    marginUsage: accountValue > 0 ? marginUsed / accountValue : undefined
+  });
+  const liquidation0 = current?.liquidationPx !== null && current?.liquidationPx !== undefined
+    ? Number(current.liquidationPx)
+    : undefined;
+
+  return {
+    preview: {
+      symbol,
+      markPrice: mark,
+      leverage,
+      before: summary(size0, entry0, margin0, liquidation0),
+      after: summary(size1, entry1, margin1, liquidation),
+      realizedPnl,
+      account: {
+        before: totals(accountValue0, Number(perpState.marginSummary.totalNtlPos), Number(perpState.marginSummary.totalMarginUsed)),
+        after: totals(accountValue1, otherNotional + notional1, otherMargin + margin1)
+      }
+    },
+    liquidationPrice: liquidation
+  };
+}
+
+/**
+ * Estimate the spot balances once an order fills, with fees paid in the
+ * quote token
+ */
+function previewBalances(
+  base: string,
+  quote: string,
+  balances: { [coin: string]: number },
+  direction: number,
+  fillSize: number,
+  notional: number,
+  fee: number,
+  warnings: string[]
+): object {
+  const base0 = balances[base] ?? 0;
+  const quote0 = balances[quote] ?? 0;
+  const base1 = base0 + direction * fillSize;
+  const quote1 = quote0 - direction * notional - fee;
+
+  if (direction > 0 && quote1 < -EPSILON) {
+    warnings.push(`Not enough ${quote}: the order needs ${(notional + fee).toFixed(2)} and the balance is ${quote0}`);
+  }
+  if (direction < 0 && base1 < -EPSILON) {
+    warnings.push(`Not enough ${base}: the order sells ${fillSize} and the balance is ${base0}`);
+  }
+
+  return {
+    [base]: { before: base0, after: base1 },
+    [quote]: { before: quote0, after: quote1 }
+  };
+}
+
+/**
+ * Preview an order against the current book and account
+ * A resting limit order is assumed to fill at its limit price as a maker, and
+ * a trigger order at its trigger (or limit) price as a taker, to show the
+ * position it would lead to
+ */
+export function previewOrder(spec: OrderSpec, state: PreviewState): OrderPreview {
+  const { market, book, fees } = state;
+  const warnings: string[] = [];
+  const symbol = market?.symbol ?? spec.symbol;
+  const spot = market ? market.type === "spot" : /-SPOT$/i.test(symbol);
+  const direction = spec.side === "buy" ? 1 : -1;
+  const round = (price: number) => market ? roundMarketPrice(market, price) : roundPrice(price);
+
+  const bestBid = book.levels[0][0] ? Number(book.levels[0][0].px) : undefined;
+  const bestAsk = book.levels[1][0] ? Number(book.levels[1][0].px) : undefined;
+  if (bestBid === undefined && bestAsk === undefined) {
+    throw new Error(`Order book for ${symbol} is empty`);
+  }
+  const mid = bestBid !== undefined && bestAsk !== undefined ? (bestBid + bestAsk) / 2 : (bestBid ?? bestAsk)!;
+
+  // Size rules
+  let size = spec.size;
+  if (market) {
+    const rounded = floorSize(market, spec.size);
+    if (rounded <= 0) {
+      warnings.push(`Size ${spec.size} is below the minimum size of ${Math.pow(10, -market.szDecimals)} for ${symbol}, so the order would be rejected`);
+    } else if (rounded !== spec.size) {
+      warnings.push(`Size is rounded down to ${rounded}, the ${market.szDecimals} decimals ${symbol} allows`);
+      size = rounded;
+    }
+  }
+
+  // Reduce-only orders can only shrink the position, never open or flip one
+  let fillable = size;
+  if (spot && (spec.reduceOnly || spec.orderType === "trigger" || spec.takeProfit !== undefined || spec.stopLoss !== undefined)) {
+    warnings.push(`${symbol} is a spot market: reduce-only, trigger and bracket orders only apply to perps, so the order would be rejected`);
+  } else if (spec.reduceOnly && state.perpState) {
+    const position = state.perpState.assetPositions.find(({ position }: any) => position.coin === symbol)?.position;
+    const current = position ? parseFloat(position.szi) : 0;
+    if (current === 0) {
+      warnings.push(`Reduce-only order but there is no ${symbol} position to reduce, so it would be rejected`);
+      fillable = 0;
+    } else if (Math.sign(current) === direction) {
+      warnings.push(`Reduce-only ${spec.side} would add to the ${positionSide(current)} ${symbol} position, so it would be rejected`);
+      fillable = 0;
+    } else if (size > Math.abs(current)) {
+      warnings.push(`Reduce-only order is larger than the ${Math.abs(current)} ${symbol} position; only that much would fill`);
+      fillable = Math.abs(current);
+    }
+  }
+
+  // Where the order would execute
+  let limitPrice: number | undefined;
+  let marketable = false;
+  let immediate: BookFill = { size: 0, notional: 0, levels: 0 };
+  let resting: { size: number; price: number } | undefined;
+  let triggered: { size: number; price: number } | undefined;
+  let canceledSize = 0;
+
+  if (spec.orderType === "trigger") {
+    limitPrice = round(spec.isMarket ? aggressivePrice(spec.side, spec.triggerPrice!, spec.slippage) : spec.price!);
+    triggered = { size: fillable, price: spec.isMarket ? spec.triggerPrice! : spec.price! };
+    warnings.push(`Trigger orders only execute once ${symbol} reaches ${spec.triggerPrice}; the estimate assumes a fill at ${triggered.price} with no slippage`);
+  } else {
+    limitPrice = round(spec.orderType === "market" ? aggressivePrice(spec.side, mid, spec.slippage) : spec.price!);
+    const opposite = spec.side === "buy" ? bestAsk : bestBid;
+    marketable = opposite !== undefined && (spec.side === "buy" ? limitPrice >= opposite : limitPrice <= opposite);
+
+    if (marketable && spec.tif === "Alo") {
+      warnings.push(`Post-only (Alo) order at ${limitPrice} would cross the book, so it would be rejected`);
+    } else {
+      if (marketable) {
+        immediate = walkBook(book, spec.side, fillable, limitPrice, mid);
+      }
+      const remaining = Math.max(0, fillable - immediate.size);
+      if (remaining > EPSILON && spec.tif === "Gtc") {
+        resting = { size: remaining, price: limitPrice };
+      } else if (remaining > EPSILON) {
+        canceledSize = remaining;
+        warnings.push(spec.orderType === "market"
+          ? `Only ${immediate.size} fills within the ${spec.slippage * 100}% slippage cap (${limitPrice}); the other ${remaining} would be canceled`
+          : `Only ${immediate.size} fills at ${limitPrice} or better; the other ${remaining} of the IOC order would be canceled`);
+      }
+    }
+  }
+
+  const entryNotional = size * limitPrice;
+  if (market && !spec.reduceOnly && entryNotional < MIN_ORDER_NOTIONAL) {
+    warnings.push(`Order value $${entryNotional.toFixed(2)} is below the $${MIN_ORDER_NOTIONAL} minimum, so the order would be rejected`);
+  }
+
+  // Fees: taking liquidity or triggering pays the taker rate, resting the maker rate
+  const takerNotional = immediate.notional + (triggered ? triggered.size * triggered.price : 0);
+  const makerNotional = resting ? resting.size * resting.price : 0;
+  const takerFee = takerNotional * fees.taker;
+  const makerFee = makerNotional * fees.maker;
+
+  const fillSize = immediate.size + (resting?.size ?? 0) + (triggered?.size ?? 0);
+  const fillNotional = takerNotional + makerNotional;
+  const fillPrice = fillSize > 0 ? fillNotional / fillSize : undefined;
+
+  let balances: object | undefined;
+  let position: object | undefined;
+  let bracket: object | undefined;
+
+  if (spot && state.spotBalances) {
+    const base = market?.base ?? symbol.replace(/-SPOT$/i, "");
+    const quote = market?.quote ?? "USDC";
+    balances = previewBalances(base, quote, state.spotBalances, direction, fillSize, fillNotional, takerFee + makerFee, warnings);
+  } else if (!spot && state.perpState) {
+    const estimate = previewPosition(symbol, market, state.perpState, direction, fillSize, fillPrice, takerFee + makerFee, mid, warnings);
+    position = estimate.preview;
+
+    // Brackets exit the filled size; their PnL leaves out fees and slippage
+    if (spec.takeProfit !== undefined || spec.stopLoss !== undefined) {
+      const entry = fillPrice ?? limitPrice;
+      const exit = (price: number) => ({ price, pnl: direction * (price - entry) * fillSize });
+      bracket = {
+        takeProfit: spec.takeProfit !== undefined ? exit(spec.takeProfit) : undefined,
+        stopLoss: spec.stopLoss !== undefined ? exit(spec.stopLoss) : undefined
+      };
+      if (spec.takeProfit !== undefined && direction * (spec.takeProfit - entry) <= 0) {
+        warnings.push(`Take-profit at ${spec.takeProfit} is not ${direction > 0 ? "above" : "below"} the entry price of ${round(entry)}`);
+      }
+      if (spec.stopLoss !== undefined && direction * (entry - spec.stopLoss) <= 0) {
+        warnings.push(`Stop-loss at ${spec.stopLoss} is not ${direction > 0 ? "below" : "above"} the entry price of ${round(entry)}`);
+      }
+      const liquidation = estimate.liquidationPrice;
+      if (spec.stopLoss !== undefined && liquidation !== undefined && direction * (spec.stopLoss - liquidation) <= 0) {
+        warnings.push(`Stop-loss at ${spec.stopLoss} is beyond the estimated liquidation price of ${round(liquidation)}`);
+      }
+    }
+  }
+
+  return {
+    symbol,
+    side: spec.side,
+    size,
+    orderType: spec.orderType,
+    tif: spec.orderType === "trigger" ? undefined : spec.tif,
+    limitPrice,
+    book: { bestBid, bestAsk, mid },
+    execution: { marketable, immediate, resting, triggered, canceledSize },
+    fees: { rates: fees, taker: takerFee, maker: makerFee, total: takerFee + makerFee },
+    position,
+    balances,
+    bracket,
+    warnings
+  };
+}
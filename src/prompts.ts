@@ -0,0 +1,338 @@
+/**
+ * Prompt templates
+ *
+ * Built-in trading workflows offered through the MCP prompts capability,
+ * plus templates the user keeps as JSON files in a local directory
+ * (HYPERLIQUID_MCP_PROMPTS_DIR, default the prompts folder of the data
+ * directory). A template is instruction text with {{argument}} placeholders
+ * and a list of read-only tools and resources whose live output is embedded
+ * in the prompt when it is fetched.
+ */
+
+import fs from "fs";
+import path from "path";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { getDataDir } from "./storage.js";
+
+/**
+ * Type definitions for prompt templates
+ */
+export interface PromptTemplateArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+  default?: string; // Used in place of an argument that is left out
+}
+
+export interface PromptInclude {
+  label?: string;
+  tool?: string;
+  arguments?: { [key: string]: unknown };
+  resource?: string;
+}
+
+export interface PromptTemplate {
+  name: string;
+  description: string;
+  arguments: PromptTemplateArgument[];
+  template: string;
+  include: PromptInclude[];
+  source?: string; // File a user template was loaded from
+}
+
+/**
+ * How a prompt reaches live data: tools run and resources are read the same
+ * way as for an MCP client
+ */
+export interface PromptDataSource {
+  callTool(name: string, args: { [key: string]: unknown }): Promise<{ status: string; response?: unknown; error?: string }>;
+  readResource(uri: string): Promise<string>;
+}
+
+const PROMPTS_DIR_VARIABLE = "HYPERLIQUID_MCP_PROMPTS_DIR";
+const PROMPT_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+// Only tools that read are run to fill a prompt; fetching a prompt must never trade
+const READ_ONLY_TOOL_PATTERN = /^(get|list)_/;
+
+const ACCOUNT_ARGUMENT: PromptTemplateArgument = {
+  name: "account",
+  description: "Account to use (default: the active account)"
+};
+
+export const BUILT_IN_PROMPTS: PromptTemplate[] = [
+  {
+    name: "review_portfolio_risk",
+    description: "Review my portfolio risk: leverage, liquidation distance, concentration and funding, against the risk policy",
+    arguments: [ACCOUNT_ARGUMENT],
+    template: [
+      "Review the risk of my Hyperliquid portfolio using the live data below.",
+      "",
+      "Cover:",
+      "1. Leverage and margin utilization, and how close each position is to liquidation.",
+      "2. Concentration and net delta: which positions dominate and which way the portfolio leans.",
+      "3. Funding carry: what the positions pay or earn per day.",
+      "4. Anything that breaks or comes close to a limit of the risk policy, including open orders that would add exposure.",
+      "",
+      "Finish with the three most important actions to reduce risk, most urgent first. Do not place, modify or cancel orders without asking me first."
+    ].join("\n"),
+    include: [
+      { label: "Risk report", tool: "get_risk_report", arguments: { account: "{{account}}" } },
+      { label: "Risk policy", tool: "get_risk_policy" },
+      { label: "Open orders", tool: "get_open_orders", arguments: { account: "{{account}}" } }
+    ]
+  },
+  {
+    name: "plan_entry",
+    description: "Plan an entry in a market risking a percent of equity: direction, entry, stop, size, targets and leverage",
+    arguments: [
+      { name: "symbol", description: "Market to enter (e.g., BTC, ETH-PERP)", required: true },
+      { name: "risk", description: "Percent of account equity to lose if the stop is hit (e.g., 1)", required: true },
+      { name: "side", description: "long or short (default: whichever the data supports)", default: "either, whichever the data supports" },
+      ACCOUNT_ARGUMENT
+    ],
+    template: [
+      "Plan an entry in {{symbol}} that risks {{risk}}% of my account equity. Preferred direction: {{side}}.",
+      "",
+      "Use the live data below to work out:",
+      "1. The direction and an entry price or zone, and why.",
+      "2. A stop-loss price where the idea is proven wrong.",
+      "3. The size, so that hitting the stop loses {{risk}}% of equity: size = equity × {{risk}}% ÷ |entry − stop|, with the net worth in the risk report as equity. " +
+        "Check it against the market's size rules and the risk policy.",
+      "4. Take-profit levels and the reward-to-risk ratio.",
+      "5. The leverage this needs and the resulting liquidation price, which must lie beyond the stop.",
+      "",
+      "Present the plan as a place_order call with a takeProfit and stopLoss bracket and check it with preview_order, but do not send it until I confirm."
+    ].join("\n"),
+    include: [
+      { label: "Market context", tool: "get_asset_context", arguments: { symbol: "{{symbol}}", account: "{{account}}" } },
+      { label: "Order book", tool: "get_market_data", arguments: { symbol: "{{symbol}}", levels: 10, analytics: true, account: "{{account}}" } },
+      { label: "Hourly candles, last 48 hours", tool: "get_candles", arguments: { symbol: "{{symbol}}", interval: "1h", limit: 48, account: "{{account}}" } },
+      { label: "Risk report", tool: "get_risk_report", arguments: { account: "{{account}}" } },
+      { label: "Risk policy", tool: "get_risk_policy" }
+    ]
+  },
+  {
+    name: "summarize_todays_fills",
+    description: "Summarize today's fills and PnL per coin, with fees, funding and anything unusual",
+    arguments: [ACCOUNT_ARGUMENT],
+    template: [
+      "Summarize my trading on Hyperliquid today ({{today}}, UTC) using the fills and PnL below.",
+      "",
+      "Group the fills by coin: number of fills, size bought and sold, average prices and fees. " +
+        "Then give realized PnL after fees and funding, unrealized PnL on open positions, and the best and worst coin.",
+      "Point out anything unusual, such as many small fills, fees that are large next to PnL, or trades against an open position. Keep it short."
+    ].join("\n"),
+    include: [
+      { label: "Fills since midnight UTC", tool: "get_fills", arguments: { since: "today", limit: 2000, account: "{{account}}" } },
+      { label: "PnL since midnight UTC", tool: "get_pnl", arguments: { since: "today", account: "{{account}}" } }
+    ]
+  },
+  {
+    name: "explain_strategy_loss",
+    description: "Explain why a strategy lost money, from its config, fills and state",
+    arguments: [
+      { name: "id", description: "ID of the strategy", required: true }
+    ],
+    template: [
+      "Explain why strategy {{id}} lost money, using its config, fills and state below.",
+      "",
+      "Walk through which fills realized the losses and what the market did around them, how much fees cost next to realized PnL, " +
+        "whether the config (levels, size, thresholds, interval) suits the market it ran in, and any errors it hit. " +
+        "If more price history would help, fetch candles for its symbol with get_candles over the period it ran.",
+      "",
+      "Finish with concrete changes to the config, or the reason to stop the strategy."
+    ].join("\n"),
+    include: [
+      { label: "Strategy", resource: "hyperliquid://strategy/{{id}}" }
+    ]
+  }
+];
+
+/**
+ * Directory user templates are loaded from
+ */
+export function getPromptsDir(): string {
+  return process.env[PROMPTS_DIR_VARIABLE] || path.join(getDataDir(), "prompts");
+}
+
+/**
+ * Validate a user template read from a file
+ */
+function parseTemplate(raw: any, source: string): PromptTemplate {
+  if (typeof raw?.name !== "string" || !PROMPT_NAME_PATTERN.test(raw.name)) {
+    throw new Error("name must be 1-64 letters, digits, underscores or dashes");
+  }
+  if (typeof raw.template !== "string" || !raw.template.trim()) {
+    throw new Error("template must be a non-empty string");
+  }
+
+  const args: PromptTemplateArgument[] = raw.arguments ?? [];
+  if (!Array.isArray(args) || args.some((arg) => typeof arg?.name !== "string" || !arg.name)) {
+    throw new Error("arguments must be a list of objects with a name");
+  }
+
+  const include: PromptInclude[] = raw.include ?? [];
+  if (!Array.isArray(include)) {
+    throw new Error("include must be a list");
+  }
+  include.forEach((entry, index) => {
+    const hasTool = typeof entry?.tool === "string";
+    if (hasTool === (typeof entry?.resource === "string")) {
+      throw new Error(`include[${index}] must name either a tool or a resource`);
+    }
+    if (entry.tool !== undefined && !READ_ONLY_TOOL_PATTERN.test(entry.tool)) {
+      throw new Error(`include[${index}]: only get_ and list_ tools can fill a prompt, not ${entry.tool}`);
+    }
+  });
+
+  return {
+    name: raw.name,
+    description: typeof raw.description === "string" ? raw.description : "",
+    arguments: args.map((arg) => ({
+      name: arg.name,
+      description: arg.description,
+      required: Boolean(arg.required),
+      default: arg.default !== undefined ? String(arg.default) : undefined
+    })),
+    template: raw.template,
+    include,
+    source
+  };
+}
+
+/**
+ * Built-in templates followed by the user's
+ * A user template with the name of a built-in one replaces it. Files that
+ * cannot be read or are invalid are skipped with a message on stderr. The
+ * directory is read on every call, so edits apply without a restart
+ */
+export function listPromptTemplates(dir: string = getPromptsDir()): PromptTemplate[] {
+  const templates = new Map(BUILT_IN_PROMPTS.map((template) => [template.name, template]));
+
+  let files: string[] = [];
+  try {
+    files = fs.readdirSync(dir).filter((file) => file.endsWith(".json")).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Failed to read prompt templates from ${dir}:`, error);
+    }
+  }
+
+  for (const file of files) {
+    const filePath = path.join(dir, file);
+    try {
+      const template = parseTemplate(JSON.parse(fs.readFileSync(filePath, "utf8")), filePath);
+      templates.set(template.name, template);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Skipping prompt template ${filePath}: ${errorMessage}`);
+    }
+  }
+
+  return [...templates.values()];
+}
+
+/**
+ * Fill {{placeholders}} in a string
+ */
+function fill(text: string, values: { [name: string]: string | undefined }): string {
+  return text.replace(PLACEHOLDER_PATTERN, (_, name: string) => values[name] ?? "");
+}
+
+/**
+ * Fill placeholders in tool arguments
+ * An argument that is only a placeholder for a value not given is left out,
+ * so the tool applies its own default, and one for a numeric value is passed
+ * as a number, since prompt arguments are always strings
+ */
+function fillArguments(args: { [key: string]: unknown }, values: { [name: string]: string | undefined }): { [key: string]: unknown } {
+  const filled: { [key: string]: unknown } = {};
+  for (const [key, value] of Object.entries(args)) {
+    if (typeof value !== "string") {
+      filled[key] = value;
+      continue;
+    }
+    const whole = value.match(/^\{\{\s*([A-Za-z0-9_]+)\s*\}\}$/);
+    if (whole && values[whole[1]] === undefined) {
+      continue;
+    }
+    const text = fill(value, values);
+    filled[key] = whole && text.trim() !== "" && Number.isFinite(Number(text)) ? Number(text) : text;
+  }
+  return filled;
+}
+
+/**
+ * Fetch one included tool or resource as a titled JSON block
+ * A failure is shown in place of the data, so the prompt still renders
+ */
+async function renderInclude(include: PromptInclude, values: { [name: string]: string | undefined }, data: PromptDataSource): Promise<string> {
+  let title = include.label;
+  let body: unknown;
+
+  if (include.tool) {
+    const args = fillArguments(include.arguments ?? {}, values);
+    title = title ?? include.tool;
+    const result = await data.callTool(include.tool, args);
+    body = result.status === "ok" ? result.response : { unavailable: result.error };
+  } else {
+    const uri = fill(include.resource!, values);
+    title = title ?? uri;
+    try {
+      const text = await data.readResource(uri);
+      try {
+        body = JSON.parse(text);
+      } catch {
+        body = text;
+      }
+    } catch (error) {
+      body = { unavailable: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  const text = typeof body === "string" ? body : JSON.stringify(body, null, 2);
+  return `## ${title}\n\n\`\`\`json\n${text}\n\`\`\``;
+}
+
+/**
+ * Render a template for prompts/get as one user message: the filled
+ * instructions followed by the live data
+ * Besides its own arguments, a template can use {{today}} (the UTC date) and
+ * {{now}} (the current time)
+ */
+export async function renderPrompt(
+  template: PromptTemplate,
+  args: { [name: string]: string },
+  data: PromptDataSource
+): Promise<{ description: string; messages: { role: "user"; content: { type: "text"; text: string } }[] }> {
+  const now = new Date();
+  const values: { [name: string]: string | undefined } = { today: now.toISOString().slice(0, 10), now: now.toISOString() };
+
+  for (const arg of template.arguments) {
+    const value = args[arg.name];
+    if (value !== undefined && value !== "") {
+      values[arg.name] = value;
+    } else if (arg.required) {
+      throw new McpError(ErrorCode.InvalidParams, `Prompt ${template.name} needs the ${arg.name} argument`);
+    } else {
+      values[arg.name] = arg.default;
+    }
+  }
+
+  const sections: string[] = [];
+  for (const include of template.include) {
+    sections.push(await renderInclude(include, values, data));
+  }
+
+  return {
+    description: fill(template.description, values),
+    messages: [{
+      role: "user",
+      content: {
+        type: "text",
+        text: [fill(template.template, values), ...sections].join("\n\n")
+      }
+    }]
+  };
+}
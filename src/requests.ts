@@ -0,0 +1,402 @@
+/**
+ * Request scheduling
+ *
+ * Every REST request the SDK makes goes through one scheduler per API host.
+ * Hyperliquid gives each IP a weight budget per minute, so requests are
+ * weighed the way the exchange weighs them and queued once the budget is
+ * spent, exchange actions ahead of info requests. Identical info requests in
+ * flight share one call, metadata is cached for minutes and prices and books
+ * for a moment, and requests that were rate limited or never got an answer
+ * are retried with backoff.
+ */
+
+import { Hyperliquid } from "hyperliquid";
+
+/**
+ * Type definitions for scheduler statistics
+ */
+export interface EndpointStats {
+  requests: number;
+  weight: number;
+  cacheHits: number;
+  merged: number;
+  retries: number;
+  errors: number;
+}
+
+export interface SchedulerStats {
+  baseUrl: string;
+  limit: {
+    weightPerMinute: number;
+    available: number;
+    usedLastMinute: number;
+    throttled: number;
+    rateLimited: number;
+  };
+  queued: { exchange: number; info: number };
+  cache: { entries: number; hits: number; misses: number };
+  endpoints: {
+    exchange: { [action: string]: EndpointStats };
+    info: { [type: string]: EndpointStats };
+  };
+}
+
+type Priority = "exchange" | "info";
+
+interface QueuedRequest {
+  priority: Priority;
+  weight: number;
+  start: () => void;
+}
+
+const EXCHANGE_ENDPOINT = "/exchange";
+const WEIGHT_VARIABLE = "HYPERLIQUID_MCP_WEIGHT_PER_MINUTE";
+const DEFAULT_WEIGHT_PER_MINUTE = 1200;
+const MAX_RETRIES = 3;
+const RETRY_BASE_MS = 250;
+
+// Weights from Hyperliquid's rate limit documentation; other info requests weigh 20
+const INFO_WEIGHTS: { [type: string]: number } = {
+  l2Book: 2,
+  allMids: 2,
+  clearinghouseState: 2,
+  orderStatus: 2,
+  spotClearinghouseState: 2,
+  exchangeStatus: 2,
+  userRole: 60
+};
+const DEFAULT_INFO_WEIGHT = 20;
+
+// Responses that list items cost 1 more per this many items
+const ITEMS_PER_WEIGHT: { [type: string]: number } = {
+  userFills: 20,
+  userFillsByTime: 20,
+  userFunding: 20,
+  userNonFundingLedgerUpdates: 20,
+  fundingHistory: 20,
+  historicalOrders: 20,
+  userTwapSliceFills: 20,
+  candleSnapshot: 60
+};
+
+// How long info responses are reused; anything else is always fetched
+const CACHE_TTL_MS: { [type: string]: number } = {
+  meta: 5 * 60 * 1000,
+  spotMeta: 5 * 60 * 1000,
+  perpDexs: 5 * 60 * 1000,
+  metaAndAssetCtxs: 2000,
+  spotMetaAndAssetCtxs: 2000,
+  allMids: 1000,
+  l2Book: 1000
+};
+
+/**
+ * Weight of an exchange action: 1, plus 1 per 40 orders or cancels in a batch
+ */
+function exchangeWeight(payload: any): number {
+  const action = payload?.action ?? {};
+  const items = action.orders?.length ?? action.cancels?.length ?? action.modifies?.length ?? 1;
+  return 1 + Math.floor(items / 40);
+}
+
+/**
+ * Whether a failed request may be sent again
+ * Exchange actions are signed with a nonce before they reach the scheduler,
+ * so a retried action the exchange did receive is rejected as a duplicate
+ * rather than executed twice
+ */
+function isRetryable(error: unknown): boolean {
+  const code = (error as any)?.code;
+  return isRateLimited(error) || code === "NETWORK_ERROR" || (typeof code === "number" && code >= 500);
+}
+
+/**
+ * Whether the exchange refused a request for exceeding the rate limit
+ */
+function isRateLimited(error: unknown): boolean {
+  const code = (error as any)?.code;
+  return code === 429 || code === "429";
+}
+
+/**
+ * Wait before a retry
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Queue, weight budget, cache and statistics of one API host
+ */
+export class RequestScheduler {
+  private tokens: number;
+  private lastRefill: number;
+  private queue: QueuedRequest[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight = new Map<string, Promise<unknown>>();
+  private cache = new Map<string, { value: unknown; expiresAt: number }>();
+  private recent: { time: number; weight: number }[] = [];
+  private endpoints: { [priority in Priority]: Map<string, EndpointStats> } = {
+    exchange: new Map(),
+    info: new Map()
+  };
+  private counters = { hits: 0, misses: 0, throttled: 0, rateLimited: 0 };
+
+  constructor(
+    readonly baseUrl: string,
+    readonly weightPerMinute: number = DEFAULT_WEIGHT_PER_MINUTE,
+    private now: () => number = Date.now
+  ) {
+    this.tokens = weightPerMinute;
+    this.lastRefill = now();
+  }
+
+  /**
+   * Send a request through the scheduler
+   * send performs the actual HTTP call once the request's turn comes
+   */
+  async request<T>(endpoint: string, payload: any, send: () => Promise<T>): Promise<T> {
+    if (endpoint === EXCHANGE_ENDPOINT) {
+      return this.schedule(this.stats("exchange", payload?.action?.type), "exchange", exchangeWeight(payload), send);
+    }
+
+    const type = String(payload?.type ?? "unknown");
+    const stats = this.stats("info", type);
+    const key = `${endpoint} ${JSON.stringify(payload)}`;
+
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > this.now()) {
+      stats.cacheHits++;
+      this.counters.hits++;
+      return structuredClone(cached.value) as T;
+    }
+    if (cached) {
+      this.cache.delete(key);
+    }
+
+    // Callers get their own copies, since the SDK rewrites some responses in place
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      stats.merged++;
+      return structuredClone(await pending) as T;
+    }
+
+    this.counters.misses++;
+    const promise = this.schedule(stats, "info", INFO_WEIGHTS[type] ?? DEFAULT_INFO_WEIGHT, send)
+      .then((value) => {
+        const ttl = CACHE_TTL_MS[type];
+        if (ttl) {
+          this.cache.set(key, { value, expiresAt: this.now() + ttl });
+        }
+        const perWeight = ITEMS_PER_WEIGHT[type];
+        if (perWeight && Array.isArray(value)) {
+          const extra = Math.floor(value.length / perWeight);
+          stats.weight += extra;
+          this.spend(extra);
+        }
+        return value;
+      })
+      .finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, promise);
+    return structuredClone(await promise) as T;
+  }
+
+  /**
+   * Snapshot of the budget, queue, cache and per-endpoint counters
+   */
+  getStats(): SchedulerStats {
+    this.refill();
+    const cutoff = this.now() - 60 * 1000;
+    this.recent = this.recent.filter((entry) => entry.time > cutoff);
+
+    return {
+      baseUrl: this.baseUrl,
+      limit: {
+        weightPerMinute: this.weightPerMinute,
+        available: Math.floor(this.tokens),
+        usedLastMinute: this.recent.reduce((total, entry) => total + entry.weight, 0),
+        throttled: this.counters.throttled,
+        rateLimited: this.counters.rateLimited
+      },
+      queued: {
+        exchange: this.queue.filter((queued) => queued.priority === "exchange").length,
+        info: this.queue.filter((queued) => queued.priority === "info").length
+      },
+      cache: { entries: this.cache.size, hits: this.counters.hits, misses: this.counters.misses },
+      endpoints: {
+        exchange: Object.fromEntries(this.endpoints.exchange),
+        info: Object.fromEntries(this.endpoints.info)
+      }
+    };
+  }
+
+  /**
+   * Drop every cached response
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Send a request once the budget allows, retrying with exponential backoff
+   * A rate-limited response empties the budget, since the exchange's count
+   * of what this IP has used is the one that matters
+   */
+  private async schedule<T>(stats: EndpointStats, priority: Priority, weight: number, send: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(priority, weight);
+      stats.requests++;
+      stats.weight += weight;
+
+      try {
+        return await send();
+      } catch (error) {
+        if (isRateLimited(error)) {
+          this.counters.rateLimited++;
+          this.tokens = Math.min(this.tokens, 0);
+        }
+        if (attempt >= MAX_RETRIES || !isRetryable(error)) {
+          stats.errors++;
+          throw error;
+        }
+        stats.retries++;
+        await sleep(RETRY_BASE_MS * 2 ** attempt);
+      }
+    }
+  }
+
+  /**
+   * Wait for a request's turn and take its weight from the budget
+   */
+  private acquire(priority: Priority, weight: number): Promise<void> {
+    this.refill();
+    if (this.queue.length || this.tokens < weight) {
+      this.counters.throttled++;
+    }
+    return new Promise((start) => {
+      this.queue.push({ priority, weight: Math.min(weight, this.weightPerMinute), start });
+      this.pump();
+    });
+  }
+
+  /**
+   * Start queued requests while the budget lasts, exchange actions first,
+   * and wake up again once it has refilled enough for the next one
+   */
+  private pump(): void {
+    if (this.timer) {
+      return;
+    }
+    this.refill();
+
+    while (this.queue.length) {
+      const exchangeIndex = this.queue.findIndex((queued) => queued.priority === "exchange");
+      const index = exchangeIndex >= 0 ? exchangeIndex : 0;
+      const next = this.queue[index];
+
+      if (this.tokens < next.weight) {
+        const wait = Math.ceil(((next.weight - this.tokens) * 60 * 1000) / this.weightPerMinute);
+        this.timer = setTimeout(() => {
+          this.timer = null;
+          this.pump();
+        }, wait);
+        return;
+      }
+
+      this.queue.splice(index, 1);
+      this.spend(next.weight);
+      next.start();
+    }
+  }
+
+  /**
+   * Add the budget earned since the last refill, up to a minute's worth
+   */
+  private refill(): void {
+    const now = this.now();
+    this.tokens = Math.min(this.weightPerMinute, this.tokens + ((now - this.lastRefill) * this.weightPerMinute) / (60 * 1000));
+    this.lastRefill = now;
+  }
+
+  /**
+   * Take weight from the budget and remember it for the last-minute total
+   */
+  private spend(weight: number): void {
+    const now = this.now();
+    this.tokens -= weight;
+    this.recent.push({ time: now, weight });
+    while (this.recent[0].time <= now - 60 * 1000) {
+      this.recent.shift();
+    }
+  }
+
+  /**
+   * Counters of an exchange action or info request type
+   */
+  private stats(priority: Priority, name: string = "unknown"): EndpointStats {
+    let stats = this.endpoints[priority].get(name);
+    if (!stats) {
+      stats = { requests: 0, weight: 0, cacheHits: 0, merged: 0, retries: 0, errors: 0 };
+      this.endpoints[priority].set(name, stats);
+    }
+    return stats;
+  }
+}
+
+const schedulers = new Map<string, RequestScheduler>();
+
+/**
+ * The scheduler of an API host, shared by every client that talks to it
+ * The budget defaults to Hyperliquid's 1200 weight per minute and can be
+ * lowered with HYPERLIQUID_MCP_WEIGHT_PER_MINUTE when other programs share
+ * the IP
+ */
+export function getScheduler(baseUrl: string): RequestScheduler {
+  let scheduler = schedulers.get(baseUrl);
+  if (!scheduler) {
+    const configured = Number(process.env[WEIGHT_VARIABLE]);
+    scheduler = new RequestScheduler(baseUrl, configured > 0 ? configured : DEFAULT_WEIGHT_PER_MINUTE);
+    schedulers.set(baseUrl, scheduler);
+  }
+  return scheduler;
+}
+
+/**
+ * Every scheduler created so far
+ */
+export function listSchedulers(): RequestScheduler[] {
+  return [...schedulers.values()];
+}
+
+/**
+ * The SDK's HTTP clients of a client: info, asset map refresh and, when it
+ * has a key, exchange
+ */
+export function sdkHttpApis(client: Hyperliquid): any[] {
+  const apis = [(client.info as any).httpApi, (client.symbolConversion as any).httpApi];
+  if (client.isAuthenticated()) {
+    apis.push((client.exchange as any).httpApi);
+  }
+  return apis.filter(Boolean);
+}
+
+/**
+ * Route a client's REST requests through its host's scheduler
+ * The SDK's own limiter is bypassed, since the scheduler already paces the
+ * requests and knows their real weights. Must be called before paper mode
+ * replaces the exchange API
+ */
+export function attachScheduler(client: Hyperliquid): RequestScheduler {
+  const scheduler = getScheduler(client.getBaseUrl());
+  for (const api of sdkHttpApis(client)) {
+    if (api.scheduler) {
+      continue;
+    }
+    const makeRequest = api.makeRequest.bind(api);
+    api.scheduler = scheduler;
+    api.rateLimiter = { waitForToken: async () => undefined };
+    api.makeRequest = (payload: any, weight?: number, endpoint: string = api.endpoint) =>
+      scheduler.request(endpoint, payload, () => makeRequest(payload, weight, endpoint));
+  }
+  return scheduler;
+}
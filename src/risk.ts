@@ -0,0 +1,312 @@
+/**
+ * Pre-trade risk checks
+ *
+ * A configurable risk policy checked before every order, plus the
+ * confirmation tokens required for large mainnet orders.
+ */
+
+import crypto from "crypto";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Type definitions for the risk policy and the orders it checks
+ * Limits left undefined are not enforced
+ */
+export interface RiskPolicy {
+  maxOrderNotional?: number;
+  maxSymbolNotional?: number;
+  maxLeverage?: number;
+  allowedSymbols?: string[];
+  deniedSymbols?: string[];
+  maxDailyLoss?: number;
+  maxOrdersPerMinute?: number;
+  mainnetConfirmNotional?: number;
+}
+
+export interface OrderIntent {
+  symbol: string;
+  side: "buy" | "sell";
+  size: number;
+  price: number;
+  reduceOnly: boolean;
+}
+
+/**
+ * Account figures the exposure checks need
+ * Only fetched when the policy has a limit that uses them
+ */
+export interface RiskAccountState {
+  accountValue?: number;
+  positions?: { [symbol: string]: number };
+  dailyRealizedPnl?: number;
+}
+
+/**
+ * Orders already checked in the same batch but not yet sent: how many, and
+ * the signed notional they add per symbol
+ */
+export interface PendingOrders {
+  count: number;
+  notional: { [symbol: string]: number };
+}
+
+export const DEFAULT_RISK_POLICY: RiskPolicy = {
+  maxOrdersPerMinute: 30,
+  mainnetConfirmNotional: 1000
+};
+
+const NUMERIC_LIMITS: (keyof RiskPolicy)[] = [
+  "maxOrderNotional",
+  "maxSymbolNotional",
+  "maxLeverage",
+  "maxDailyLoss",
+  "maxOrdersPerMinute",
+  "mainnetConfirmNotional"
+];
+
+const SYMBOL_LISTS: (keyof RiskPolicy)[] = ["allowedSymbols", "deniedSymbols"];
+
+const CONFIRM_TOKEN_TTL_MS = 2 * 60 * 1000;
+
+/**
+ * Timestamps of recent orders, for the orders-per-minute limit
+ */
+let recentOrders: number[] = [];
+
+/**
+ * Outstanding confirmation tokens and the order each one approves
+ */
+const confirmTokens: { [token: string]: { fingerprint: string; expiresAt: number } } = {};
+
+/**
+ * Build the MCP error returned when an order breaks a rule
+ */
+function violation(rule: keyof RiskPolicy, message: string): McpError {
+  return new McpError(ErrorCode.InvalidRequest, `Risk check failed (${rule}): ${message}`, { rule });
+}
+
+/**
+ * Normalize a symbol for list matching, so BTC, btc and BTC-PERP are equal
+ */
+function normalizeSymbol(symbol: string): string {
+  return symbol.toUpperCase().replace(/-PERP$/, "");
+}
+
+/**
+ * Format a USD amount for error messages
+ */
+function usd(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+/**
+ * Apply a partial update to a risk policy
+ * A null value removes that limit; anything else is validated
+ */
+export function updateRiskPolicy(policy: RiskPolicy, updates: { [key: string]: unknown }): RiskPolicy {
+  const updated: RiskPolicy = { ...policy };
+
+  for (const [key, value] of Object.entries(updates)) {
+    const field = key as keyof RiskPolicy;
+
+    if (NUMERIC_LIMITS.includes(field)) {
+      if (value === null) {
+        delete updated[field];
+        continue;
+      }
+      const limit = Number(value);
+      if (!Number.isFinite(limit) || limit < 0) {
+        throw new McpError(ErrorCode.InvalidParams, `${key} must be a non-negative number or null`);
+      }
+      (updated as any)[field] = limit;
+    } else if (SYMBOL_LISTS.includes(field)) {
+      if (value === null) {
+        delete updated[field];
+        continue;
+      }
+      if (!Array.isArray(value) || value.some((symbol) => typeof symbol !== "string")) {
+        throw new McpError(ErrorCode.InvalidParams, `${key} must be an array of symbols or null`);
+      }
+      (updated as any)[field] = value;
+    } else {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown risk policy field: ${key}`);
+    }
+  }
+
+  return updated;
+}
+
+/**
+ * Which account figures a policy needs to check an order
+ */
+export function requiredAccountState(policy: RiskPolicy, intent: OrderIntent): {
+  positions: boolean;
+  dailyPnl: boolean;
+} {
+  return {
+    positions: !intent.reduceOnly && (policy.maxSymbolNotional !== undefined || policy.maxLeverage !== undefined),
+    dailyPnl: !intent.reduceOnly && policy.maxDailyLoss !== undefined
+  };
+}
+
+/**
+ * Number of orders sent in the last minute
+ */
+export function ordersInLastMinute(now: number = Date.now()): number {
+  recentOrders = recentOrders.filter((time) => time > now - 60 * 1000);
+  return recentOrders.length;
+}
+
+/**
+ * Record that an order was sent, for the orders-per-minute limit
+ */
+export function recordOrder(now: number = Date.now()): void {
+  recentOrders.push(now);
+}
+
+/**
+ * Count an order that passed the checks towards the rest of its batch
+ * Reduce-only orders add no exposure
+ */
+export function addPendingOrder(pending: PendingOrders, intent: OrderIntent): void {
+  pending.count++;
+  if (!intent.reduceOnly) {
+    const symbol = normalizeSymbol(intent.symbol);
+    const notional = intent.size * intent.price;
+    pending.notional[symbol] = (pending.notional[symbol] ?? 0) + (intent.side === "buy" ? notional : -notional);
+  }
+}
+
+/**
+ * Check an order against the policy, throwing an MCP error naming the first
+ * rule it breaks
+ * Orders sent together are checked one by one, each on top of the pending
+ * ones before it, so a batch cannot go over a limit its orders each stay
+ * under. Reduce-only orders lower exposure, so only the symbol lists and the
+ * order rate apply to them
+ */
+export function checkOrderRisk(
+  policy: RiskPolicy,
+  intent: OrderIntent,
+  account: RiskAccountState,
+  now: number = Date.now(),
+  pending: PendingOrders = { count: 0, notional: {} }
+): void {
+  const symbol = normalizeSymbol(intent.symbol);
+
+  if (policy.deniedSymbols?.some((denied) => normalizeSymbol(denied) === symbol)) {
+    throw violation("deniedSymbols", `${intent.symbol} is on the deny list`);
+  }
+
+  if (policy.allowedSymbols && !policy.allowedSymbols.some((allowed) => normalizeSymbol(allowed) === symbol)) {
+    throw violation("allowedSymbols", `${intent.symbol} is not on the allow list (${policy.allowedSymbols.join(", ")})`);
+  }
+
+  if (policy.maxOrdersPerMinute !== undefined && ordersInLastMinute(now) + pending.count >= policy.maxOrdersPerMinute) {
+    throw violation(
+      "maxOrdersPerMinute",
+      pending.count > 0
+        ? `this batch would send more than ${policy.maxOrdersPerMinute} orders in a minute`
+        : `already sent ${policy.maxOrdersPerMinute} orders in the last minute`
+    );
+  }
+
+  if (intent.reduceOnly) {
+    return;
+  }
+
+  const notional = intent.size * intent.price;
+
+  if (policy.maxOrderNotional !== undefined && notional > policy.maxOrderNotional) {
+    throw violation(
+      "maxOrderNotional",
+      `order notional ${usd(notional)} exceeds the limit of ${usd(policy.maxOrderNotional)}`
+    );
+  }
+
+  if (policy.maxDailyLoss !== undefined && account.dailyRealizedPnl !== undefined &&
+      -account.dailyRealizedPnl >= policy.maxDailyLoss) {
+    throw violation(
+      "maxDailyLoss",
+      `realized loss today is ${usd(-account.dailyRealizedPnl)}, at or over the limit of ${usd(policy.maxDailyLoss)}`
+    );
+  }
+
+  if (!account.positions) {
+    return;
+  }
+
+  // Signed notional of each position once the pending orders and this one fill
+  const positions = { ...account.positions };
+  const keyOf = (normalized: string, fallback: string) =>
+    Object.keys(positions).find((existing) => normalizeSymbol(existing) === normalized) ?? fallback;
+  for (const [pendingSymbol, pendingNotional] of Object.entries(pending.notional)) {
+    const pendingKey = keyOf(pendingSymbol, pendingSymbol);
+    positions[pendingKey] = (positions[pendingKey] ?? 0) + pendingNotional;
+  }
+  const key = keyOf(symbol, intent.symbol);
+  positions[key] = (positions[key] ?? 0) + (intent.side === "buy" ? notional : -notional);
+
+  if (policy.maxSymbolNotional !== undefined && Math.abs(positions[key]) > policy.maxSymbolNotional) {
+    throw violation(
+      "maxSymbolNotional",
+      `${intent.symbol} exposure would be ${usd(Math.abs(positions[key]))}, over the limit of ${usd(policy.maxSymbolNotional)}`
+    );
+  }
+
+  if (policy.maxLeverage !== undefined && account.accountValue !== undefined) {
+    const totalNotional = Object.values(positions).reduce((total, value) => total + Math.abs(value), 0);
+    const leverage = account.accountValue > 0 ? totalNotional / account.accountValue : Infinity;
+    if (leverage > policy.maxLeverage) {
+      throw violation(
+        "maxLeverage",
+        `total leverage would be ${leverage.toFixed(2)}x, over the limit of ${policy.maxLeverage}x`
+      );
+    }
+  }
+}
+
+/**
+ * Whether mainnet orders sent together are large enough to need a
+ * confirmation token
+ */
+export function needsConfirmation(policy: RiskPolicy, intents: OrderIntent[]): boolean {
+  const notional = intents.reduce((total, intent) => total + intent.size * intent.price, 0);
+  return policy.mainnetConfirmNotional !== undefined && notional > policy.mainnetConfirmNotional;
+}
+
+/**
+ * Issue a single-use token that confirms one specific request
+ * The request is identified by the order arguments as given, not by derived
+ * prices, so a market order can be confirmed after the mid price moves
+ */
+export function issueConfirmToken(request: unknown, now: number = Date.now()): {
+  token: string;
+  expiresAt: number;
+} {
+  for (const [token, entry] of Object.entries(confirmTokens)) {
+    if (entry.expiresAt <= now) {
+      delete confirmTokens[token];
+    }
+  }
+
+  const token = crypto.randomBytes(8).toString("hex");
+  const expiresAt = now + CONFIRM_TOKEN_TTL_MS;
+  confirmTokens[token] = { fingerprint: JSON.stringify(request), expiresAt };
+  return { token, expiresAt };
+}
+
+/**
+ * Use up a confirmation token
+ * Returns false if the token is unknown, expired or was issued for a
+ * different request
+ */
+export function consumeConfirmToken(token: string, request: unknown, now: number = Date.now()): boolean {
+  const entry = confirmTokens[token];
+  if (!entry) {
+    return false;
+  }
+
+  delete confirmTokens[token];
+  return entry.expiresAt > now && entry.fingerprint === JSON.stringify(request);
+}
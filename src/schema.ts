@@ -0,0 +1,318 @@
+/**
+ * Tool input schemas
+ *
+ * Each tool declares its input as a JSON schema once; the same schema is
+ * listed to clients and checked here before the tool runs. Loose values that
+ * models often send, such as "0.5" for a number or "true" for a boolean, are
+ * coerced; anything else is rejected with the field, the rule it broke and a
+ * suggested fix, returned as a tool result so the model can correct the call.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Type definitions for tool schemas
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  enum?: unknown[];
+  properties?: { [name: string]: JsonSchema };
+  required?: string[];
+  items?: JsonSchema;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  minItems?: number;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+}
+
+export interface SchemaIssue {
+  field: string;
+  constraint: string;
+  message: string;
+  fix: string;
+}
+
+/**
+ * Arguments that do not match a tool's schema
+ */
+export class ToolInputError extends McpError {
+  constructor(readonly issues: SchemaIssue[]) {
+    super(ErrorCode.InvalidParams, issues.map((issue) => issue.message).join("; "));
+  }
+}
+
+const NUMBER_PATTERN = /^\s*-?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?\s*$/i;
+const ERROR_TYPES: { [code: number]: string } = {
+  [ErrorCode.InvalidParams]: "invalid_arguments",
+  [ErrorCode.InvalidRequest]: "invalid_request",
+  [ErrorCode.MethodNotFound]: "unknown_tool",
+  [ErrorCode.InternalError]: "internal_error"
+};
+const TYPE_NAMES: { [type: string]: string } = {
+  string: "a string",
+  number: "a number",
+  integer: "a whole number",
+  boolean: "true or false",
+  array: "an array",
+  object: "an object",
+  null: "null"
+};
+
+/**
+ * Edit distance between two names, for "did you mean" suggestions
+ */
+function distance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+/**
+ * The candidate closest to a misspelled name, if any is close enough
+ */
+export function closestName(name: string, candidates: string[]): string | undefined {
+  const lower = name.toLowerCase();
+  let best: { candidate: string; score: number } | undefined;
+  for (const candidate of candidates) {
+    const score = distance(lower, candidate.toLowerCase());
+    if (score <= Math.max(2, Math.floor(candidate.length / 4)) && (!best || score < best.score)) {
+      best = { candidate, score };
+    }
+  }
+  return best?.candidate;
+}
+
+/**
+ * Whether a value is a plain JSON object
+ */
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a value already has a JSON schema type
+ */
+function hasType(type: string, value: unknown): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isObject(value);
+    case "null":
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Convert a value to a JSON schema type where the intent is unambiguous:
+ * numeric strings to numbers, "true"/"false" to booleans and numbers to
+ * strings
+ */
+function coerceType(type: string, value: unknown): { value: unknown } | undefined {
+  if ((type === "number" || type === "integer") && typeof value === "string" && NUMBER_PATTERN.test(value)) {
+    const number = Number(value);
+    return hasType(type, number) ? { value: number } : undefined;
+  }
+  if (type === "boolean" && typeof value === "string" && /^(true|false)$/i.test(value.trim())) {
+    return { value: value.trim().toLowerCase() === "true" };
+  }
+  if (type === "string" && typeof value === "number" && Number.isFinite(value)) {
+    return { value: String(value) };
+  }
+  return undefined;
+}
+
+/**
+ * Check a value against a schema, collecting issues, and return it coerced
+ */
+function checkValue(schema: JsonSchema, value: unknown, field: string, issues: SchemaIssue[]): unknown {
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  const issue = (constraint: string, message: string, fix: string) => {
+    issues.push({ field, constraint, message: `${field} ${message}`, fix });
+    return value;
+  };
+
+  if (types.length && !types.some((type) => hasType(type, value))) {
+    const coerced = types.map((type) => coerceType(type, value)).find((result) => result !== undefined);
+    if (!coerced) {
+      const expected = types.map((type) => TYPE_NAMES[type] ?? type).join(" or ");
+      return issue(`type: ${types.join(" | ")}`, `must be ${expected}, not ${JSON.stringify(value)}`, `Pass ${field} as ${expected}`);
+    }
+    value = coerced.value;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    // Accept a difference in case only, such as BUY for buy
+    const text = typeof value === "string" ? value.toLowerCase() : undefined;
+    const match = text !== undefined
+      ? schema.enum.find((option) => typeof option === "string" && option.toLowerCase() === text)
+      : undefined;
+    if (match === undefined) {
+      const options = schema.enum.map(String).join(", ");
+      return issue("enum", `must be one of: ${options}`, `Use one of: ${options}`);
+    }
+    value = match;
+  }
+
+  if (typeof value === "number") {
+    if (types.includes("integer") && !Number.isInteger(value)) {
+      return issue("integer", "must be a whole number", `Round ${field} to a whole number`);
+    }
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      return issue(`minimum: ${schema.minimum}`, `must be at least ${schema.minimum}`, `Use a value of ${schema.minimum} or more`);
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      return issue(
+        `exclusiveMinimum: ${schema.exclusiveMinimum}`,
+        `must be greater than ${schema.exclusiveMinimum}`,
+        `Use a value above ${schema.exclusiveMinimum}`
+      );
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      return issue(`maximum: ${schema.maximum}`, `must be at most ${schema.maximum}`, `Use a value of ${schema.maximum} or less`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      return issue(`minItems: ${schema.minItems}`, `must have at least ${schema.minItems} item(s)`, `Pass at least ${schema.minItems} item(s) in ${field}`);
+    }
+    if (schema.items) {
+      return value.map((item, index) => checkValue(schema.items!, item, `${field}[${index}]`, issues));
+    }
+  }
+
+  if (isObject(value) && schema.properties) {
+    return checkObject(schema, value, `${field}.`, issues);
+  }
+
+  return value;
+}
+
+/**
+ * Check an object's properties: required ones must be present, unknown ones
+ * are rejected with the closest known name, and an optional property set to
+ * null counts as left out unless the schema allows null
+ */
+function checkObject(schema: JsonSchema, value: { [key: string]: unknown }, prefix: string, issues: SchemaIssue[]): { [key: string]: unknown } {
+  const properties = schema.properties ?? {};
+  const names = Object.keys(properties);
+  const result: { [key: string]: unknown } = {};
+
+  for (const [name, field] of Object.entries(value)) {
+    const property = properties[name];
+    if (!property) {
+      const suggestion = closestName(name, names);
+      issues.push({
+        field: `${prefix}${name}`,
+        constraint: "unknown property",
+        message: `${prefix}${name} is not a known argument`,
+        fix: suggestion
+          ? `Did you mean ${prefix}${suggestion}?`
+          : `Remove it. Known arguments: ${names.join(", ") || "none"}`
+      });
+      continue;
+    }
+    const nullable = ([] as string[]).concat(property.type ?? []).includes("null");
+    if (field === undefined || (field === null && !nullable)) {
+      continue;
+    }
+    result[name] = checkValue(property, field, `${prefix}${name}`, issues);
+  }
+
+  for (const name of schema.required ?? []) {
+    if (result[name] === undefined || result[name] === "") {
+      const description = properties[name]?.description;
+      issues.push({
+        field: `${prefix}${name}`,
+        constraint: "required",
+        message: `${prefix}${name} is required`,
+        fix: `Add ${prefix}${name}` + (description ? ` (${description})` : "")
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Validate and coerce a tool's arguments against its input schema
+ */
+export function validateToolArguments(tool: ToolDefinition, args: unknown): { [key: string]: unknown } {
+  const issues: SchemaIssue[] = [];
+  if (args !== undefined && args !== null && !isObject(args)) {
+    throw new ToolInputError([{
+      field: "arguments",
+      constraint: "type: object",
+      message: "arguments must be an object",
+      fix: "Pass the arguments as a JSON object"
+    }]);
+  }
+
+  const value = checkObject(tool.inputSchema, (args ?? {}) as { [key: string]: unknown }, "", issues);
+  if (issues.length) {
+    throw new ToolInputError(issues);
+  }
+  return value;
+}
+
+/**
+ * Turn an error from a tool call into a structured tool result
+ * The field is named when the error is about one of the tool's arguments
+ */
+export function toolErrorResult(toolName: string, error: unknown, tool?: ToolDefinition, toolNames: string[] = []) {
+  const code = error instanceof McpError ? error.code : ErrorCode.InternalError;
+  const message = (error instanceof Error ? error.message : String(error)).replace(/^MCP error -?\d+: /, "");
+  const body: { [key: string]: unknown } = {
+    type: ERROR_TYPES[code] ?? "error",
+    tool: toolName,
+    message
+  };
+
+  if (error instanceof ToolInputError) {
+    body.issues = error.issues;
+  } else if (code === ErrorCode.MethodNotFound) {
+    const suggestion = closestName(toolName, toolNames);
+    body.fix = suggestion ? `Did you mean ${suggestion}?` : "List the tools to see which are available";
+  } else if (code === ErrorCode.InvalidParams && tool) {
+    const field = Object.keys(tool.inputSchema.properties ?? {})
+      .find((name) => message.startsWith(`${name} `) || message.startsWith(`${name}:`) || message.startsWith(`${name}[`));
+    if (field) {
+      body.field = field;
+      body.fix = `Correct ${field} and call ${toolName} again`;
+    }
+  }
+
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify({ error: body }, null, 2)
+    }],
+    isError: true
+  };
+}
@@ -0,0 +1,382 @@
+/**
+ * Local persistence for credentials and strategies
+ *
+ * Everything lives in a data directory (HYPERLIQUID_MCP_DATA_DIR, default
+ * ~/.hyperliquid-mcp). Logins are saved as named accounts. Private keys are
+ * only ever written as encrypted JSON keystores, one per account; the rest of
+ * each login and the strategies are plain JSON. The trade journal is a JSON
+ * lines file that is only ever appended to.
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers } from "ethers";
+import { Alert, AlertEvent } from "./alerts.js";
+import { BacktestResult } from "./backtest.js";
+import { ExecutionJob } from "./execution.js";
+import { JournalEntry } from "./journal.js";
+import { PaperState } from "./paper.js";
+import { RiskPolicy } from "./risk.js";
+import { Strategy } from "./strategies.js";
+
+/**
+ * Non-secret part of a saved login
+ */
+export interface StoredCredentials {
+  walletAddress?: string;
+  testnet: boolean;
+  vaultAddress?: string;
+  paper?: boolean;
+  paperSnapshots?: string;
+  agentAddress?: string; // Set when the saved key is an agent wallet signing for walletAddress
+  agentName?: string;
+}
+
+/**
+ * Saved logins keyed by account name, and the account used when a tool
+ * names none
+ */
+export interface StoredAccounts {
+  active: string;
+  accounts: { [name: string]: StoredCredentials };
+}
+
+/**
+ * Saved alerts keyed by alert ID, and the events they recorded, oldest first
+ */
+export interface StoredAlerts {
+  alerts: { [id: string]: Alert };
+  events: AlertEvent[];
+}
+
+/**
+ * Trading halt set by the dashboard kill switch
+ */
+export interface TradingHalt {
+  since: string;
+  reason: string;
+}
+
+export const DEFAULT_ACCOUNT = "default";
+export const ACCOUNT_NAME_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+const ACCOUNTS_FILE = "accounts.json";
+const LEGACY_CREDENTIALS_FILE = "credentials.json";
+const KEYSTORE_FILE = "keystore.json";
+const STRATEGIES_FILE = "strategies.json";
+const PAPER_FILE = "paper.json";
+const BACKTESTS_FILE = "backtests.json";
+const RISK_POLICY_FILE = "risk-policy.json";
+const JOURNAL_FILE = "journal.jsonl";
+const HALT_FILE = "halt.json";
+const ALERTS_FILE = "alerts.json";
+const EXECUTIONS_FILE = "executions.json";
+const EXPORTS_DIR = "exports";
+
+/**
+ * Get the directory holding all persisted data
+ */
+export function getDataDir(): string {
+  return process.env.HYPERLIQUID_MCP_DATA_DIR || path.join(os.homedir(), ".hyperliquid-mcp");
+}
+
+/**
+ * Get the keystore passphrase configured in the environment, if any
+ */
+export function getEnvPassphrase(): string | undefined {
+  return process.env.HYPERLIQUID_MCP_PASSPHRASE || undefined;
+}
+
+/**
+ * Read and parse a JSON file from the data directory
+ * Returns null if the file does not exist
+ */
+function readJson<T>(fileName: string): T | null {
+  const filePath = path.join(getDataDir(), fileName);
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(filePath, "utf8")) as T;
+}
+
+/**
+ * Atomically write a JSON file to the data directory, readable only by the
+ * current user
+ */
+function writeJson(fileName: string, data: unknown): void {
+  const dataDir = getDataDir();
+  fs.mkdirSync(dataDir, { recursive: true, mode: 0o700 });
+
+  const filePath = path.join(dataDir, fileName);
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, typeof data === "string" ? data : JSON.stringify(data, null, 2), { mode: 0o600 });
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * Remove a file from the data directory if it exists
+ */
+function removeFile(fileName: string): void {
+  fs.rmSync(path.join(getDataDir(), fileName), { force: true });
+}
+
+/**
+ * File holding an account's keystore or paper account
+ * The default account keeps the file names used before named accounts. The
+ * name becomes part of the path, so anything but a valid account name is
+ * refused
+ */
+function accountFile(fileName: string, account: string): string {
+  if (!ACCOUNT_NAME_PATTERN.test(account)) {
+    throw new Error(`Invalid account name: ${account}`);
+  }
+  return account === DEFAULT_ACCOUNT ? fileName : fileName.replace(".json", `-${account}.json`);
+}
+
+/**
+ * Load the saved accounts
+ * A login saved before named accounts is loaded as the default account
+ */
+export function loadAccounts(): StoredAccounts {
+  const stored = readJson<StoredAccounts>(ACCOUNTS_FILE);
+  if (stored) {
+    return stored;
+  }
+
+  const legacy = readJson<StoredCredentials>(LEGACY_CREDENTIALS_FILE);
+  return { active: DEFAULT_ACCOUNT, accounts: legacy ? { [DEFAULT_ACCOUNT]: legacy } : {} };
+}
+
+/**
+ * Save all accounts, replacing a login saved before named accounts
+ */
+function saveAccounts(stored: StoredAccounts): void {
+  writeJson(ACCOUNTS_FILE, stored);
+  removeFile(LEGACY_CREDENTIALS_FILE);
+}
+
+/**
+ * Save the non-secret part of an account's login
+ */
+export function saveAccount(name: string, credentials: StoredCredentials): void {
+  const stored = loadAccounts();
+  stored.accounts[name] = {
+    walletAddress: credentials.walletAddress,
+    testnet: credentials.testnet,
+    vaultAddress: credentials.vaultAddress,
+    paper: credentials.paper,
+    paperSnapshots: credentials.paperSnapshots,
+    agentAddress: credentials.agentAddress,
+    agentName: credentials.agentName
+  };
+  saveAccounts(stored);
+}
+
+/**
+ * Save which account tools use when they name none
+ */
+export function saveActiveAccount(name: string): void {
+  const stored = loadAccounts();
+  stored.active = name;
+  saveAccounts(stored);
+}
+
+/**
+ * Delete an account's saved login and encrypted private key
+ */
+export function deleteAccount(name: string): void {
+  const stored = loadAccounts();
+  delete stored.accounts[name];
+  saveAccounts(stored);
+  clearKeystore(name);
+}
+
+/**
+ * Whether an encrypted private key has been saved for an account
+ */
+export function hasKeystore(account: string): boolean {
+  return fs.existsSync(path.join(getDataDir(), accountFile(KEYSTORE_FILE, account)));
+}
+
+/**
+ * Encrypt an account's private key with a passphrase and save it as a JSON
+ * keystore
+ */
+export async function saveKeystore(account: string, privateKey: string, passphrase: string): Promise<void> {
+  const formattedPrivateKey = privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`;
+  const wallet = new ethers.Wallet(formattedPrivateKey);
+  writeJson(accountFile(KEYSTORE_FILE, account), await wallet.encrypt(passphrase));
+}
+
+/**
+ * Decrypt an account's saved private key
+ * Throws if there is no keystore or the passphrase is wrong
+ */
+export async function loadKeystore(account: string, passphrase: string): Promise<string> {
+  const keystore = readJson<object>(accountFile(KEYSTORE_FILE, account));
+  if (!keystore) {
+    throw new Error("No saved private key found");
+  }
+
+  const wallet = await ethers.Wallet.fromEncryptedJson(JSON.stringify(keystore), passphrase);
+  return wallet.privateKey;
+}
+
+/**
+ * Delete an account's encrypted private key
+ */
+export function clearKeystore(account: string): void {
+  removeFile(accountFile(KEYSTORE_FILE, account));
+}
+
+/**
+ * Load saved strategies, keyed by strategy ID
+ */
+export function loadStrategies(): { [id: string]: Strategy } {
+  return readJson<{ [id: string]: Strategy }>(STRATEGIES_FILE) ?? {};
+}
+
+/**
+ * Save all strategies, including their runtime state
+ */
+export function saveStrategies(strategies: { [id: string]: Strategy }): void {
+  writeJson(STRATEGIES_FILE, strategies);
+}
+
+/**
+ * Load an account's saved paper trading balance and positions, if any
+ */
+export function loadPaperState(account: string): PaperState | null {
+  return readJson<PaperState>(accountFile(PAPER_FILE, account));
+}
+
+/**
+ * Save an account's paper trading balance and positions
+ */
+export function savePaperState(account: string, state: PaperState): void {
+  writeJson(accountFile(PAPER_FILE, account), state);
+}
+
+/**
+ * Load saved backtest results, keyed by backtest ID
+ */
+export function loadBacktests(): { [id: string]: BacktestResult } {
+  return readJson<{ [id: string]: BacktestResult }>(BACKTESTS_FILE) ?? {};
+}
+
+/**
+ * Save all backtest results
+ */
+export function saveBacktests(backtests: { [id: string]: BacktestResult }): void {
+  writeJson(BACKTESTS_FILE, backtests);
+}
+
+/**
+ * Load saved execution jobs, keyed by job ID
+ */
+export function loadExecutions(): { [id: string]: ExecutionJob } {
+  return readJson<{ [id: string]: ExecutionJob }>(EXECUTIONS_FILE) ?? {};
+}
+
+/**
+ * Save all execution jobs, including their slices
+ */
+export function saveExecutions(executions: { [id: string]: ExecutionJob }): void {
+  writeJson(EXECUTIONS_FILE, executions);
+}
+
+/**
+ * Load the saved risk policy, if any
+ */
+export function loadRiskPolicy(): RiskPolicy | null {
+  return readJson<RiskPolicy>(RISK_POLICY_FILE);
+}
+
+/**
+ * Save the risk policy
+ */
+export function saveRiskPolicy(policy: RiskPolicy): void {
+  writeJson(RISK_POLICY_FILE, policy);
+}
+
+/**
+ * Load the trading halt, if trading is halted
+ */
+export function loadTradingHalt(): TradingHalt | null {
+  return readJson<TradingHalt>(HALT_FILE);
+}
+
+/**
+ * Save the trading halt, or clear it with null
+ */
+export function saveTradingHalt(halt: TradingHalt | null): void {
+  if (halt) {
+    writeJson(HALT_FILE, halt);
+  } else {
+    fs.rmSync(path.join(getDataDir(), HALT_FILE), { force: true });
+  }
+}
+
+/**
+ * Load saved alerts and their events
+ */
+export function loadAlerts(): StoredAlerts {
+  return readJson<StoredAlerts>(ALERTS_FILE) ?? { alerts: {}, events: [] };
+}
+
+/**
+ * Save all alerts, including their state, and their events
+ */
+export function saveAlerts(stored: StoredAlerts): void {
+  writeJson(ALERTS_FILE, stored);
+}
+
+/**
+ * Append an entry to the trade journal
+ */
+export function appendJournalEntry(entry: JournalEntry): void {
+  const dataDir = getDataDir();
+  fs.mkdirSync(dataDir, { recursive: true, mode: 0o700 });
+  fs.appendFileSync(path.join(dataDir, JOURNAL_FILE), JSON.stringify(entry) + "\n", { mode: 0o600 });
+}
+
+/**
+ * Load every trade journal entry, oldest first
+ * Lines that cannot be parsed, such as one cut short by a crash, are skipped
+ */
+export function loadJournal(): JournalEntry[] {
+  const filePath = path.join(getDataDir(), JOURNAL_FILE);
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  const entries: JournalEntry[] = [];
+  for (const line of fs.readFileSync(filePath, "utf8").split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // Skip the damaged line
+    }
+  }
+  return entries;
+}
+
+/**
+ * Write an export to a file in the exports folder of the data directory and
+ * return the absolute path written
+ * Refuses names that would resolve anywhere else
+ */
+export function writeExportFile(fileName: string, content: string): string {
+  const exportsDir = path.resolve(getDataDir(), EXPORTS_DIR);
+  const resolved = path.resolve(exportsDir, fileName);
+  if (path.dirname(resolved) !== exportsDir) {
+    throw new Error(`Export file ${fileName} would be written outside ${exportsDir}`);
+  }
+  fs.mkdirSync(exportsDir, { recursive: true, mode: 0o700 });
+  fs.writeFileSync(resolved, content, { mode: 0o600 });
+  return resolved;
+}
@@ -0,0 +1,625 @@
+/**
+ * Strategy runtime
+ *
+ * Built-in strategy types (grid, DCA, mean reversion), their config
+ * validation, and the scheduler that ticks active strategies and places or
+ * cancels orders through the Hyperliquid exchange API.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { Hyperliquid } from "hyperliquid";
+import { MarketInfo, checkMinNotional, roundMarketPrice, roundSize } from "./markets.js";
+import { roundPrice } from "./orders.js";
+import { OrderIntent } from "./risk.js";
+
+/**
+ * Type definitions for strategy configs and runtime state
+ */
+export type StrategyType = "grid" | "dca" | "mean_reversion";
+
+export const STRATEGY_TYPES: StrategyType[] = ["grid", "dca", "mean_reversion"];
+
+export interface GridConfig {
+  symbol: string;
+  lowerPrice: number;
+  upperPrice: number;
+  levels: number;
+  orderSize: number;
+  intervalSeconds: number;
+}
+
+export interface DcaConfig {
+  symbol: string;
+  side: "buy" | "sell";
+  orderSize: number;
+  intervalSeconds: number;
+  maxOrders?: number;
+  slippage: number;
+}
+
+export interface MeanReversionConfig {
+  symbol: string;
+  lookback: number;
+  entryThreshold: number;
+  exitThreshold: number;
+  orderSize: number;
+  intervalSeconds: number;
+  slippage: number;
+}
+
+export type StrategyConfig = GridConfig | DcaConfig | MeanReversionConfig;
+
+export interface StrategyOrder {
+  oid: number;
+  side: "buy" | "sell";
+  price: number;
+  size: number;
+  placedAt: number;
+  level?: number;
+}
+
+export interface StrategyFill {
+  tid: number;
+  oid: number;
+  side: "buy" | "sell";
+  price: number;
+  size: number;
+  fee: number;
+  closedPnl: number;
+  time: number;
+}
+
+export interface StrategyState {
+  openOrders: StrategyOrder[];
+  fills: StrategyFill[];
+  position: number;
+  realizedPnl: number;
+  fees: number;
+  ordersPlaced: number;
+  priceHistory: number[];
+  startedAt?: number;
+  lastTick?: number;
+  lastError?: string;
+}
+
+export interface Strategy {
+  id: string;
+  name: string;
+  description: string;
+  type: StrategyType;
+  config: StrategyConfig;
+  account?: string; // Account the strategy trades on; the default account if unset
+  active: boolean;
+  state: StrategyState;
+}
+
+/**
+ * Accessors the runtime uses to reach the current client and account
+ */
+export interface StrategyContext {
+  getClient(): Hyperliquid | null;
+  getWalletAddress(): string | undefined;
+  onStateChange?(strategy: Strategy): void;
+  beforeOrder?(order: OrderIntent): Promise<void>;
+  getMarket?(symbol: string): Promise<MarketInfo | undefined>;
+}
+
+/**
+ * What a tick places its orders with: the client, the strategy's market when
+ * its metadata is known, and the run the tick belongs to (none in backtests)
+ */
+interface StrategyTick {
+  client: Hyperliquid;
+  context: StrategyContext;
+  market?: MarketInfo;
+  run?: number;
+}
+
+const DEFAULT_INTERVAL_SECONDS = 30;
+const DEFAULT_SLIPPAGE = 0.01;
+const MAX_TRACKED_FILLS = 500;
+
+/**
+ * Timers for running strategies, keyed by strategy ID
+ */
+const timers: { [id: string]: NodeJS.Timeout } = {};
+
+/**
+ * Current run of each running strategy, keyed by strategy ID
+ * Every start gets a new run number, so a tick still in flight from before a
+ * stop and restart can tell that its loop has ended
+ */
+const runs: { [id: string]: number } = {};
+let lastRun = 0;
+
+/**
+ * Read a numeric config field, throwing an InvalidParams error if it is
+ * missing, not a number or out of range
+ */
+function requireNumber(
+  config: any,
+  field: string,
+  options: { min?: number; positive?: boolean; integer?: boolean; defaultValue?: number } = {}
+): number {
+  const raw = config[field];
+
+  if (raw === undefined || raw === null) {
+    if (options.defaultValue !== undefined) {
+      return options.defaultValue;
+    }
+    throw new McpError(ErrorCode.InvalidParams, `config.${field} is required`);
+  }
+
+  const value = Number(raw);
+  if (!Number.isFinite(value)) {
+    throw new McpError(ErrorCode.InvalidParams, `config.${field} must be a number`);
+  }
+  if (options.integer && !Number.isInteger(value)) {
+    throw new McpError(ErrorCode.InvalidParams, `config.${field} must be an integer`);
+  }
+  if (options.min !== undefined && value < options.min) {
+    throw new McpError(ErrorCode.InvalidParams, `config.${field} must be at least ${options.min}`);
+  }
+  if (options.positive && value <= 0) {
+    throw new McpError(ErrorCode.InvalidParams, `config.${field} must be greater than 0`);
+  }
+  return value;
+}
+
+/**
+ * Read the symbol field shared by all strategy types
+ */
+function requireSymbol(config: any): string {
+  if (typeof config.symbol !== "string" || !config.symbol) {
+    throw new McpError(ErrorCode.InvalidParams, "config.symbol is required (e.g., BTC-PERP)");
+  }
+  return config.symbol;
+}
+
+/**
+ * Validate a strategy config against the schema for its type
+ * Returns a normalized config with defaults applied
+ */
+export function validateStrategyConfig(type: string, config: any): StrategyConfig {
+  if (!STRATEGY_TYPES.includes(type as StrategyType)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown strategy type: ${type}. Expected one of ${STRATEGY_TYPES.join(", ")}`
+    );
+  }
+
+  if (!config || typeof config !== "object" || Array.isArray(config)) {
+    throw new McpError(ErrorCode.InvalidParams, "config must be an object");
+  }
+
+  switch (type as StrategyType) {
+    case "grid": {
+      const grid: GridConfig = {
+        symbol: requireSymbol(config),
+        lowerPrice: requireNumber(config, "lowerPrice", { min: 0 }),
+        upperPrice: requireNumber(config, "upperPrice", { min: 0 }),
+        levels: requireNumber(config, "levels", { min: 2, integer: true }),
+        orderSize: requireNumber(config, "orderSize", { positive: true }),
+        intervalSeconds: requireNumber(config, "intervalSeconds", { min: 1, defaultValue: DEFAULT_INTERVAL_SECONDS })
+      };
+      if (grid.upperPrice <= grid.lowerPrice) {
+        throw new McpError(ErrorCode.InvalidParams, "config.upperPrice must be greater than config.lowerPrice");
+      }
+      return grid;
+    }
+
+    case "dca": {
+      if (config.side !== "buy" && config.side !== "sell") {
+        throw new McpError(ErrorCode.InvalidParams, "config.side must be buy or sell");
+      }
+      return {
+        symbol: requireSymbol(config),
+        side: config.side,
+        orderSize: requireNumber(config, "orderSize", { positive: true }),
+        intervalSeconds: requireNumber(config, "intervalSeconds", { min: 1, defaultValue: 3600 }),
+        maxOrders: config.maxOrders === undefined
+          ? undefined
+          : requireNumber(config, "maxOrders", { min: 1, integer: true }),
+        slippage: requireNumber(config, "slippage", { min: 0, defaultValue: DEFAULT_SLIPPAGE })
+      };
+    }
+
+    case "mean_reversion": {
+      const meanReversion: MeanReversionConfig = {
+        symbol: requireSymbol(config),
+        lookback: requireNumber(config, "lookback", { min: 2, integer: true }),
+        entryThreshold: requireNumber(config, "entryThreshold", { min: 0 }),
+        exitThreshold: requireNumber(config, "exitThreshold", { min: 0, defaultValue: 0 }),
+        orderSize: requireNumber(config, "orderSize", { positive: true }),
+        intervalSeconds: requireNumber(config, "intervalSeconds", { min: 1, defaultValue: DEFAULT_INTERVAL_SECONDS }),
+        slippage: requireNumber(config, "slippage", { min: 0, defaultValue: DEFAULT_SLIPPAGE })
+      };
+      if (meanReversion.exitThreshold >= meanReversion.entryThreshold) {
+        throw new McpError(ErrorCode.InvalidParams, "config.exitThreshold must be less than config.entryThreshold");
+      }
+      return meanReversion;
+    }
+  }
+}
+
+/**
+ * Create empty runtime state for a new strategy
+ */
+export function createStrategyState(): StrategyState {
+  return {
+    openOrders: [],
+    fills: [],
+    position: 0,
+    realizedPnl: 0,
+    fees: 0,
+    ordersPlaced: 0,
+    priceHistory: []
+  };
+}
+
+/**
+ * Whether the scheduler currently has a loop running for a strategy
+ */
+export function isStrategyRunning(id: string): boolean {
+  return timers[id] !== undefined;
+}
+
+/**
+ * Activate a strategy and start ticking it on its configured interval
+ */
+export function startStrategy(strategy: Strategy, context: StrategyContext): void {
+  if (isStrategyRunning(strategy.id)) {
+    return;
+  }
+
+  strategy.active = true;
+  strategy.state.startedAt = strategy.state.startedAt ?? Date.now();
+  strategy.state.lastError = undefined;
+  runs[strategy.id] = ++lastRun;
+  scheduleTick(strategy, context, 0, runs[strategy.id]);
+}
+
+/**
+ * Deactivate a strategy, stop its loop and optionally cancel its resting orders
+ */
+export async function stopStrategy(
+  strategy: Strategy,
+  context: StrategyContext,
+  cancelOrders: boolean
+): Promise<void> {
+  strategy.active = false;
+  delete runs[strategy.id];
+
+  if (timers[strategy.id]) {
+    clearTimeout(timers[strategy.id]);
+    delete timers[strategy.id];
+  }
+
+  if (!cancelOrders || strategy.state.openOrders.length === 0) {
+    return;
+  }
+
+  const client = context.getClient();
+  if (!client) {
+    throw new Error("No credentials provided. Please authenticate first.");
+  }
+
+  await client.connect();
+  await client.exchange.cancelOrder(
+    strategy.state.openOrders.map((order) => ({
+      coin: strategy.config.symbol,
+      o: order.oid
+    }))
+  );
+  strategy.state.openOrders = [];
+}
+
+/**
+ * Queue the next tick of one run of a strategy
+ * Ticks are chained with setTimeout so they never overlap
+ */
+function scheduleTick(strategy: Strategy, context: StrategyContext, delayMs: number, run: number): void {
+  timers[strategy.id] = setTimeout(async () => {
+    try {
+      await tickStrategy(strategy, context, run);
+      strategy.state.lastError = undefined;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      strategy.state.lastError = errorMessage;
+      console.error(`Strategy ${strategy.id} tick failed:`, errorMessage);
+    }
+
+    strategy.state.lastTick = Date.now();
+    context.onStateChange?.(strategy);
+
+    // The strategy may have been stopped, or stopped and started again, while the tick was running
+    if (strategy.active && runs[strategy.id] === run) {
+      scheduleTick(strategy, context, strategy.config.intervalSeconds * 1000, run);
+    }
+  }, delayMs);
+}
+
+/**
+ * Run a single iteration of a strategy
+ * Also used by the backtester to replay a strategy against historical data.
+ * A tick of a run places no orders once that run has been stopped
+ */
+export async function tickStrategy(strategy: Strategy, context: StrategyContext, run?: number): Promise<void> {
+  const client = context.getClient();
+  if (!client) {
+    throw new Error("No credentials provided. Please authenticate first.");
+  }
+
+  const walletAddress = context.getWalletAddress();
+  if (!walletAddress) {
+    throw new Error("Wallet address is required to track strategy orders");
+  }
+
+  await client.connect();
+
+  const market = await context.getMarket?.(strategy.config.symbol);
+  const tick: StrategyTick = { client, context, market, run };
+  const closedOrders = await syncOrders(client, walletAddress, strategy);
+  const midPrice = await getMidPrice(client, market?.symbol ?? strategy.config.symbol);
+
+  switch (strategy.type) {
+    case "grid":
+      await tickGrid(tick, strategy, strategy.config as GridConfig, midPrice, closedOrders);
+      break;
+    case "dca":
+      await tickDca(tick, strategy, strategy.config as DcaConfig, midPrice);
+      break;
+    case "mean_reversion":
+      await tickMeanReversion(tick, strategy, strategy.config as MeanReversionConfig, midPrice);
+      break;
+  }
+}
+
+/**
+ * Reconcile tracked orders with the exchange
+ * Records new fills for the strategy's orders and returns the orders that are
+ * no longer resting, together with how much of each was filled
+ */
+async function syncOrders(
+  client: Hyperliquid,
+  walletAddress: string,
+  strategy: Strategy
+): Promise<{ order: StrategyOrder; filledSize: number }[]> {
+  const state = strategy.state;
+  if (state.openOrders.length === 0) {
+    return [];
+  }
+
+  const openOrders: any[] = await client.info.getUserOpenOrders(walletAddress);
+  const restingOids = new Set(openOrders.map((order) => order.oid));
+
+  const trackedOids = new Set(state.openOrders.map((order) => order.oid));
+  const seenTids = new Set(state.fills.map((fill) => fill.tid));
+  const userFills: any[] = await client.info.getUserFillsByTime(walletAddress, state.startedAt ?? 0, Date.now());
+
+  for (const fill of userFills) {
+    if (!trackedOids.has(fill.oid) || seenTids.has(fill.tid)) {
+      continue;
+    }
+
+    const recorded: StrategyFill = {
+      tid: fill.tid,
+      oid: fill.oid,
+      side: fill.side === "B" ? "buy" : "sell",
+      price: parseFloat(fill.px),
+      size: parseFloat(fill.sz),
+      fee: parseFloat(fill.fee ?? "0"),
+      closedPnl: parseFloat(fill.closedPnl ?? "0"),
+      time: fill.time
+    };
+
+    state.fills.push(recorded);
+    state.position += recorded.side === "buy" ? recorded.size : -recorded.size;
+    state.realizedPnl += recorded.closedPnl - recorded.fee;
+    state.fees += recorded.fee;
+  }
+
+  if (state.fills.length > MAX_TRACKED_FILLS) {
+    state.fills = state.fills.slice(-MAX_TRACKED_FILLS);
+  }
+
+  const closed = state.openOrders
+    .filter((order) => !restingOids.has(order.oid))
+    .map((order) => ({
+      order,
+      filledSize: state.fills
+        .filter((fill) => fill.oid === order.oid)
+        .reduce((total, fill) => total + fill.size, 0)
+    }));
+
+  state.openOrders = state.openOrders.filter((order) => restingOids.has(order.oid));
+  return closed;
+}
+
+/**
+ * Get the mid price of a symbol from the top of its L2 book
+ */
+async function getMidPrice(client: Hyperliquid, symbol: string): Promise<number> {
+  const book = await client.info.getL2Book(symbol);
+  const [bids, asks] = book.levels;
+
+  if (!bids.length || !asks.length) {
+    throw new Error(`Order book for ${symbol} is empty`);
+  }
+
+  return (parseFloat(bids[0].px) + parseFloat(asks[0].px)) / 2;
+}
+
+/**
+ * Place a single order for a strategy and track it until it is resolved
+ * Size and price are rounded for the market when its metadata is known
+ */
+async function placeStrategyOrder(
+  tick: StrategyTick,
+  strategy: Strategy,
+  side: "buy" | "sell",
+  requestedSize: number,
+  price: number,
+  tif: "Gtc" | "Ioc",
+  level?: number
+): Promise<void> {
+  const { client, context, market, run } = tick;
+  const limitPrice = market ? roundMarketPrice(market, price) : roundPrice(price);
+  const size = market ? roundSize(market, requestedSize) : requestedSize;
+  if (market) {
+    checkMinNotional(market, size, limitPrice, false);
+  }
+
+  // Strategy orders are held to the same risk policy as manual ones
+  await context.beforeOrder?.({
+    symbol: strategy.config.symbol,
+    side,
+    size,
+    price: limitPrice,
+    reduceOnly: false
+  });
+
+  // The strategy may have been stopped, and its orders cancelled, while this tick was running
+  if (run !== undefined && !(strategy.active && runs[strategy.id] === run)) {
+    return;
+  }
+
+  const result = await client.exchange.placeOrder({
+    coin: market?.symbol ?? strategy.config.symbol,
+    is_buy: side === "buy",
+    sz: size,
+    limit_px: limitPrice,
+    order_type: { limit: { tif } },
+    reduce_only: false
+  });
+
+  if (result?.status !== "ok") {
+    throw new Error(`Order rejected: ${JSON.stringify(result?.response ?? result)}`);
+  }
+
+  const status = result.response?.data?.statuses?.[0];
+  if (status?.error) {
+    throw new Error(`Order rejected: ${status.error}`);
+  }
+
+  const oid = status?.resting?.oid ?? status?.filled?.oid;
+  if (oid === undefined) {
+    throw new Error(`Unexpected order response: ${JSON.stringify(status)}`);
+  }
+
+  strategy.state.ordersPlaced++;
+  strategy.state.openOrders.push({
+    oid,
+    side,
+    price: limitPrice,
+    size,
+    placedAt: Date.now(),
+    level
+  });
+}
+
+/**
+ * Grid: keep a ladder of resting orders between lowerPrice and upperPrice
+ * A filled buy is replaced by a sell one level up, and a filled sell by a buy
+ * one level down
+ */
+async function tickGrid(
+  tick: StrategyTick,
+  strategy: Strategy,
+  config: GridConfig,
+  midPrice: number,
+  closedOrders: { order: StrategyOrder; filledSize: number }[]
+): Promise<void> {
+  const step = (config.upperPrice - config.lowerPrice) / (config.levels - 1);
+  const levelPrice = (level: number) => config.lowerPrice + level * step;
+
+  // Seed the grid on the first tick
+  if (strategy.state.ordersPlaced === 0) {
+    for (let level = 0; level < config.levels; level++) {
+      const price = levelPrice(level);
+      if (Math.abs(price - midPrice) < step / 2) {
+        continue;
+      }
+      await placeStrategyOrder(tick, strategy, price < midPrice ? "buy" : "sell", config.orderSize, price, "Gtc", level);
+    }
+    return;
+  }
+
+  for (const { order, filledSize } of closedOrders) {
+    if (order.level === undefined || filledSize < order.size * 0.999) {
+      continue;
+    }
+
+    const nextLevel = order.side === "buy" ? order.level + 1 : order.level - 1;
+    if (nextLevel < 0 || nextLevel >= config.levels) {
+      continue;
+    }
+
+    const nextSide = order.side === "buy" ? "sell" : "buy";
+    await placeStrategyOrder(tick, strategy, nextSide, config.orderSize, levelPrice(nextLevel), "Gtc", nextLevel);
+  }
+}
+
+/**
+ * DCA: buy or sell a fixed size every interval with an aggressive IOC order
+ */
+async function tickDca(
+  tick: StrategyTick,
+  strategy: Strategy,
+  config: DcaConfig,
+  midPrice: number
+): Promise<void> {
+  if (config.maxOrders !== undefined && strategy.state.ordersPlaced >= config.maxOrders) {
+    return;
+  }
+
+  const price = config.side === "buy"
+    ? midPrice * (1 + config.slippage)
+    : midPrice * (1 - config.slippage);
+
+  await placeStrategyOrder(tick, strategy, config.side, config.orderSize, price, "Ioc");
+}
+
+/**
+ * Mean reversion: enter against moves of more than entryThreshold percent
+ * away from the rolling mean of the mid price, and exit once the price is back
+ * within exitThreshold percent of the mean
+ */
+async function tickMeanReversion(
+  tick: StrategyTick,
+  strategy: Strategy,
+  config: MeanReversionConfig,
+  midPrice: number
+): Promise<void> {
+  const state = strategy.state;
+
+  state.priceHistory.push(midPrice);
+  if (state.priceHistory.length > config.lookback) {
+    state.priceHistory = state.priceHistory.slice(-config.lookback);
+  }
+
+  // Wait for a full window and for earlier orders to resolve
+  if (state.priceHistory.length < config.lookback || state.openOrders.length > 0) {
+    return;
+  }
+
+  const mean = state.priceHistory.reduce((total, price) => total + price, 0) / state.priceHistory.length;
+  const deviation = ((midPrice - mean) / mean) * 100;
+  const buyPrice = midPrice * (1 + config.slippage);
+  const sellPrice = midPrice * (1 - config.slippage);
+
+  if (Math.abs(state.position) < config.orderSize * 1e-6) {
+    if (deviation <= -config.entryThreshold) {
+      await placeStrategyOrder(tick, strategy, "buy", config.orderSize, buyPrice, "Ioc");
+    } else if (deviation >= config.entryThreshold) {
+      await placeStrategyOrder(tick, strategy, "sell", config.orderSize, sellPrice, "Ioc");
+    }
+    return;
+  }
+
+  if (state.position > 0 && deviation >= -config.exitThreshold) {
+    await placeStrategyOrder(tick, strategy, "sell", state.position, sellPrice, "Ioc");
+  } else if (state.position < 0 && deviation <= config.exitThreshold) {
+    await placeStrategyOrder(tick, strategy, "buy", -state.position, buyPrice, "Ioc");
+  }
+}
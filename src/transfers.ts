@@ -0,0 +1,128 @@
+/**
+ * Transfers and withdrawals
+ *
+ * Moving USDC between an account's own spot and perp balances is always
+ * allowed. Sending funds to another address or withdrawing them to L1 is off
+ * unless the operator lists the destinations it may go to in
+ * HYPERLIQUID_MCP_TRANSFER_ALLOWLIST; no tool can change that list. Every
+ * send and withdrawal also needs a confirmation token from a first call.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { Hyperliquid } from "hyperliquid";
+import { ethers } from "ethers";
+
+/**
+ * Type definitions for transfers
+ */
+export type TransferDirection = "to_perp" | "to_spot";
+
+export interface SpotToken {
+  name: string;
+  tokenId?: string; // Unknown for offline paper accounts
+  weiDecimals?: number;
+}
+
+export const TRANSFER_DIRECTIONS: TransferDirection[] = ["to_perp", "to_spot"];
+
+const ALLOWLIST_VARIABLE = "HYPERLIQUID_MCP_TRANSFER_ALLOWLIST";
+
+/**
+ * Destinations funds may be sent or withdrawn to, lowercased
+ * Addresses are separated by commas or whitespace
+ */
+export function transferAllowlist(env: NodeJS.ProcessEnv = process.env): string[] {
+  return (env[ALLOWLIST_VARIABLE] ?? "")
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((address) => {
+      if (!ethers.isAddress(address)) {
+        throw new McpError(ErrorCode.InternalError, `${ALLOWLIST_VARIABLE} has an invalid address: ${address}`);
+      }
+      return address.toLowerCase();
+    });
+}
+
+/**
+ * Validate the destination of a send or withdrawal against the allow-list
+ */
+export function checkDestination(tool: string, value: unknown, allowlist: string[] = transferAllowlist()): string {
+  if (!allowlist.length) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `${tool} is disabled. Sending and withdrawing funds are off until ${ALLOWLIST_VARIABLE} lists the addresses they may go to`
+    );
+  }
+  if (typeof value !== "string" || !ethers.isAddress(value)) {
+    throw new McpError(ErrorCode.InvalidParams, "destination must be a 0x address");
+  }
+  if (!allowlist.includes(value.toLowerCase())) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `${value} is not on the transfer allow-list. Only the operator can add it, in ${ALLOWLIST_VARIABLE}`
+    );
+  }
+  return ethers.getAddress(value);
+}
+
+/**
+ * Validate a positive transfer amount
+ */
+export function parseTransferAmount(value: unknown): number {
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new McpError(ErrorCode.InvalidParams, "amount must be a positive number");
+  }
+  return amount;
+}
+
+/**
+ * Validate the direction of a transfer between spot and perp balances
+ */
+export function parseTransferDirection(value: unknown): TransferDirection {
+  if (!TRANSFER_DIRECTIONS.includes(value as TransferDirection)) {
+    throw new McpError(ErrorCode.InvalidParams, `direction must be one of: ${TRANSFER_DIRECTIONS.join(", ")}`);
+  }
+  return value as TransferDirection;
+}
+
+/**
+ * Resolve a spot token by name (PURR, PURR-SPOT or PURR:0x...) to the name
+ * and token ID spot transfers are addressed by
+ */
+export async function resolveSpotToken(client: Hyperliquid, token: string): Promise<SpotToken> {
+  const name = token.trim().replace(/-SPOT$/i, "").replace(/:.*$/, "").toUpperCase();
+  const spotMeta: any = await client.info.spot.getSpotMeta(true);
+  const match = spotMeta.tokens.find((candidate: any) => candidate.name.toUpperCase() === name);
+  if (!match) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown spot token: ${token}`);
+  }
+  return { name: match.name, tokenId: match.tokenId, weiDecimals: match.weiDecimals };
+}
+
+/**
+ * Spot token in the NAME:tokenId form spot transfers take
+ */
+export function spotTokenWire(token: SpotToken): string {
+  return token.tokenId ? `${token.name}:${token.tokenId}` : token.name;
+}
+
+/**
+ * Round an amount down to what a token can represent, so a transfer never
+ * asks for more than the balance because of rounding
+ */
+export function roundTokenAmount(amount: number, token: SpotToken): string {
+  const decimals = token.weiDecimals ?? 8;
+  const factor = 10 ** decimals;
+  return (Math.floor(amount * factor) / factor).toFixed(decimals).replace(/\.?0+$/, "");
+}
+
+/**
+ * Throw if the exchange rejected a transfer
+ */
+export function checkTransferResult(result: any, action: string): void {
+  if (result?.status !== "ok") {
+    const reason = typeof result?.response === "string" ? result.response : JSON.stringify(result);
+    throw new McpError(ErrorCode.InvalidRequest, `The exchange rejected the ${action}: ${reason}`);
+  }
+}
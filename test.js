@@ -1,93 +1,281 @@
 /**
  * Hyperliquid MCP Server Test Script
- * 
- * This script tests the basic functionality of the Hyperliquid MCP Server.
- * It simulates MCP requests and verifies the responses.
+ *
+ * This script tests the Hyperliquid MCP Server over stdio. The server is
+ * started with HYPERLIQUID_MCP_REPLAY pointing at recorded testnet traffic in
+ * fixtures/, so market data, orders and account resources are tested end to
+ * end without network access.
  */
 
 import { spawn } from 'child_process';
 import { fileURLToPath } from 'url';
-import { dirname, resolve } from 'path';
-import { setTimeout } from 'timers/promises';
+import { dirname, join, resolve } from 'path';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
 
 // Get the current directory
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-// Path to the MCP server executable
+// Path to the MCP server executable and the traffic it replays
 const serverPath = resolve(__dirname, 'build/index.js');
+const fixturePath = resolve(__dirname, 'fixtures/testnet.json');
 
-// Test MCP requests
-const testRequests = [
-  // List tools request
+// A well-known development key; it only signs requests for the local stand-in
+const TEST_PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const RESPONSE_TIMEOUT_MS = 15000;
+
+// A $60 resting order used to fill batches in the risk policy tests
+const BATCH_ORDER = { symbol: 'BTC', side: 'buy', size: 0.001, orderType: 'limit', price: 60000 };
+
+/**
+ * Parse the JSON text of a tool result or resource
+ */
+function parseContent(result) {
+  const text = result.content?.[0]?.text ?? result.contents?.[0]?.text;
+  return JSON.parse(text);
+}
+
+/**
+ * Whether a tool result is an error of the given type
+ */
+function isToolError(result, type) {
+  return result.isError === true && parseContent(result).error.type === type;
+}
+
+// Test MCP requests, in order, each with a check of its result
+const tests = [
+  {
+    name: 'initialize',
+    method: 'initialize',
+    params: { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+    check: (result) => result.serverInfo?.name === 'hyperliquid-server'
+  },
+  {
+    name: 'list tools',
+    method: 'tools/list',
+    params: {},
+    check: (result) => ['get_market_data', 'place_order'].every((name) => result.tools.some((tool) => tool.name === name))
+  },
+  {
+    name: 'list resources',
+    method: 'resources/list',
+    params: {},
+    check: (result) => Array.isArray(result.resources)
+  },
+  {
+    name: 'list prompts',
+    method: 'prompts/list',
+    params: {},
+    check: (result) => ['review_portfolio_risk', 'plan_entry'].every((name) => result.prompts.some((prompt) => prompt.name === name))
+  },
+  {
+    name: 'authenticate',
+    method: 'tools/call',
+    params: { name: 'authenticate', arguments: { privateKey: TEST_PRIVATE_KEY, testnet: true } },
+    check: (result) => !result.isError && result.content[0].text.startsWith('Successfully authenticated')
+  },
+  {
+    name: 'get_market_data',
+    method: 'tools/call',
+    params: { name: 'get_market_data', arguments: { symbol: 'BTC' } },
+    check: (result) => {
+      const data = parseContent(result);
+      return data.symbol === 'BTC-PERP' && data.orderBook.levels[0][0].px === 100000 && data.orderBook.levels[1][0].px === 100010;
+    }
+  },
+  {
+    name: 'preview_order',
+    method: 'tools/call',
+    params: { name: 'preview_order', arguments: { symbol: 'BTC', side: 'buy', size: 0.001, orderType: 'limit', price: 60000 } },
+    check: (result) => {
+      const preview = parseContent(result);
+      return !preview.execution.marketable && preview.execution.resting.price === 60000 &&
+        preview.fees.rates.source === 'account' && preview.fees.rates.maker === 0.00015 &&
+        preview.position.after.size === 0.001 && preview.warnings.length === 0;
+    }
+  },
+  {
+    name: 'preview_order rounds the size down',
+    method: 'tools/call',
+    params: { name: 'preview_order', arguments: { symbol: 'BTC', side: 'buy', size: 0.000999996, orderType: 'limit', price: 60000 } },
+    check: (result) => parseContent(result).position.after.size === 0.00099
+  },
+  {
+    name: 'place_order',
+    method: 'tools/call',
+    params: { name: 'place_order', arguments: { symbol: 'BTC', side: 'buy', size: 0.001, orderType: 'limit', price: 60000 } },
+    check: (result) => parseContent(result).response.data.statuses[0].resting?.oid === 4815162342
+  },
+  {
+    name: 'place_order refuses a take-profit below a buy entry',
+    method: 'tools/call',
+    params: { name: 'place_order', arguments: { symbol: 'BTC', side: 'buy', size: 0.001, orderType: 'limit', price: 60000, takeProfit: 50000 } },
+    check: (result) => isToolError(result, 'invalid_arguments') && parseContent(result).error.message.includes('takeProfit')
+  },
+  {
+    name: 'set_risk_policy',
+    method: 'tools/call',
+    params: { name: 'set_risk_policy', arguments: { maxOrdersPerMinute: 2 } },
+    check: (result) => !result.isError
+  },
+  {
+    name: 'place_orders counts the whole batch towards the order rate',
+    method: 'tools/call',
+    params: { name: 'place_orders', arguments: { orders: [BATCH_ORDER, BATCH_ORDER] } },
+    check: (result) => isToolError(result, 'invalid_request') && parseContent(result).error.message.includes('maxOrdersPerMinute')
+  },
   {
-    id: '1',
-    jsonrpc: '2.0',
-    method: 'mcp.listTools',
-    params: {}
+    name: 'set_risk_policy',
+    method: 'tools/call',
+    params: { name: 'set_risk_policy', arguments: { maxOrdersPerMinute: 30, maxSymbolNotional: 100 } },
+    check: (result) => !result.isError
   },
-  // List resources request
   {
-    id: '2',
-    jsonrpc: '2.0',
-    method: 'mcp.listResources',
-    params: {}
+    name: 'place_orders counts the whole batch towards the symbol limit',
+    method: 'tools/call',
+    params: { name: 'place_orders', arguments: { orders: [BATCH_ORDER, BATCH_ORDER] } },
+    check: (result) => isToolError(result, 'invalid_request') && parseContent(result).error.message.includes('maxSymbolNotional')
+  },
+  {
+    name: 'set_risk_policy',
+    method: 'tools/call',
+    params: { name: 'set_risk_policy', arguments: { maxSymbolNotional: null } },
+    check: (result) => !result.isError
+  },
+  {
+    name: 'create_strategy refuses a zero order size',
+    method: 'tools/call',
+    params: { name: 'create_strategy', arguments: { name: 'dca', description: 'test', type: 'dca', config: { symbol: 'BTC', side: 'buy', orderSize: 0 } } },
+    check: (result) => isToolError(result, 'invalid_arguments') && parseContent(result).error.message.includes('orderSize')
+  },
+  {
+    name: 'backtest_strategy refuses an unknown candle interval',
+    method: 'tools/call',
+    params: { name: 'backtest_strategy', arguments: { strategyId: 'missing', interval: '2m' } },
+    check: (result) => isToolError(result, 'invalid_arguments') && parseContent(result).error.message.includes('interval')
+  },
+  {
+    name: 'export_journal refuses a relative path',
+    method: 'tools/call',
+    params: { name: 'export_journal', arguments: { path: '../x' } },
+    check: (result) => isToolError(result, 'invalid_arguments')
+  },
+  {
+    name: 'export_journal refuses an absolute path',
+    method: 'tools/call',
+    params: { name: 'export_journal', arguments: { path: '/tmp/x' } },
+    check: (result) => isToolError(result, 'invalid_arguments')
+  },
+  {
+    name: 'forget_credentials refuses an account name with a path',
+    method: 'tools/call',
+    params: { name: 'forget_credentials', arguments: { account: 'x/../../app' } },
+    check: (result) => isToolError(result, 'invalid_arguments')
+  },
+  {
+    name: 'account resource',
+    method: 'resources/read',
+    params: { uri: 'hyperliquid://account' },
+    check: (result) => {
+      const account = parseContent(result);
+      return account.perpetuals.marginSummary.accountValue === 10000 &&
+        account.spot.balances.some((balance) => balance.coin === 'PURR-SPOT' && balance.usdValue === '200');
+    }
   }
 ];
 
 // Function to run the tests
 async function runTests() {
   console.log('Starting Hyperliquid MCP Server tests...');
-  
+
+  // Keep saved logins and state away from the real data directory
+  const dataDir = mkdtempSync(join(tmpdir(), 'hyperliquid-mcp-test-'));
+
   // Start the MCP server process
   const serverProcess = spawn('node', [serverPath], {
-    stdio: ['pipe', 'pipe', 'pipe']
+    stdio: ['pipe', 'pipe', 'pipe'],
+    env: { ...process.env, HYPERLIQUID_MCP_DATA_DIR: dataDir, HYPERLIQUID_MCP_REPLAY: fixturePath }
   });
-  
-  // Set up event handlers
+
+  // Responses arrive one JSON message per line
+  const pending = new Map();
+  let buffer = '';
   serverProcess.stdout.on('data', (data) => {
-    try {
-      const response = JSON.parse(data.toString());
-      console.log('Received response:', JSON.stringify(response, null, 2));
-      
-      // Validate the response
-      if (response.id && response.result) {
-        console.log(`✅ Test ${response.id} passed`);
-      } else if (response.error) {
-        console.log(`❌ Test ${response.id} failed: ${response.error.message}`);
+    buffer += data.toString();
+    let newline;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 1);
+      try {
+        const response = JSON.parse(line);
+        pending.get(response.id)?.(response);
+      } catch (err) {
+        console.log('Server output (not JSON):', line);
       }
-    } catch (err) {
-      console.log('Server output (not JSON):', data.toString());
     }
   });
-  
+
   serverProcess.stderr.on('data', (data) => {
     console.error('Server error:', data.toString());
   });
-  
+
   serverProcess.on('close', (code) => {
     console.log(`Server process exited with code ${code}`);
   });
-  
-  // Wait for the server to start
-  await setTimeout(1000);
-  
+
+  const send = (id, method, params) => new Promise((resolveResponse, reject) => {
+    const timer = setTimeout(() => reject(new Error('No response')), RESPONSE_TIMEOUT_MS);
+    pending.set(id, (response) => {
+      clearTimeout(timer);
+      resolveResponse(response);
+    });
+    serverProcess.stdin.write(JSON.stringify({ id, jsonrpc: '2.0', method, params }) + '\n');
+  });
+
   // Send test requests
-  for (const request of testRequests) {
-    console.log(`Sending request: ${JSON.stringify(request)}`);
-    serverProcess.stdin.write(JSON.stringify(request) + '\n');
-    
-    // Wait between requests
-    await setTimeout(500);
+  let failures = 0;
+  for (const [index, test] of tests.entries()) {
+    const id = index + 1;
+    console.log(`Sending request: ${test.name}`);
+
+    let passed = false;
+    let reason = 'unexpected result';
+    try {
+      const response = await send(id, test.method, test.params);
+      if (response.error) {
+        reason = response.error.message;
+      } else {
+        passed = Boolean(test.check(response.result));
+        if (!passed) {
+          console.log('Received response:', JSON.stringify(response.result, null, 2));
+        }
+      }
+    } catch (err) {
+      reason = err.message;
+    }
+
+    if (passed) {
+      console.log(`✅ Test ${id} (${test.name}) passed`);
+    } else {
+      failures++;
+      console.log(`❌ Test ${id} (${test.name}) failed: ${reason}`);
+    }
   }
-  
+
   // Clean up
   console.log('Tests completed, terminating server...');
   serverProcess.kill();
+  rmSync(dataDir, { recursive: true, force: true });
+
+  if (failures > 0) {
+    console.log(`${failures} of ${tests.length} tests failed`);
+    process.exitCode = 1;
+  }
 }
 
 // Run the tests
 runTests().catch((err) => {
   console.error('Test error:', err);
   process.exit(1);
-});
\ No newline at end of file
+});